@@ -0,0 +1,105 @@
+import {
+  AuthTokens,
+  CatalogItem,
+  DeviceSession,
+  Entitlements,
+  GenerationKind,
+  OutfitSuggestion,
+  Profile,
+  SyncMutation,
+  SyncRecord,
+  User,
+} from '../models';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * A backend route. The type parameters only exist for the compiler: they tie each
+ * route to the body it accepts and the data it answers with.
+ */
+export interface Endpoint<Response, Body = undefined> {
+  method: HttpMethod;
+  path: string; // `:name` segments are filled in from params
+  authenticated: boolean; // sent with the access token and refreshed on 401
+  _types?: { response: Response; body: Body };
+}
+
+const endpoint = <Response, Body = undefined>(
+  method: HttpMethod,
+  path: string,
+  { authenticated = true }: { authenticated?: boolean } = {}
+): Endpoint<Response, Body> => ({ method, path, authenticated });
+
+// Auth routes are how a session starts, so they never carry a token
+const publicEndpoint = <Response, Body = undefined>(method: HttpMethod, path: string) =>
+  endpoint<Response, Body>(method, path, { authenticated: false });
+
+export interface AuthSession {
+  user: User;
+  tokens: AuthTokens;
+}
+
+export interface ActiveSession extends DeviceSession {
+  current: boolean; // the session making the request
+}
+
+export interface SuggestionPage {
+  suggestions: OutfitSuggestion[];
+  nextCursor: string | null; // null once the feed is exhausted
+}
+
+export interface PushResult {
+  status: 'applied' | 'conflict';
+  remote: SyncRecord | null; // the server's copy after the push
+  remoteUpdatedAt: string;
+}
+
+export const ENDPOINTS = {
+  // Auth
+  register: publicEndpoint<AuthSession, { email: string; password: string; name: string }>(
+    'POST',
+    '/auth/register'
+  ),
+  login: publicEndpoint<AuthSession, { email: string; password: string }>('POST', '/auth/login'),
+  refreshSession: publicEndpoint<AuthTokens, { refreshToken: string }>('POST', '/auth/refresh'),
+  logout: publicEndpoint<{ signedOut: boolean }, { refreshToken: string }>('POST', '/auth/logout'),
+  verifyAccount: publicEndpoint<{ verified: boolean }, { email: string; code: string }>(
+    'POST',
+    '/auth/verify'
+  ),
+  forgotPassword: publicEndpoint<{ sent: boolean }, { email: string }>(
+    'POST',
+    '/auth/forgot-password'
+  ),
+  resetPassword: publicEndpoint<
+    { reset: boolean },
+    { email: string; code: string; newPassword: string }
+  >('POST', '/auth/reset-password'),
+
+  // Sessions
+  getSessions: endpoint<ActiveSession[]>('GET', '/auth/sessions'),
+  revokeSession: endpoint<{ revoked: boolean }>('DELETE', '/auth/sessions/:sessionId'),
+  revokeAllSessions: endpoint<{ revoked: number }>('DELETE', '/auth/sessions'),
+
+  // Users
+  getUser: endpoint<User>('GET', '/users/:userId'),
+  deleteUser: endpoint<{ deleted: boolean }>('DELETE', '/users/:userId'),
+  getProfile: endpoint<Profile>('GET', '/users/:userId/profile'),
+
+  // Catalog
+  getCatalogItems: endpoint<CatalogItem[]>('GET', '/catalog'),
+
+  // Entitlements
+  getEntitlements: endpoint<Entitlements>('GET', '/users/:userId/entitlements'),
+  upgradeToPro: endpoint<Entitlements>('POST', '/users/:userId/entitlements/upgrade'),
+  recordGenerate: endpoint<Entitlements, { kind: GenerationKind }>(
+    'POST',
+    '/users/:userId/entitlements/generates'
+  ),
+
+  // Today deck
+  getSuggestions: endpoint<SuggestionPage>('GET', '/users/:userId/suggestions'),
+
+  // Sync
+  pushMutation: endpoint<PushResult, SyncMutation>('POST', '/sync/mutations'),
+} as const;
@@ -0,0 +1,469 @@
+import {
+  APIResponse,
+  AuthTokens,
+  DeviceSession,
+  Entitlements,
+  OutfitSuggestion,
+  Profile,
+  SyncRecord,
+  User,
+} from '../models';
+import {
+  mockCatalogItems,
+  mockDeviceSessions,
+  mockEntitlements,
+  mockOutfitSuggestions,
+  mockProfiles,
+  mockUsers,
+} from '../data/mockData';
+import { ActiveSession, ENDPOINTS, Endpoint, HttpMethod } from './endpoints';
+
+// Local stand-in for the REST backend. Routes answer from mockData the way the real
+// server would, so services can't tell which one they are talking to.
+
+const MIN_LATENCY_MS = 300;
+const MAX_LATENCY_MS = 800;
+const DEMO_PASSWORD = 'demo123';
+const DEMO_CODE = '123456';
+const DEFAULT_PAGE_SIZE = 5;
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+// What the server learns about the caller from the request headers
+export interface MockClient {
+  authorization?: string;
+  deviceName?: string;
+  platform?: string;
+}
+
+interface MockSession extends DeviceSession {
+  refreshToken: string | null; // the only one it accepts; null until it next issues one
+}
+
+export interface MockRequest<Body = unknown> {
+  params: Record<string, string>;
+  query: Record<string, string | undefined>;
+  body: Body;
+  client: MockClient;
+  session: MockSession | null; // set on authenticated routes
+}
+
+export interface MockResponse {
+  status: number;
+  data: unknown;
+}
+
+// Thrown from a handler to answer with an error status
+class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  keys: string[];
+  handler: (request: MockRequest) => APIResponse<unknown>;
+  authenticated: boolean;
+  failureRate: number; // share of requests dropped as if the connection failed
+}
+
+const routes: Route[] = [];
+
+const route = <Response, Body>(
+  endpoint: Endpoint<Response, Body>,
+  handler: (request: MockRequest<Body>) => APIResponse<Response>,
+  options: { failureRate?: number } = {}
+) => {
+  const keys: string[] = [];
+  const source = endpoint.path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  routes.push({
+    method: endpoint.method,
+    pattern: new RegExp(`^${source}$`),
+    keys,
+    handler: handler as Route['handler'],
+    authenticated: endpoint.authenticated,
+    failureRate: options.failureRate ?? 0,
+  });
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const sessions = new Map<string, MockSession>(
+  mockDeviceSessions.map((session) => [session.id, { ...session, refreshToken: null }])
+);
+const revokedSessionIds = new Set<string>();
+
+const openSession = (
+  userId: string,
+  client: MockClient,
+  id = `session-${Date.now()}${Math.random().toString(36).slice(2, 6)}`
+): MockSession => {
+  const now = new Date().toISOString();
+  const session: MockSession = {
+    id,
+    userId,
+    deviceName: client.deviceName || 'Unknown device',
+    platform: client.platform ?? 'unknown',
+    createdAt: now,
+    lastActiveAt: now,
+    refreshToken: null,
+  };
+  sessions.set(session.id, session);
+  return session;
+};
+
+const revokeSession = (sessionId: string) => {
+  sessions.delete(sessionId);
+  revokedSessionIds.add(sessionId);
+};
+
+// Tokens name their user and session like JWT claims do. The session table lives in
+// memory, so a token from before an app reload brings its session back unless it was
+// signed out.
+const resumeSession = (token: string, kind: 'access' | 'refresh', client: MockClient) => {
+  const [tokenKind, userId, sessionId, claim] = token.split('.');
+  if (
+    tokenKind !== kind ||
+    !sessionId ||
+    revokedSessionIds.has(sessionId) ||
+    !mockUsers.some((u) => u.id === userId)
+  ) {
+    return null;
+  }
+
+  const session = sessions.get(sessionId) ?? openSession(userId, client, sessionId);
+  if (session.userId !== userId) return null;
+  session.lastActiveAt = new Date().toISOString();
+  return { session, claim };
+};
+
+// Refresh tokens are single use; each refresh rotates them
+const issueTokens = (session: MockSession): AuthTokens => {
+  const expiresAt = Date.now() + ACCESS_TOKEN_TTL_MS;
+  const secret = `${Date.now()}${Math.random().toString(36).slice(2, 8)}`;
+  session.refreshToken = `refresh.${session.userId}.${session.id}.${secret}`;
+  return {
+    accessToken: `access.${session.userId}.${session.id}.${expiresAt}`,
+    refreshToken: session.refreshToken,
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+};
+
+const authenticate = (client: MockClient) => {
+  const token = (client.authorization ?? '').replace(/^Bearer /, '');
+  const resumed = resumeSession(token, 'access', client);
+  if (!resumed) {
+    throw new MockHttpError(401, 'Not signed in');
+  }
+  if (Number(resumed.claim) < Date.now()) {
+    throw new MockHttpError(401, 'Access token expired');
+  }
+  return resumed.session;
+};
+
+const toActiveSession = (session: MockSession, current: MockSession): ActiveSession => ({
+  id: session.id,
+  userId: session.userId,
+  deviceName: session.deviceName,
+  platform: session.platform,
+  createdAt: session.createdAt,
+  lastActiveAt: session.lastActiveAt,
+  current: session.id === current.id,
+});
+
+const findUser = (userId: string): User => {
+  const user = mockUsers.find((u) => u.id === userId);
+  if (!user) {
+    throw new MockHttpError(404, 'User not found');
+  }
+  return user;
+};
+
+const entitlementsFor = (userId: string): Entitlements => {
+  let entitlements = mockEntitlements.find((e) => e.userId === userId);
+  if (!entitlements) {
+    entitlements = {
+      userId,
+      plan: 'free',
+      closetItemCount: 0,
+      generatesToday: 0,
+      partialGeneratesToday: 0,
+      lastGenerateDate: today(),
+    };
+    mockEntitlements.push(entitlements);
+  }
+
+  // Reset daily count if new day
+  if (entitlements.lastGenerateDate !== today()) {
+    entitlements.generatesToday = 0;
+    entitlements.partialGeneratesToday = 0;
+    entitlements.lastGenerateDate = today();
+  }
+  return entitlements;
+};
+
+// Latest version of every synced record; a null record marks a deletion
+const syncVersions = new Map<string, { record: SyncRecord | null; updatedAt: string }>();
+
+// Auth
+
+route(ENDPOINTS.register, ({ body, client }) => {
+  if (mockUsers.some((u) => u.email === body.email)) {
+    throw new MockHttpError(409, 'Email already registered');
+  }
+
+  const user: User = {
+    id: `user-${Date.now()}`,
+    email: body.email,
+    name: body.name,
+    createdAt: new Date().toISOString(),
+  };
+  mockUsers.push(user);
+  const tokens = issueTokens(openSession(user.id, client));
+  return { data: { user, tokens }, message: 'Registration successful' };
+});
+
+route(ENDPOINTS.login, ({ body, client }) => {
+  const user = mockUsers.find((u) => u.email === body.email);
+  if (!user || body.password !== DEMO_PASSWORD) {
+    throw new MockHttpError(401, 'Invalid email or password');
+  }
+  const tokens = issueTokens(openSession(user.id, client));
+  return { data: { user, tokens }, message: 'Login successful' };
+});
+
+route(ENDPOINTS.refreshSession, ({ body, client }) => {
+  const session = resumeSession(body.refreshToken, 'refresh', client)?.session;
+  if (!session) {
+    throw new MockHttpError(401, 'Session expired');
+  }
+  if (session.refreshToken !== null && session.refreshToken !== body.refreshToken) {
+    // A rotated token came back, so it may have leaked; end the session to be safe
+    revokeSession(session.id);
+    throw new MockHttpError(401, 'Session expired');
+  }
+  return { data: issueTokens(session) };
+});
+
+route(ENDPOINTS.logout, ({ body, client }) => {
+  const session = resumeSession(body.refreshToken, 'refresh', client)?.session;
+  if (session) {
+    revokeSession(session.id);
+  }
+  return { data: { signedOut: true }, message: 'Signed out' };
+});
+
+route(ENDPOINTS.verifyAccount, ({ body }) => {
+  if (body.code !== DEMO_CODE) {
+    throw new MockHttpError(400, 'Invalid verification code');
+  }
+  return { data: { verified: true }, message: 'Account verified' };
+});
+
+route(ENDPOINTS.forgotPassword, ({ body }) => {
+  if (!mockUsers.some((u) => u.email === body.email)) {
+    throw new MockHttpError(404, 'Email not found');
+  }
+  return { data: { sent: true }, message: 'Password reset email sent' };
+});
+
+route(ENDPOINTS.resetPassword, ({ body }) => {
+  if (body.code !== DEMO_CODE) {
+    throw new MockHttpError(400, 'Invalid reset code');
+  }
+  return { data: { reset: true }, message: 'Password reset successful' };
+});
+
+// Sessions
+
+route(ENDPOINTS.getSessions, ({ session }) => {
+  const current = session as MockSession;
+  return {
+    data: [...sessions.values()]
+      .filter((s) => s.userId === current.userId)
+      .sort((a, b) => b.lastActiveAt.localeCompare(a.lastActiveAt))
+      .map((s) => toActiveSession(s, current)),
+  };
+});
+
+route(ENDPOINTS.revokeSession, ({ params, session }) => {
+  const target = sessions.get(params.sessionId);
+  if (!target || target.userId !== session?.userId) {
+    throw new MockHttpError(404, 'Session not found');
+  }
+  revokeSession(target.id);
+  return { data: { revoked: true }, message: 'Device signed out' };
+});
+
+route(ENDPOINTS.revokeAllSessions, ({ session }) => {
+  const owned = [...sessions.values()].filter((s) => s.userId === session?.userId);
+  owned.forEach((s) => revokeSession(s.id));
+  return { data: { revoked: owned.length }, message: 'Signed out of all devices' };
+});
+
+// Users
+
+route(ENDPOINTS.getUser, ({ params }) => ({ data: findUser(params.userId) }));
+
+route(ENDPOINTS.deleteUser, ({ params }) => {
+  [...sessions.values()]
+    .filter((s) => s.userId === params.userId)
+    .forEach((s) => revokeSession(s.id));
+  const index = mockProfiles.findIndex((p) => p.userId === params.userId);
+  if (index !== -1) {
+    mockProfiles.splice(index, 1);
+  }
+  return { data: { deleted: true }, message: 'Account deleted successfully' };
+});
+
+route(ENDPOINTS.getProfile, ({ params }) => {
+  let profile = mockProfiles.find((p) => p.userId === params.userId);
+  if (!profile) {
+    profile = { userId: params.userId };
+    mockProfiles.push(profile);
+  }
+  return { data: { ...profile } };
+});
+
+// Catalog
+
+route(ENDPOINTS.getCatalogItems, ({ query }) => ({
+  data: query.category
+    ? mockCatalogItems.filter((item) => item.category === query.category)
+    : mockCatalogItems,
+}));
+
+// Entitlements
+
+route(ENDPOINTS.getEntitlements, ({ params }) => ({ data: { ...entitlementsFor(params.userId) } }));
+
+route(ENDPOINTS.upgradeToPro, ({ params }) => {
+  const entitlements = entitlementsFor(params.userId);
+  entitlements.plan = 'pro';
+  return { data: { ...entitlements }, message: 'Upgraded to Pro successfully' };
+});
+
+route(ENDPOINTS.recordGenerate, ({ params, body }) => {
+  const entitlements = entitlementsFor(params.userId);
+  if (body.kind === 'partial') {
+    entitlements.partialGeneratesToday += 1;
+  } else {
+    entitlements.generatesToday += 1;
+  }
+  entitlements.lastGenerateDate = today();
+  return { data: { ...entitlements } };
+});
+
+// Today deck
+
+route(ENDPOINTS.getSuggestions, ({ query }) => {
+  // Cursors are opaque to callers; here they mark a position in the feed
+  const cursor = query.cursor;
+  const start = cursor ? Number(cursor.replace(/^pos:/, '')) : 0;
+  if (cursor && (!cursor.startsWith('pos:') || !Number.isInteger(start) || start < 0)) {
+    throw new MockHttpError(400, 'Invalid suggestion cursor');
+  }
+
+  const limit = Number(query.limit) || DEFAULT_PAGE_SIZE;
+  const excluded = new Set(query.exclude ? query.exclude.split(',') : []);
+  let position = start;
+
+  // Skipped suggestions don't count towards the page, so pages stay full
+  const suggestions: OutfitSuggestion[] = [];
+  while (position < mockOutfitSuggestions.length && suggestions.length < limit) {
+    const suggestion = mockOutfitSuggestions[position];
+    position += 1;
+    if (!excluded.has(suggestion.id)) {
+      suggestions.push({ ...suggestion });
+    }
+  }
+
+  return {
+    data: {
+      suggestions,
+      nextCursor: position < mockOutfitSuggestions.length ? `pos:${position}` : null,
+    },
+  };
+});
+
+// Sync
+
+route(
+  ENDPOINTS.pushMutation,
+  ({ body: mutation }) => {
+    const key = `${mutation.entity}:${mutation.recordId}`;
+    const current = syncVersions.get(key);
+    // Last writer wins; replaying the same change again is a no-op
+    if (current && current.updatedAt > mutation.updatedAt) {
+      return {
+        data: {
+          status: 'conflict',
+          remote: current.record,
+          remoteUpdatedAt: current.updatedAt,
+        },
+      };
+    }
+
+    const record = mutation.op === 'delete' ? null : (mutation.record ?? null);
+    syncVersions.set(key, { record, updatedAt: mutation.updatedAt });
+    if (mutation.entity === 'profile' && record) {
+      const index = mockProfiles.findIndex((p) => p.userId === mutation.recordId);
+      if (index === -1) mockProfiles.push({ ...(record as Profile) });
+      else mockProfiles[index] = { ...(record as Profile) };
+    }
+
+    return {
+      data: { status: 'applied', remote: record, remoteUpdatedAt: mutation.updatedAt },
+      message: 'Change synced',
+    };
+  },
+  // Pushes run in the background, so they simulate a patchy connection
+  { failureRate: 0.1 }
+);
+
+/**
+ * Answers one request. Rejects without a response when the simulated connection
+ * drops, just like a real network failure.
+ */
+export const handleMockRequest = async (
+  method: HttpMethod,
+  path: string,
+  query: Record<string, string | undefined> = {},
+  body?: unknown,
+  client: MockClient = {}
+): Promise<MockResponse> => {
+  const latency = MIN_LATENCY_MS + Math.random() * (MAX_LATENCY_MS - MIN_LATENCY_MS);
+  await new Promise((resolve) => setTimeout(resolve, latency));
+
+  for (const candidate of routes) {
+    const match = candidate.method === method ? candidate.pattern.exec(path) : null;
+    if (!match) continue;
+
+    if (Math.random() < candidate.failureRate) {
+      throw new Error('Network Error');
+    }
+
+    const params: Record<string, string> = {};
+    candidate.keys.forEach((key, index) => {
+      params[key] = decodeURIComponent(match[index + 1]);
+    });
+    try {
+      const session = candidate.authenticated ? authenticate(client) : null;
+      return { status: 200, data: candidate.handler({ params, query, body, client, session }) };
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return { status: error.status, data: { data: null, error: error.message } };
+      }
+      return { status: 500, data: { data: null, error: (error as Error).message } };
+    }
+  }
+
+  return { status: 404, data: { data: null, error: `No route for ${method} ${path}` } };
+};
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  FlatList,
+  TouchableOpacity,
+  Text,
+  TouchableWithoutFeedback,
+} from 'react-native';
+import { useAppTheme } from '../hooks/useAppTheme';
+import { AppText } from './AppText';
+import { AppInput } from './AppInput';
+import { AppButton } from './AppButton';
+import { Board } from '../stores/collectionsStore';
+
+interface BoardPickerSheetProps {
+  visible: boolean;
+  title: string;
+  boards: Board[];
+  entryKey?: string; // boards already holding this entry are marked
+  excludeBoardId?: string;
+  onSelect: (board: Board) => void;
+  onCreate: (name: string) => Board; // throws when the name is invalid
+  onClose: () => void;
+}
+
+export const BoardPickerSheet: React.FC<BoardPickerSheetProps> = ({
+  visible,
+  title,
+  boards,
+  entryKey,
+  excludeBoardId,
+  onSelect,
+  onCreate,
+  onClose,
+}) => {
+  const { colors, spacing, borderRadius } = useAppTheme();
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | undefined>();
+
+  const handleCreate = () => {
+    try {
+      const board = onCreate(name);
+      setName('');
+      setError(undefined);
+      onSelect(board);
+    } catch (createError) {
+      setError((createError as Error).message);
+    }
+  };
+
+  const renderBoard = ({ item }: { item: Board }) => {
+    const contains = entryKey !== undefined && item.entries.some((entry) => entry.key === entryKey);
+
+    return (
+      <TouchableOpacity
+        onPress={() => onSelect(item)}
+        disabled={contains}
+        style={[styles.row, { paddingVertical: spacing.md, borderBottomColor: colors.glassBorder }]}
+        activeOpacity={0.8}
+      >
+        <View style={styles.rowText}>
+          <AppText variant="body" style={{ fontWeight: '600' }}>
+            {item.name}
+          </AppText>
+          <AppText variant="caption" color={colors.textSecondary}>
+            {item.entries.length} {item.entries.length === 1 ? 'look' : 'looks'}
+          </AppText>
+        </View>
+        {contains && (
+          <AppText variant="caption" color={colors.accent}>
+            ✓ Added
+          </AppText>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <TouchableWithoutFeedback onPress={onClose}>
+          <View style={styles.dismissArea} />
+        </TouchableWithoutFeedback>
+        <View
+          style={[
+            styles.sheet,
+            {
+              backgroundColor: colors.cardBackground,
+              borderTopLeftRadius: borderRadius.xl,
+              borderTopRightRadius: borderRadius.xl,
+              padding: spacing.lg,
+            },
+          ]}
+        >
+          <View style={[styles.header, { marginBottom: spacing.md }]}>
+            <AppText variant="h2">{title}</AppText>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={[styles.closeIcon, { color: colors.textPrimary }]}>×</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.createRow, { gap: spacing.sm }]}>
+            <AppInput
+              placeholder="New board, e.g. Wedding season"
+              value={name}
+              onChangeText={setName}
+              error={error}
+              containerStyle={styles.createInput}
+              onSubmitEditing={handleCreate}
+              returnKeyType="done"
+            />
+            <AppButton
+              label="Create"
+              variant="secondary"
+              onPress={handleCreate}
+              disabled={!name.trim()}
+            />
+          </View>
+
+          <FlatList
+            data={boards.filter((board) => board.id !== excludeBoardId)}
+            renderItem={renderBoard}
+            keyExtractor={(board) => board.id}
+            ListEmptyComponent={
+              <AppText variant="caption" color={colors.textSecondary}>
+                No other boards yet
+              </AppText>
+            }
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheet: {
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  closeIcon: {
+    fontSize: 28,
+    fontWeight: '300',
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  createInput: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowText: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,139 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, Platform, StyleProp, ViewStyle } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { useAppTheme } from '../hooks/useAppTheme';
+import { AppText } from './AppText';
+
+interface DeckEndStateProps {
+  isFetching: boolean;
+  hasMore: boolean;
+  error: string | null;
+  onRetry: () => void;
+  onViewCollections: () => void;
+  onReset: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+const DeckButton: React.FC<{ label: string; onPress: () => void }> = ({ label, onPress }) => {
+  const { colors, blur } = useAppTheme();
+
+  return (
+    <TouchableOpacity
+      activeOpacity={0.8}
+      onPress={onPress}
+      style={[styles.pill, { borderColor: colors.glassBorder }]}
+    >
+      {Platform.OS === 'ios' ? (
+        <BlurView intensity={blur.medium} tint="light" style={styles.pillInner}>
+          <AppText overlay variant="body" style={styles.pillText}>
+            {label}
+          </AppText>
+        </BlurView>
+      ) : (
+        <View style={[styles.pillInner, styles.pillAndroid]}>
+          <AppText overlay variant="body" style={styles.pillText}>
+            {label}
+          </AppText>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+/**
+ * What the Today deck shows once no cards are left: a loading line while the next
+ * page is on its way, a retry after a failed fetch, and the end of the feed.
+ */
+export const DeckEndState: React.FC<DeckEndStateProps> = ({
+  isFetching,
+  hasMore,
+  error,
+  onRetry,
+  onViewCollections,
+  onReset,
+  style,
+}) => {
+  if (isFetching || (hasMore && !error)) {
+    return (
+      <View style={[style, styles.container]}>
+        <AppText overlay muted variant="body" style={styles.subtitle}>
+          Finding more looks…
+        </AppText>
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={[style, styles.container]}>
+        <AppText overlay variant="h1" style={styles.title}>
+          Couldn't load looks
+        </AppText>
+        <AppText overlay muted variant="body" style={styles.subtitle}>
+          {error}
+        </AppText>
+        <DeckButton label="Try Again ↻" onPress={onRetry} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[style, styles.container]}>
+      <AppText overlay variant="h1" style={styles.title}>
+        All Done! 🎉
+      </AppText>
+      <AppText overlay muted variant="body" style={styles.subtitle}>
+        You've seen every suggestion for today
+      </AppText>
+      <View style={styles.actions}>
+        <DeckButton label="View Collections →" onPress={onViewCollections} />
+        <DeckButton label="Reset List ↻" onPress={onReset} />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingBottom: 0,
+  },
+  title: {
+    fontWeight: '900',
+    fontSize: 32,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 16,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+    marginBottom: 24,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  pill: {
+    borderWidth: 1.5,
+    borderRadius: 999,
+    overflow: 'hidden',
+  },
+  pillInner: {
+    paddingHorizontal: 18,
+    paddingVertical: 9,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  pillAndroid: {
+    backgroundColor: 'rgba(255,255,255,0.18)',
+  },
+  pillText: {
+    fontWeight: '900',
+    fontSize: 15,
+  },
+});
+
+DeckEndState.displayName = 'DeckEndState';
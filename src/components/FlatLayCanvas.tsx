@@ -0,0 +1,193 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Image,
+  PanResponder,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+  ViewStyle,
+} from 'react-native';
+import { useAppTheme } from '../hooks/useAppTheme';
+import { AppText } from './AppText';
+import { ClosetItem, FlatLayLayer, OutfitComposition } from '../models';
+import { getItemImageUri } from '../utils/itemImages';
+import { moveLayer, resizeLayer } from '../utils/flatLay';
+
+interface FlatLayCanvasProps {
+  composition: OutfitComposition;
+  items: ClosetItem[];
+  editable?: boolean;
+  selectedItemId?: string | null;
+  onSelectLayer?: (itemId: string) => void;
+  onChangeLayer?: (layer: FlatLayLayer) => void;
+  style?: ViewStyle;
+}
+
+interface LayerViewProps {
+  layer: FlatLayLayer;
+  item?: ClosetItem;
+  canvasSize: number;
+  editable: boolean;
+  selected: boolean;
+  onSelect?: (itemId: string) => void;
+  onChange?: (layer: FlatLayLayer) => void;
+}
+
+const touchDistance = (event: GestureResponderEvent) => {
+  const [a, b] = event.nativeEvent.touches;
+  return Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+};
+
+// One finger drags the item, two fingers pinch to scale it. The layer is previewed
+// locally while the gesture runs and only reported once it ends.
+const LayerView: React.FC<LayerViewProps> = ({
+  layer,
+  item,
+  canvasSize,
+  editable,
+  selected,
+  onSelect,
+  onChange,
+}) => {
+  const { colors, borderRadius } = useAppTheme();
+  const [preview, setPreview] = useState<FlatLayLayer | null>(null);
+  const latest = useRef({ layer, canvasSize, editable, onSelect, onChange });
+  latest.current = { layer, canvasSize, editable, onSelect, onChange };
+  const previewRef = useRef<FlatLayLayer | null>(null);
+  const pinchStart = useRef<number | null>(null);
+
+  const updatePreview = (next: FlatLayLayer | null) => {
+    previewRef.current = next;
+    setPreview(next);
+  };
+
+  const finishGesture = () => {
+    if (previewRef.current) latest.current.onChange?.(previewRef.current);
+    pinchStart.current = null;
+    updatePreview(null);
+  };
+
+  const responder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => latest.current.editable,
+      onMoveShouldSetPanResponder: () => latest.current.editable,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        pinchStart.current = null;
+        latest.current.onSelect?.(latest.current.layer.itemId);
+      },
+      onPanResponderMove: (event, gesture) => {
+        const { layer: current, canvasSize: size } = latest.current;
+        if (event.nativeEvent.touches.length >= 2) {
+          const distance = touchDistance(event);
+          if (pinchStart.current === null) pinchStart.current = distance;
+          updatePreview(resizeLayer(current, (current.size * distance) / pinchStart.current));
+        } else if (pinchStart.current === null && size > 0) {
+          updatePreview(moveLayer(current, gesture.dx / size, gesture.dy / size));
+        }
+      },
+      onPanResponderRelease: finishGesture,
+      onPanResponderTerminate: finishGesture,
+    })
+  ).current;
+
+  const shown = preview ?? layer;
+  const box = shown.size * canvasSize;
+
+  return (
+    <View
+      {...responder.panHandlers}
+      style={[
+        styles.layer,
+        {
+          width: box,
+          height: box,
+          left: shown.x * canvasSize - box / 2,
+          top: shown.y * canvasSize - box / 2,
+          zIndex: shown.zIndex,
+          borderRadius: borderRadius.md,
+          borderColor: selected ? colors.accent : 'transparent',
+        },
+      ]}
+    >
+      {item ? (
+        <Image
+          source={{ uri: getItemImageUri(item, 'cutout') }}
+          style={styles.layerImage}
+          resizeMode="contain"
+        />
+      ) : (
+        <View style={[styles.missing, { backgroundColor: colors.glassBorder }]}>
+          <AppText variant="tiny" color={colors.textSecondary}>
+            {layer.slot}
+          </AppText>
+        </View>
+      )}
+    </View>
+  );
+};
+
+export const FlatLayCanvas: React.FC<FlatLayCanvasProps> = ({
+  composition,
+  items,
+  editable = false,
+  selectedItemId,
+  onSelectLayer,
+  onChangeLayer,
+  style,
+}) => {
+  const { borderRadius } = useAppTheme();
+  const [size, setSize] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setSize(event.nativeEvent.layout.width);
+  };
+
+  return (
+    <View
+      onLayout={handleLayout}
+      style={[
+        styles.canvas,
+        { backgroundColor: composition.background, borderRadius: borderRadius.xl },
+        style,
+      ]}
+    >
+      {size > 0 &&
+        composition.layers.map((layer) => (
+          <LayerView
+            key={`${layer.slot}-${layer.itemId}`}
+            layer={layer}
+            item={items.find((item) => item.id === layer.itemId)}
+            canvasSize={size}
+            editable={editable}
+            selected={editable && layer.itemId === selectedItemId}
+            onSelect={onSelectLayer}
+            onChange={onChangeLayer}
+          />
+        ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  canvas: {
+    width: '100%',
+    aspectRatio: 1,
+    overflow: 'hidden',
+  },
+  layer: {
+    position: 'absolute',
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+  },
+  layerImage: {
+    width: '100%',
+    height: '100%',
+  },
+  missing: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
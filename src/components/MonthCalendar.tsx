@@ -0,0 +1,168 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, Image, Text, ViewStyle } from 'react-native';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { useAppTheme } from '../hooks/useAppTheme';
+import { AppText } from './AppText';
+
+export interface CalendarDayMarks {
+  worn: string[]; // thumbnail image uris
+  planned: string[];
+}
+
+interface MonthCalendarProps {
+  month: Date;
+  marks: Record<string, CalendarDayMarks>; // keyed by yyyy-MM-dd
+  selectedDate?: string;
+  onSelectDate: (date: string) => void;
+  onChangeMonth: (month: Date) => void;
+  style?: ViewStyle;
+}
+
+const weekdayLabels = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const DAY_WIDTH = '14.2857%'; // one of seven columns
+
+export const MonthCalendar: React.FC<MonthCalendarProps> = ({
+  month,
+  marks,
+  selectedDate,
+  onSelectDate,
+  onChangeMonth,
+  style,
+}) => {
+  const { colors, spacing, borderRadius } = useAppTheme();
+
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month)),
+    end: endOfWeek(endOfMonth(month)),
+  });
+
+  const renderDay = (day: Date) => {
+    const key = format(day, 'yyyy-MM-dd');
+    const mark = marks[key];
+    const inMonth = isSameMonth(day, month);
+    const selected = key === selectedDate;
+    const thumbnail = mark?.worn[0] ?? mark?.planned[0];
+    const isPlannedOnly = !mark?.worn.length && !!mark?.planned.length;
+
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[
+          styles.day,
+          {
+            borderRadius: borderRadius.sm,
+            borderColor: selected ? colors.accent : 'transparent',
+            backgroundColor: selected ? colors.accentLight : 'transparent',
+            opacity: inMonth ? 1 : 0.35,
+          },
+        ]}
+        onPress={() => onSelectDate(key)}
+        activeOpacity={0.7}
+      >
+        <Text
+          style={[
+            styles.dayNumber,
+            {
+              color: isToday(day) ? colors.accent : colors.textPrimary,
+              fontWeight: isToday(day) ? '700' : '400',
+            },
+          ]}
+        >
+          {format(day, 'd')}
+        </Text>
+        {thumbnail ? (
+          <Image
+            source={{ uri: thumbnail }}
+            style={[
+              styles.thumbnail,
+              {
+                borderRadius: borderRadius.sm,
+                borderColor: colors.accent,
+                borderWidth: isPlannedOnly ? 1 : 0,
+                opacity: isPlannedOnly ? 0.6 : 1,
+              },
+            ]}
+          />
+        ) : (
+          <View style={styles.thumbnail} />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={style}>
+      <View style={[styles.header, { marginBottom: spacing.md }]}>
+        <TouchableOpacity onPress={() => onChangeMonth(addMonths(month, -1))} style={styles.arrow}>
+          <Text style={[styles.arrowText, { color: colors.textPrimary }]}>‹</Text>
+        </TouchableOpacity>
+        <AppText variant="h2">{format(month, 'MMMM yyyy')}</AppText>
+        <TouchableOpacity onPress={() => onChangeMonth(addMonths(month, 1))} style={styles.arrow}>
+          <Text style={[styles.arrowText, { color: colors.textPrimary }]}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.grid}>
+        {weekdayLabels.map((label, index) => (
+          <View key={`${label}-${index}`} style={styles.weekday}>
+            <AppText variant="tiny" color={colors.textSecondary}>
+              {label}
+            </AppText>
+          </View>
+        ))}
+        {days.map(renderDay)}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  arrow: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  arrowText: {
+    fontSize: 24,
+    fontWeight: '300',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  weekday: {
+    width: DAY_WIDTH,
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  day: {
+    width: DAY_WIDTH,
+    alignItems: 'center',
+    paddingVertical: 4,
+    borderWidth: 1,
+  },
+  dayNumber: {
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  thumbnail: {
+    width: 28,
+    height: 28,
+  },
+});
@@ -0,0 +1,115 @@
+import React from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Text,
+  TouchableWithoutFeedback,
+} from 'react-native';
+import { useAppTheme } from '../hooks/useAppTheme';
+import { AppText } from './AppText';
+
+export interface ReminderOption {
+  label: string;
+  at?: Date; // no reminder when omitted
+}
+
+interface ReminderPickerSheetProps {
+  visible: boolean;
+  title: string;
+  message?: string;
+  options: ReminderOption[];
+  onSelect: (option: ReminderOption) => void;
+  onClose: () => void;
+}
+
+export const ReminderPickerSheet: React.FC<ReminderPickerSheetProps> = ({
+  visible,
+  title,
+  message,
+  options,
+  onSelect,
+  onClose,
+}) => {
+  const { colors, spacing, borderRadius } = useAppTheme();
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <TouchableWithoutFeedback onPress={onClose}>
+          <View style={styles.dismissArea} />
+        </TouchableWithoutFeedback>
+        <View
+          style={[
+            styles.sheet,
+            {
+              backgroundColor: colors.cardBackground,
+              borderTopLeftRadius: borderRadius.xl,
+              borderTopRightRadius: borderRadius.xl,
+              padding: spacing.lg,
+            },
+          ]}
+        >
+          <View style={[styles.header, { marginBottom: spacing.sm }]}>
+            <AppText variant="h2">{title}</AppText>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={[styles.closeIcon, { color: colors.textPrimary }]}>×</Text>
+            </TouchableOpacity>
+          </View>
+          {message && (
+            <AppText
+              variant="caption"
+              color={colors.textSecondary}
+              style={{ marginBottom: spacing.md }}
+            >
+              {message}
+            </AppText>
+          )}
+
+          {options.map((option) => (
+            <TouchableOpacity
+              key={option.label}
+              onPress={() => onSelect(option)}
+              style={[
+                styles.row,
+                { paddingVertical: spacing.md, borderBottomColor: colors.glassBorder },
+              ]}
+              activeOpacity={0.8}
+            >
+              <AppText variant="body" style={{ fontWeight: '600' }}>
+                {option.label}
+              </AppText>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheet: {
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  closeIcon: {
+    fontSize: 28,
+    fontWeight: '300',
+  },
+  row: {
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+});
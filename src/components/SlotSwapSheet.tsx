@@ -0,0 +1,129 @@
+import React from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  FlatList,
+  Image,
+  TouchableOpacity,
+  Text,
+  TouchableWithoutFeedback,
+} from 'react-native';
+import { useAppTheme } from '../hooks/useAppTheme';
+import { AppText } from './AppText';
+import { SlotAlternative } from '../utils/outfitEngine';
+import { getItemImageUri } from '../utils/itemImages';
+
+interface SlotSwapSheetProps {
+  visible: boolean;
+  title: string;
+  alternatives: SlotAlternative[];
+  onSelect: (alternative: SlotAlternative) => void;
+  onClose: () => void;
+}
+
+export const SlotSwapSheet: React.FC<SlotSwapSheetProps> = ({
+  visible,
+  title,
+  alternatives,
+  onSelect,
+  onClose,
+}) => {
+  const { colors, spacing, borderRadius } = useAppTheme();
+
+  const renderAlternative = ({ item, index }: { item: SlotAlternative; index: number }) => (
+    <TouchableOpacity
+      onPress={() => onSelect(item)}
+      style={[styles.row, { paddingVertical: spacing.sm, borderBottomColor: colors.glassBorder }]}
+      activeOpacity={0.8}
+    >
+      <Image
+        source={{ uri: getItemImageUri(item.item, 'thumbnail') }}
+        style={[styles.thumbnail, { borderRadius: borderRadius.sm, marginRight: spacing.md }]}
+      />
+      <View style={styles.rowText}>
+        <AppText variant="body" style={{ fontWeight: '600' }}>
+          {index === 0 ? 'Best match' : `#${index + 1}`}
+          {item.item.colors.length > 0 ? ` · ${item.item.colors.join(', ')}` : ''}
+        </AppText>
+        <AppText variant="caption" color={colors.textSecondary}>
+          {item.reasons.length > 0 ? item.reasons.join(' • ') : 'Works with the rest of the outfit'}
+        </AppText>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <TouchableWithoutFeedback onPress={onClose}>
+          <View style={styles.dismissArea} />
+        </TouchableWithoutFeedback>
+        <View
+          style={[
+            styles.sheet,
+            {
+              backgroundColor: colors.cardBackground,
+              borderTopLeftRadius: borderRadius.xl,
+              borderTopRightRadius: borderRadius.xl,
+              padding: spacing.lg,
+            },
+          ]}
+        >
+          <View style={[styles.header, { marginBottom: spacing.md }]}>
+            <AppText variant="h2">{title}</AppText>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={[styles.closeIcon, { color: colors.textPrimary }]}>×</Text>
+            </TouchableOpacity>
+          </View>
+          <FlatList
+            data={alternatives}
+            renderItem={renderAlternative}
+            keyExtractor={(alternative) => alternative.item.id}
+            ListEmptyComponent={
+              <AppText variant="caption" color={colors.textSecondary}>
+                Nothing else in your closet fits this slot
+              </AppText>
+            }
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheet: {
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  closeIcon: {
+    fontSize: 28,
+    fontWeight: '300',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    backgroundColor: '#F5F5F5',
+  },
+  rowText: {
+    flex: 1,
+  },
+});
@@ -10,6 +10,9 @@ export { GradientBackground } from './GradientBackground';
 export { FrostedBar } from './FrostedBar';
 export { StoryChip } from './StoryChip';
 export { BottomNavigationBar } from './BottomNavigationBar';
+export { MonthCalendar } from './MonthCalendar';
+export { FlatLayCanvas } from './FlatLayCanvas';
+export { SlotSwapSheet } from './SlotSwapSheet';
+export { BoardPickerSheet } from './BoardPickerSheet';
 
-
-
+export { ReminderPickerSheet } from './ReminderPickerSheet';
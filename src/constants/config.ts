@@ -0,0 +1,11 @@
+// Build-time settings, read from EXPO_PUBLIC_* environment variables.
+//   EXPO_PUBLIC_API_MODE=remote  talk to the REST backend at EXPO_PUBLIC_API_URL
+//   EXPO_PUBLIC_API_MODE=mock    (default) answer from the local mock server
+
+export type ApiMode = 'mock' | 'remote';
+
+export const API_MODE: ApiMode = process.env.EXPO_PUBLIC_API_MODE === 'remote' ? 'remote' : 'mock';
+
+export const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL ?? 'https://api.whear.app';
+
+export const API_TIMEOUT_MS = 10000;
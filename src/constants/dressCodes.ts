@@ -0,0 +1,76 @@
+import { DressCode, Occasion, OccasionId } from '../models';
+
+export const DRESS_CODES: Record<Occasion, DressCode> = {
+  work: {
+    id: 'work',
+    label: 'Work',
+    requiredTags: [],
+    preferredTags: ['work', 'formal', 'minimalist', 'elegant'],
+    forbiddenTags: ['sport', 'sporty', 'beach'],
+    requiredCategories: [],
+    forbiddenCategories: [],
+  },
+  casual: {
+    id: 'casual',
+    label: 'Casual',
+    requiredTags: [],
+    preferredTags: ['casual', 'comfortable', 'cotton'],
+    forbiddenTags: [],
+    requiredCategories: [],
+    forbiddenCategories: [],
+  },
+  date: {
+    id: 'date',
+    label: 'Date',
+    requiredTags: [],
+    preferredTags: ['date', 'elegant', 'romantic'],
+    forbiddenTags: ['sport', 'sporty'],
+    requiredCategories: [],
+    forbiddenCategories: [],
+  },
+  party: {
+    id: 'party',
+    label: 'Party',
+    requiredTags: [],
+    preferredTags: ['party', 'elegant', 'statement'],
+    forbiddenTags: ['sport', 'sporty', 'work'],
+    requiredCategories: [],
+    forbiddenCategories: [],
+  },
+  sport: {
+    id: 'sport',
+    label: 'Sport',
+    requiredTags: ['sneakers'],
+    preferredTags: ['sport', 'sporty', 'comfortable', 'breathable'],
+    forbiddenTags: ['formal', 'elegant'],
+    requiredCategories: [],
+    forbiddenCategories: ['dress'],
+  },
+};
+
+export const BUILT_IN_OCCASIONS = Object.keys(DRESS_CODES) as Occasion[];
+
+export const isBuiltInOccasion = (id: OccasionId): id is Occasion =>
+  BUILT_IN_OCCASIONS.includes(id as Occasion);
+
+/**
+ * Looks up a dress code by occasion id, checking the user's custom occasions after the
+ * built-in table. Unknown ids get a permissive code that only prefers its own tag.
+ */
+export const getDressCode = (id: OccasionId, customOccasions: DressCode[] = []): DressCode => {
+  if (isBuiltInOccasion(id)) {
+    return DRESS_CODES[id];
+  }
+
+  return (
+    customOccasions.find((code) => code.id === id) ?? {
+      id,
+      label: id.charAt(0).toUpperCase() + id.slice(1),
+      requiredTags: [],
+      preferredTags: [id],
+      forbiddenTags: [],
+      requiredCategories: [],
+      forbiddenCategories: [],
+    }
+  );
+};
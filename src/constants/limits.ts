@@ -8,6 +8,9 @@ export const PRO_PLAN_LIMITS = {
   maxGeneratesPerDay: 50,
 } as const;
 
+// Regenerating around locked pieces counts as this fraction of a full generate
+export const PARTIAL_GENERATE_COST = 0.5;
+
 
 
 
@@ -0,0 +1,14 @@
+import { ItemCategory } from '../models';
+
+// Days before an item is fully "rested" again. Shoes and accessories get re-worn often,
+// statement pieces like dresses need a longer break.
+export const WEAR_COOLDOWN_DAYS: Record<ItemCategory, number> = {
+  top: 7,
+  bottom: 4,
+  dress: 14,
+  outerwear: 1,
+  shoes: 2,
+  accessory: 2,
+  bag: 1,
+  other: 3,
+};
@@ -14,18 +14,24 @@ export const ROUTES = {
   PROFILE: 'Profile',
   EDIT_PROFILE: 'EditProfile',
   SETTINGS: 'Settings',
+  SESSIONS: 'Sessions',
 
   // Closet
   CLOSET: 'Closet',
   ADD_ITEM: 'AddItem',
   ITEM_DETAIL: 'ItemDetail',
+  CLOSET_ANALYTICS: 'ClosetAnalytics',
+  BATCH_IMPORT: 'BatchImport',
 
   // Outfit
   OUTFIT_GENERATOR: 'OutfitGenerator',
   OUTFIT_RESULTS: 'OutfitResults',
   OUTFIT_DETAIL: 'OutfitDetail',
+  OUTFIT_COMPOSER: 'OutfitComposer',
+  OUTFIT_BUILDER: 'OutfitBuilder',
   OUTFIT_HISTORY: 'OutfitHistory',
   COLLECTIONS: 'Collections',
+  BOARD: 'Board',
   WEAR_TODAY: 'WearToday',
 
   // Catalog
@@ -5,6 +5,10 @@ import {
   Outfit,
   CatalogItem,
   Entitlements,
+  WearEvent,
+  OutfitPlan,
+  OutfitSuggestion,
+  DeviceSession,
 } from '../models';
 
 export const mockUsers: User[] = [
@@ -16,6 +20,26 @@ export const mockUsers: User[] = [
   },
 ];
 
+// Other devices the demo account is signed in on
+export const mockDeviceSessions: DeviceSession[] = [
+  {
+    id: 'session-ipad',
+    userId: 'user-1',
+    deviceName: 'iPad',
+    platform: 'ios',
+    createdAt: '2024-03-02T09:15:00Z',
+    lastActiveAt: '2024-03-20T18:40:00Z',
+  },
+  {
+    id: 'session-web',
+    userId: 'user-1',
+    deviceName: 'Chrome on macOS',
+    platform: 'web',
+    createdAt: '2024-02-11T14:05:00Z',
+    lastActiveAt: '2024-03-18T08:22:00Z',
+  },
+];
+
 export const mockProfiles: Profile[] = [
   {
     userId: 'user-1',
@@ -38,6 +62,10 @@ export const mockClosetItems: ClosetItem[] = [
     notes: 'Favorite summer shirt',
     createdAt: '2024-01-15T10:00:00Z',
     aiConfidence: 0.95,
+    purchasePrice: 29.99,
+    currency: 'USD',
+    purchaseDate: '2023-06-02',
+    retailer: 'Uniqlo',
   },
   {
     id: 'item-2',
@@ -49,6 +77,10 @@ export const mockClosetItems: ClosetItem[] = [
     notes: 'Perfect for office',
     createdAt: '2024-01-16T10:00:00Z',
     aiConfidence: 0.92,
+    purchasePrice: 79.5,
+    currency: 'USD',
+    purchaseDate: '2023-09-14',
+    retailer: 'COS',
   },
   {
     id: 'item-3',
@@ -60,6 +92,10 @@ export const mockClosetItems: ClosetItem[] = [
     notes: 'Daily wear sneakers',
     createdAt: '2024-01-17T10:00:00Z',
     aiConfidence: 0.88,
+    purchasePrice: 120,
+    currency: 'USD',
+    purchaseDate: '2023-03-20',
+    retailer: 'Nike',
   },
   {
     id: 'item-4',
@@ -71,6 +107,10 @@ export const mockClosetItems: ClosetItem[] = [
     notes: 'Great for events',
     createdAt: '2024-01-18T10:00:00Z',
     aiConfidence: 0.90,
+    purchasePrice: 189,
+    currency: 'USD',
+    purchaseDate: '2023-08-05',
+    retailer: 'Reformation',
   },
   {
     id: 'item-5',
@@ -82,6 +122,10 @@ export const mockClosetItems: ClosetItem[] = [
     notes: 'Cozy jacket',
     createdAt: '2024-01-19T10:00:00Z',
     aiConfidence: 0.93,
+    purchasePrice: 240,
+    currency: 'USD',
+    purchaseDate: '2023-10-28',
+    retailer: 'Everlane',
   },
 ];
 
@@ -102,6 +146,20 @@ export const mockOutfits: Outfit[] = [
   },
 ];
 
+export const mockWearEvents: WearEvent[] = [
+  {
+    id: 'wear-1',
+    userId: 'user-1',
+    outfitId: 'outfit-1',
+    date: '2024-01-20',
+    notes: 'Client presentation',
+    rating: 4,
+    createdAt: '2024-01-20T18:00:00Z',
+  },
+];
+
+export const mockOutfitPlans: OutfitPlan[] = [];
+
 export const mockCatalogItems: CatalogItem[] = [
   {
     id: 'catalog-1',
@@ -133,10 +191,160 @@ export const mockEntitlements: Entitlements[] = [
     plan: 'free',
     closetItemCount: 5,
     generatesToday: 2,
+    partialGeneratesToday: 0,
     lastGenerateDate: new Date().toISOString().split('T')[0],
   },
 ];
 
-
-
-
+export const mockOutfitSuggestions: OutfitSuggestion[] = [
+  {
+    id: '1',
+    imageUri:
+      'https://images.unsplash.com/photo-1520975916090-3105956dac38?w=1000&auto=format&fit=crop&q=80',
+    title: 'Body language',
+    subtitle: 'with maya daryen',
+    handle: '@maya.daryen',
+    reason: 'Hot day + Casual + Light fabric',
+    bgGradient: ['#B9B0AC', '#C7C0BD', '#D8D6D3'],
+  },
+  {
+    id: '2',
+    imageUri:
+      'https://images.unsplash.com/photo-1509631179647-0177331693ae?w=1000&auto=format&fit=crop&q=80',
+    title: 'Office Ready',
+    subtitle: 'polished silhouette',
+    handle: '@workwear.daily',
+    reason: 'Work day + Smart + Comfortable',
+    bgGradient: ['#B7B1B2', '#CFC8C9', '#EAE6E6'],
+  },
+  {
+    id: '3',
+    imageUri:
+      'https://images.unsplash.com/photo-1520975732144-442d66dffb6e?w=1000&auto=format&fit=crop&q=80',
+    title: 'Layered Comfort',
+    subtitle: 'transitional fit',
+    handle: '@layers.club',
+    reason: 'Cool day + Versatile + Layered',
+    bgGradient: ['#B8B7B4', '#D2D1CD', '#F0EFEC'],
+  },
+  {
+    id: '4',
+    imageUri:
+      'https://images.unsplash.com/photo-1520975867722-01286f6abf7d?w=1000&auto=format&fit=crop&q=80',
+    title: 'Bold Statement',
+    subtitle: 'make an impact',
+    handle: '@bold.room',
+    reason: 'Special + Bold + Confident',
+    bgGradient: ['#B9B2B8', '#D4CFD6', '#F1EEF3'],
+  },
+  {
+    id: '5',
+    imageUri:
+      'https://images.unsplash.com/photo-1520975747456-4097f9c2a5c2?w=1000&auto=format&fit=crop&q=80',
+    title: 'Evening Elegance',
+    subtitle: 'date-night glow',
+    handle: '@night.edit',
+    reason: 'Evening + Date + Elegant',
+    bgGradient: ['#B5B2B0', '#CDC7C4', '#EEEAE7'],
+  },
+  {
+    id: '6',
+    imageUri:
+      'https://images.unsplash.com/photo-1520975904416-6fd35a5a8e3a?w=1000&auto=format&fit=crop&q=80',
+    title: 'Summer Breeze',
+    subtitle: 'light drape',
+    handle: '@summer.set',
+    reason: 'Sunny + Casual + Airy',
+    bgGradient: ['#B8C6D4', '#D5E0EA', '#F3F6FA'],
+  },
+  {
+    id: '7',
+    imageUri:
+      'https://images.unsplash.com/photo-1520975833856-63c8c9e98a4a?w=1000&auto=format&fit=crop&q=80',
+    title: 'Street Clean',
+    subtitle: 'quiet luxury',
+    handle: '@street.clean',
+    reason: 'City + Neutral + Crisp',
+    bgGradient: ['#B9B7C0', '#D7D5DF', '#F4F3F7'],
+  },
+  {
+    id: '8',
+    imageUri:
+      'https://images.unsplash.com/photo-1515886657613-9f3515b0c78f?w=1000&auto=format&fit=crop&q=80',
+    title: 'Minimalist Chic',
+    subtitle: 'less is more',
+    handle: '@studio.line',
+    reason: 'Any day + Minimal + Timeless',
+    bgGradient: ['#BFC7D1', '#D7DCE3', '#F0F1F3'],
+  },
+  {
+    id: '9',
+    imageUri:
+      'https://images.unsplash.com/photo-1490481651871-ab68de25d43d?w=1000&auto=format&fit=crop&q=80',
+    title: 'Weekend Vibes',
+    subtitle: 'relaxed comfort',
+    handle: '@weekend.mode',
+    reason: 'Weekend + Casual + Cozy',
+    bgGradient: ['#C4B5A0', '#D4C7B5', '#E8DFD1'],
+  },
+  {
+    id: '10',
+    imageUri:
+      'https://images.unsplash.com/photo-1515372039744-b8f02a3ae446?w=1000&auto=format&fit=crop&q=80',
+    title: 'Athletic Edge',
+    subtitle: 'sporty elegance',
+    handle: '@active.style',
+    reason: 'Active + Sporty + Functional',
+    bgGradient: ['#A8B5C0', '#C0D0DB', '#E0E8ED'],
+  },
+  {
+    id: '11',
+    imageUri:
+      'https://images.unsplash.com/photo-1539533018447-63fcce2678e3?w=1000&auto=format&fit=crop&q=80',
+    title: 'Bohemian Flow',
+    subtitle: 'free spirit',
+    handle: '@boho.life',
+    reason: 'Festival + Free + Flowy',
+    bgGradient: ['#D4B8A8', '#E4CCC0', '#F4E6DC'],
+  },
+  {
+    id: '12',
+    imageUri:
+      'https://images.unsplash.com/photo-1506629905607-2c8c0a5c0a8a?w=1000&auto=format&fit=crop&q=80',
+    title: 'Classic Tailored',
+    subtitle: 'timeless elegance',
+    handle: '@classic.cut',
+    reason: 'Formal + Tailored + Professional',
+    bgGradient: ['#9FA4A8', '#B8BDC2', '#D8DCE0'],
+  },
+  {
+    id: '13',
+    imageUri:
+      'https://images.unsplash.com/photo-1483985988355-763728e1935b?w=1000&auto=format&fit=crop&q=80',
+    title: 'Urban Explorer',
+    subtitle: 'city wanderer',
+    handle: '@urban.walk',
+    reason: 'City + Practical + Stylish',
+    bgGradient: ['#B2AFA8', '#CBC8C0', '#E8E6DF'],
+  },
+  {
+    id: '14',
+    imageUri:
+      'https://images.unsplash.com/photo-1469334031218-e382a71b716b?w=1000&auto=format&fit=crop&q=80',
+    title: 'Romantic Blush',
+    subtitle: 'soft femininity',
+    handle: '@romance.edit',
+    reason: 'Date + Romantic + Delicate',
+    bgGradient: ['#E8C4C0', '#F0D4D0', '#F8E4E0'],
+  },
+  {
+    id: '15',
+    imageUri:
+      'https://images.unsplash.com/photo-1434389677669-e08b4cac3105?w=1000&auto=format&fit=crop&q=80',
+    title: 'Monochrome Magic',
+    subtitle: 'black & white',
+    handle: '@mono.studio',
+    reason: 'Any occasion + Classic + Bold',
+    bgGradient: ['#6B6B6B', '#8B8B8B', '#B0B0B0'],
+  },
+];
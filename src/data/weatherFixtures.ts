@@ -0,0 +1,37 @@
+// A typical temperate spring day at sea level around 30° latitude, one entry per local hour.
+// The local weather provider shifts it by latitude so different places get different days.
+export interface WeatherFixtureHour {
+  hour: number;
+  temperature: number;
+  precipitationChance: number;
+  windSpeed: number;
+  humidity: number;
+  uvIndex: number;
+}
+
+export const mockHourlyWeather: WeatherFixtureHour[] = [
+  { hour: 0, temperature: 14, precipitationChance: 10, windSpeed: 8, humidity: 82, uvIndex: 0 },
+  { hour: 1, temperature: 13, precipitationChance: 10, windSpeed: 8, humidity: 84, uvIndex: 0 },
+  { hour: 2, temperature: 13, precipitationChance: 15, windSpeed: 7, humidity: 86, uvIndex: 0 },
+  { hour: 3, temperature: 12, precipitationChance: 15, windSpeed: 7, humidity: 88, uvIndex: 0 },
+  { hour: 4, temperature: 12, precipitationChance: 20, windSpeed: 6, humidity: 89, uvIndex: 0 },
+  { hour: 5, temperature: 12, precipitationChance: 20, windSpeed: 6, humidity: 90, uvIndex: 0 },
+  { hour: 6, temperature: 13, precipitationChance: 15, windSpeed: 9, humidity: 87, uvIndex: 0 },
+  { hour: 7, temperature: 15, precipitationChance: 10, windSpeed: 11, humidity: 80, uvIndex: 1 },
+  { hour: 8, temperature: 17, precipitationChance: 5, windSpeed: 13, humidity: 72, uvIndex: 2 },
+  { hour: 9, temperature: 19, precipitationChance: 5, windSpeed: 14, humidity: 65, uvIndex: 3 },
+  { hour: 10, temperature: 21, precipitationChance: 5, windSpeed: 16, humidity: 58, uvIndex: 5 },
+  { hour: 11, temperature: 22, precipitationChance: 10, windSpeed: 18, humidity: 54, uvIndex: 6 },
+  { hour: 12, temperature: 23, precipitationChance: 10, windSpeed: 19, humidity: 52, uvIndex: 7 },
+  { hour: 13, temperature: 24, precipitationChance: 15, windSpeed: 20, humidity: 50, uvIndex: 7 },
+  { hour: 14, temperature: 24, precipitationChance: 25, windSpeed: 22, humidity: 52, uvIndex: 6 },
+  { hour: 15, temperature: 23, precipitationChance: 45, windSpeed: 24, humidity: 60, uvIndex: 4 },
+  { hour: 16, temperature: 21, precipitationChance: 65, windSpeed: 26, humidity: 70, uvIndex: 2 },
+  { hour: 17, temperature: 19, precipitationChance: 60, windSpeed: 22, humidity: 76, uvIndex: 1 },
+  { hour: 18, temperature: 18, precipitationChance: 40, windSpeed: 18, humidity: 78, uvIndex: 0 },
+  { hour: 19, temperature: 17, precipitationChance: 25, windSpeed: 14, humidity: 79, uvIndex: 0 },
+  { hour: 20, temperature: 16, precipitationChance: 15, windSpeed: 12, humidity: 80, uvIndex: 0 },
+  { hour: 21, temperature: 16, precipitationChance: 10, windSpeed: 10, humidity: 80, uvIndex: 0 },
+  { hour: 22, temperature: 15, precipitationChance: 10, windSpeed: 9, humidity: 81, uvIndex: 0 },
+  { hour: 23, temperature: 15, precipitationChance: 10, windSpeed: 8, humidity: 81, uvIndex: 0 },
+];
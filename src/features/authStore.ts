@@ -1,66 +1,90 @@
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { User } from '../models';
 import { authService } from '../services/authService';
+import { setSessionExpiredHandler } from '../utils/api';
 
 interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  sessionExpired: boolean; // signed out because the session could not be refreshed
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, name: string) => Promise<void>;
   logout: () => Promise<void>;
+  expireSession: () => Promise<void>;
+  signOutAllDevices: () => Promise<void>;
   checkAuth: () => Promise<void>;
 }
 
-export const useAuthStore = create<AuthState>()(
-  persist(
-    (set) => ({
-      user: null,
-      isAuthenticated: false,
-      isLoading: false,
-      login: async (email: string, password: string) => {
-        set({ isLoading: true });
-        try {
-          const response = await authService.login(email, password);
-          set({ user: response.data, isAuthenticated: true, isLoading: false });
-        } catch (error) {
-          set({ isLoading: false });
-          throw error;
-        }
-      },
-      register: async (email: string, password: string, name: string) => {
-        set({ isLoading: true });
-        try {
-          const response = await authService.register(email, password, name);
-          set({ user: response.data, isAuthenticated: true, isLoading: false });
-        } catch (error) {
-          set({ isLoading: false });
-          throw error;
-        }
-      },
-      logout: async () => {
-        await authService.logout();
-        set({ user: null, isAuthenticated: false });
-      },
-      checkAuth: async () => {
-        set({ isLoading: true });
-        try {
-          const user = await authService.getCurrentUser();
-          set({ user, isAuthenticated: !!user, isLoading: false });
-        } catch (error) {
-          set({ user: null, isAuthenticated: false, isLoading: false });
-        }
-      },
-    }),
-    {
-      name: 'auth-storage',
-      storage: createJSONStorage(() => AsyncStorage),
+// Not persisted: the session, user included, lives in the keystore (see credentialStore)
+export const useAuthStore = create<AuthState>((set) => ({
+  user: null,
+  isAuthenticated: false,
+  isLoading: false,
+  sessionExpired: false,
+  login: async (email: string, password: string) => {
+    set({ isLoading: true });
+    try {
+      const response = await authService.login(email, password);
+      set({
+        user: response.data,
+        isAuthenticated: true,
+        isLoading: false,
+        sessionExpired: false,
+      });
+    } catch (error) {
+      set({ isLoading: false });
+      throw error;
+    }
+  },
+  register: async (email: string, password: string, name: string) => {
+    set({ isLoading: true });
+    try {
+      const response = await authService.register(email, password, name);
+      set({
+        user: response.data,
+        isAuthenticated: true,
+        isLoading: false,
+        sessionExpired: false,
+      });
+    } catch (error) {
+      set({ isLoading: false });
+      throw error;
+    }
+  },
+  logout: async () => {
+    await authService.logout();
+    set({ user: null, isAuthenticated: false, sessionExpired: false });
+  },
+  expireSession: async () => {
+    await authService.clearSession();
+    // Dropping isAuthenticated swaps the navigator back to the auth stack
+    set({ user: null, isAuthenticated: false, sessionExpired: true });
+  },
+  signOutAllDevices: async () => {
+    await authService.signOutAllDevices();
+    set({ user: null, isAuthenticated: false, sessionExpired: false });
+  },
+  checkAuth: async () => {
+    set({ isLoading: true });
+    const storedUser = await authService.getStoredUser();
+    if (!storedUser) {
+      set({ user: null, isAuthenticated: false, isLoading: false });
+      return;
     }
-  )
-);
-
-
 
+    set({ user: storedUser, isAuthenticated: true });
+    try {
+      const user = await authService.getCurrentUser();
+      if (!user) {
+        await authService.clearSession();
+      }
+      set({ user, isAuthenticated: !!user, isLoading: false });
+    } catch (error) {
+      // Offline: keep the session restored from storage rather than signing out
+      set({ isLoading: false });
+    }
+  },
+}));
 
+setSessionExpiredHandler(() => useAuthStore.getState().expireSession());
@@ -1,17 +1,23 @@
 import { create } from 'zustand';
-import { ClosetItem, ItemCategory } from '../models';
+import { ClosetItem, ItemCategory, NewItemDetails } from '../models';
 import { closetService } from '../services/closetService';
+import { closetItemRepository } from '../repositories';
+import { registerSyncHandler, useSyncStore } from '../stores/syncStore';
+
+export type ClosetSortMode = 'recent' | 'leastWorn';
 
 interface ClosetState {
   items: ClosetItem[];
   isLoading: boolean;
   error: string | null;
   viewMode: 'list' | 'grid';
+  sortMode: ClosetSortMode;
   filters: {
     category?: ItemCategory;
     color?: string;
     tag?: string;
   };
+  hydrate: (userId: string) => Promise<void>;
   fetchItems: (userId: string) => Promise<void>;
   addItem: (
     userId: string,
@@ -19,21 +25,33 @@ interface ClosetState {
     category: ItemCategory,
     colors: string[],
     tags: string[],
-    notes?: string
+    notes?: string,
+    details?: NewItemDetails
   ) => Promise<void>;
   updateItem: (itemId: string, updates: Partial<ClosetItem>) => Promise<void>;
   deleteItem: (itemId: string) => Promise<void>;
   setViewMode: (mode: 'list' | 'grid') => void;
+  setSortMode: (mode: ClosetSortMode) => void;
   setFilters: (filters: { category?: ItemCategory; color?: string; tag?: string }) => void;
   clearFilters: () => void;
 }
 
-export const useClosetStore = create<ClosetState>((set) => ({
+export const useClosetStore = create<ClosetState>((set, get) => ({
   items: [],
   isLoading: false,
   error: null,
   viewMode: 'grid',
+  sortMode: 'recent',
   filters: {},
+  // Reads straight from the on-device database so the closet is ready at launch
+  hydrate: async (userId: string) => {
+    try {
+      const items = await closetItemRepository.findByUser(userId);
+      set({ items });
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
   fetchItems: async (userId: string) => {
     set({ isLoading: true, error: null });
     try {
@@ -49,48 +67,106 @@ export const useClosetStore = create<ClosetState>((set) => ({
     category: ItemCategory,
     colors: string[],
     tags: string[],
-    notes?: string
+    notes?: string,
+    details?: NewItemDetails
   ) => {
     set({ isLoading: true, error: null });
     try {
-      const response = await closetService.addClosetItem(userId, imageUri, category, colors, tags, notes);
+      const response = await closetService.addClosetItem(
+        userId,
+        imageUri,
+        category,
+        colors,
+        tags,
+        notes,
+        details
+      );
       set((state) => ({ items: [...state.items, response.data], isLoading: false }));
+      useSyncStore.getState().enqueue({
+        entity: 'closetItem',
+        op: 'upsert',
+        recordId: response.data.id,
+        userId,
+        record: response.data,
+        updatedAt: response.data.updatedAt ?? response.data.createdAt,
+      });
     } catch (error) {
       set({ error: (error as Error).message, isLoading: false });
       throw error;
     }
   },
   updateItem: async (itemId: string, updates: Partial<ClosetItem>) => {
-    set({ isLoading: true, error: null });
+    // Show the change right away and roll back if it can't be saved
+    const previous = get().items;
+    set((state) => ({
+      items: state.items.map((item) => (item.id === itemId ? { ...item, ...updates } : item)),
+      isLoading: true,
+      error: null,
+    }));
     try {
       const response = await closetService.updateClosetItem(itemId, updates);
       set((state) => ({
         items: state.items.map((item) => (item.id === itemId ? response.data : item)),
         isLoading: false,
       }));
+      useSyncStore.getState().enqueue({
+        entity: 'closetItem',
+        op: 'upsert',
+        recordId: itemId,
+        userId: response.data.userId,
+        record: response.data,
+        updatedAt: response.data.updatedAt ?? new Date().toISOString(),
+      });
     } catch (error) {
-      set({ error: (error as Error).message, isLoading: false });
+      set({ items: previous, error: (error as Error).message, isLoading: false });
       throw error;
     }
   },
   deleteItem: async (itemId: string) => {
-    set({ isLoading: true, error: null });
+    const previous = get().items;
+    const removed = previous.find((item) => item.id === itemId);
+    set({
+      items: previous.filter((item) => item.id !== itemId),
+      isLoading: true,
+      error: null,
+    });
     try {
       await closetService.deleteClosetItem(itemId);
-      set((state) => ({
-        items: state.items.filter((item) => item.id !== itemId),
-        isLoading: false,
-      }));
+      set({ isLoading: false });
+      if (removed) {
+        useSyncStore.getState().enqueue({
+          entity: 'closetItem',
+          op: 'delete',
+          recordId: itemId,
+          userId: removed.userId,
+          updatedAt: new Date().toISOString(),
+        });
+      }
     } catch (error) {
-      set({ error: (error as Error).message, isLoading: false });
+      set({ items: previous, error: (error as Error).message, isLoading: false });
       throw error;
     }
   },
   setViewMode: (mode: 'list' | 'grid') => set({ viewMode: mode }),
+  setSortMode: (mode: ClosetSortMode) => set({ sortMode: mode }),
   setFilters: (filters) => set({ filters }),
   clearFilters: () => set({ filters: {} }),
 }));
 
-
-
-
+// A newer version from the server replaces the local item, or removes it if deleted
+registerSyncHandler('closetItem', async (itemId, remote) => {
+  if (remote) {
+    const item = remote as ClosetItem;
+    await closetItemRepository.save(item);
+    useClosetStore.setState((state) => ({
+      items: state.items.some((existing) => existing.id === itemId)
+        ? state.items.map((existing) => (existing.id === itemId ? item : existing))
+        : [...state.items, item],
+    }));
+  } else {
+    await closetItemRepository.remove(itemId);
+    useClosetStore.setState((state) => ({
+      items: state.items.filter((existing) => existing.id !== itemId),
+    }));
+  }
+});
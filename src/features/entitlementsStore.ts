@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Entitlements } from '../models';
+import { Entitlements, GenerationKind } from '../models';
 import { entitlementsService } from '../services/entitlementsService';
 
 interface EntitlementsState {
@@ -10,8 +10,8 @@ interface EntitlementsState {
   fetchEntitlements: (userId: string) => Promise<void>;
   upgradeToPro: (userId: string) => Promise<void>;
   checkClosetLimit: (userId: string, currentCount: number) => Promise<boolean>;
-  checkGenerateLimit: (userId: string) => Promise<boolean>;
-  incrementGenerateCount: (userId: string) => Promise<void>;
+  checkGenerateLimit: (userId: string, kind?: GenerationKind) => Promise<boolean>;
+  incrementGenerateCount: (userId: string, kind?: GenerationKind) => Promise<void>;
 }
 
 export const useEntitlementsStore = create<EntitlementsState>()(
@@ -41,14 +41,19 @@ export const useEntitlementsStore = create<EntitlementsState>()(
       checkClosetLimit: async (userId: string, currentCount: number) => {
         return await entitlementsService.checkClosetLimit(userId, currentCount);
       },
-      checkGenerateLimit: async (userId: string) => {
-        return await entitlementsService.checkGenerateLimit(userId);
+      checkGenerateLimit: async (userId: string, kind: GenerationKind = 'full') => {
+        return await entitlementsService.checkGenerateLimit(userId, kind);
       },
-      incrementGenerateCount: async (userId: string) => {
-        await entitlementsService.incrementGenerateCount(userId);
+      incrementGenerateCount: async (userId: string, kind: GenerationKind = 'full') => {
+        await entitlementsService.incrementGenerateCount(userId, kind);
         const entitlements = get().entitlements;
         if (entitlements) {
-          entitlements.generatesToday += 1;
+          if (kind === 'partial') {
+            // Entitlements persisted before partial generations existed lack the count
+            entitlements.partialGeneratesToday = (entitlements.partialGeneratesToday ?? 0) + 1;
+          } else {
+            entitlements.generatesToday += 1;
+          }
           set({ entitlements: { ...entitlements } });
         }
       },
@@ -1,58 +1,122 @@
 import { create } from 'zustand';
-import { Outfit, Occasion, WeatherContext, ClosetItem } from '../models';
-import { outfitService } from '../services/outfitService';
+import {
+  Outfit,
+  OccasionId,
+  WeatherContext,
+  ClosetItem,
+  WearEvent,
+  OutfitPlan,
+  OutfitComposition,
+} from '../models';
+import { outfitService, OutfitDraft, WearEventDetails } from '../services/outfitService';
+import { notificationService } from '../services/notificationService';
+import { useCollectionsStore } from '../stores/collectionsStore';
+import { GenerationOptions } from '../utils/outfitEngine';
 
 interface OutfitState {
   generatedOutfits: Outfit[];
   history: Outfit[];
+  wearEvents: WearEvent[];
+  plans: OutfitPlan[];
   isLoading: boolean;
   error: string | null;
   generateOutfits: (
     userId: string,
-    occasion: Occasion,
+    occasion: OccasionId,
     weather: WeatherContext,
-    closetItems: ClosetItem[]
+    closetItems: ClosetItem[],
+    options?: GenerationOptions
   ) => Promise<void>;
+  createOutfit: (userId: string, draft: OutfitDraft) => Promise<Outfit>;
   saveToHistory: (outfitId: string) => Promise<void>;
   fetchHistory: (userId: string) => Promise<void>;
+  fetchWearEvents: (userId: string) => Promise<void>;
+  addWearEvent: (userId: string, outfitId: string, details?: WearEventDetails) => Promise<void>;
+  removeWearEvent: (eventId: string) => Promise<void>;
+  fetchPlans: (userId: string) => Promise<void>;
+  planOutfit: (
+    userId: string,
+    outfitId: string,
+    date: string,
+    reminderAt?: string
+  ) => Promise<void>;
+  removePlan: (planId: string) => Promise<void>;
+  markPlanWorn: (planId: string) => Promise<void>;
+  markReminderSent: (planId: string) => Promise<void>;
   replaceSlot: (
     outfitId: string,
     slot: 'top' | 'bottom' | 'dress' | 'outerwear' | 'shoes' | 'accessory',
     newItemId: string
-  ) => Promise<void>;
+  ) => Promise<Outfit>;
+  removeOutfit: (outfitId: string) => Promise<void>;
+  saveComposition: (outfitId: string, composition: OutfitComposition) => Promise<void>;
   clearGenerated: () => void;
+  hydrate: (userId: string) => Promise<void>;
 }
 
-export const useOutfitStore = create<OutfitState>((set) => ({
+export const useOutfitStore = create<OutfitState>((set, get) => ({
   generatedOutfits: [],
   history: [],
+  wearEvents: [],
+  plans: [],
   isLoading: false,
   error: null,
   generateOutfits: async (
     userId: string,
-    occasion: Occasion,
+    occasion: OccasionId,
     weather: WeatherContext,
-    closetItems: ClosetItem[]
+    closetItems: ClosetItem[],
+    options?: GenerationOptions
   ) => {
     set({ isLoading: true, error: null });
     try {
-      const response = await outfitService.generateOutfits(userId, occasion, weather, closetItems);
+      // Boards link to outfits by id, and the batch on screen may still be open in
+      // another screen, so both outlive the pruning
+      const keep = [
+        ...get().generatedOutfits.map((outfit) => outfit.id),
+        ...useCollectionsStore
+          .getState()
+          .getBoards(userId)
+          .flatMap((board) =>
+            board.entries.flatMap((entry) => (entry.kind === 'outfit' ? [entry.outfitId] : []))
+          ),
+      ];
+      await outfitService.pruneGeneratedOutfits(userId, keep);
+      const response = await outfitService.generateOutfits(
+        userId,
+        occasion,
+        weather,
+        closetItems,
+        options
+      );
       set({ generatedOutfits: response.data, isLoading: false });
     } catch (error) {
       set({ error: (error as Error).message, isLoading: false });
       throw error;
     }
   },
+  createOutfit: async (userId: string, draft: OutfitDraft) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await outfitService.createOutfit(userId, draft);
+      set((state) => ({ history: [response.data, ...state.history], isLoading: false }));
+      return response.data;
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+      throw error;
+    }
+  },
   saveToHistory: async (outfitId: string) => {
     set({ isLoading: true, error: null });
     try {
-      await outfitService.saveOutfitToHistory(outfitId);
+      const response = await outfitService.saveOutfitToHistory(outfitId);
       set((state) => ({
         history: state.history.map((outfit) =>
-          outfit.id === outfitId ? { ...outfit, wornDate: new Date().toISOString().split('T')[0] } : outfit
+          outfit.id === outfitId ? { ...outfit, wornDate: response.data.wornDate } : outfit
         ),
         isLoading: false,
       }));
+      await get().fetchWearEvents(response.data.userId);
     } catch (error) {
       set({ error: (error as Error).message, isLoading: false });
       throw error;
@@ -67,18 +131,150 @@ export const useOutfitStore = create<OutfitState>((set) => ({
       set({ error: (error as Error).message, isLoading: false });
     }
   },
+  fetchWearEvents: async (userId: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await outfitService.getWearEvents(userId);
+      set({ wearEvents: response.data, isLoading: false });
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+  addWearEvent: async (userId: string, outfitId: string, details?: WearEventDetails) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await outfitService.addWearEvent(userId, outfitId, details);
+      set((state) => ({
+        wearEvents: [response.data, ...state.wearEvents].sort((a, b) =>
+          b.date.localeCompare(a.date)
+        ),
+        isLoading: false,
+      }));
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+      throw error;
+    }
+  },
+  removeWearEvent: async (eventId: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      await outfitService.removeWearEvent(eventId);
+      set((state) => ({
+        wearEvents: state.wearEvents.filter((event) => event.id !== eventId),
+        isLoading: false,
+      }));
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+      throw error;
+    }
+  },
+  fetchPlans: async (userId: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await outfitService.getPlans(userId);
+      set({ plans: response.data, isLoading: false });
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+  planOutfit: async (userId: string, outfitId: string, date: string, reminderAt?: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await outfitService.planOutfit(userId, outfitId, date, reminderAt);
+      await notificationService.schedulePlanReminder(response.data);
+      set((state) => ({
+        plans: [...state.plans, response.data].sort((a, b) => a.date.localeCompare(b.date)),
+        isLoading: false,
+      }));
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+      throw error;
+    }
+  },
+  removePlan: async (planId: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      await outfitService.removePlan(planId);
+      await notificationService.cancelPlanReminder(planId);
+      set((state) => ({
+        plans: state.plans.filter((plan) => plan.id !== planId),
+        isLoading: false,
+      }));
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+      throw error;
+    }
+  },
+  markPlanWorn: async (planId: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await outfitService.markPlanWorn(planId);
+      await notificationService.cancelPlanReminder(planId);
+      set((state) => ({
+        plans: state.plans.filter((plan) => plan.id !== planId),
+        wearEvents: [response.data, ...state.wearEvents].sort((a, b) =>
+          b.date.localeCompare(a.date)
+        ),
+        isLoading: false,
+      }));
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+      throw error;
+    }
+  },
+  markReminderSent: async (planId: string) => {
+    await outfitService.markReminderSent(planId);
+    set((state) => ({
+      plans: state.plans.map((plan) => (plan.id === planId ? { ...plan, reminded: true } : plan)),
+    }));
+  },
   replaceSlot: async (
     outfitId: string,
     slot: 'top' | 'bottom' | 'dress' | 'outerwear' | 'shoes' | 'accessory',
     newItemId: string
   ) => {
-    set({ isLoading: true, error: null });
+    // The caller shows its own progress, so this doesn't toggle isLoading
+    set({ error: null });
     try {
       const response = await outfitService.replaceOutfitSlot(outfitId, slot, newItemId);
+      const updated = response.data;
+      const forked = updated.id !== outfitId;
+      // The same outfit can be both freshly generated and saved, so update it everywhere.
+      // A fork leaves the worn or planned original in history and joins it as a new entry.
+      const update = (outfit: Outfit) => (outfit.id === outfitId ? updated : outfit);
       set((state) => ({
-        generatedOutfits: state.generatedOutfits.map((outfit) =>
-          outfit.id === outfitId ? response.data : outfit
-        ),
+        generatedOutfits: state.generatedOutfits.map(update),
+        history: forked ? [updated, ...state.history] : state.history.map(update),
+      }));
+      return updated;
+    } catch (error) {
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+  removeOutfit: async (outfitId: string) => {
+    // Like replaceSlot, the caller shows its own progress
+    set({ error: null });
+    try {
+      await outfitService.removeOutfit(outfitId);
+      set((state) => ({
+        generatedOutfits: state.generatedOutfits.filter((outfit) => outfit.id !== outfitId),
+        history: state.history.filter((outfit) => outfit.id !== outfitId),
+      }));
+    } catch (error) {
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+  saveComposition: async (outfitId: string, composition: OutfitComposition) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await outfitService.saveComposition(outfitId, composition);
+      const update = (outfit: Outfit) =>
+        outfit.id === outfitId ? { ...outfit, composition: response.data.composition } : outfit;
+      set((state) => ({
+        generatedOutfits: state.generatedOutfits.map(update),
+        history: state.history.map(update),
         isLoading: false,
       }));
     } catch (error) {
@@ -87,8 +283,22 @@ export const useOutfitStore = create<OutfitState>((set) => ({
     }
   },
   clearGenerated: () => set({ generatedOutfits: [] }),
+  hydrate: async (userId: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      const [history, wearEvents, plans] = await Promise.all([
+        outfitService.getOutfitHistory(userId),
+        outfitService.getWearEvents(userId),
+        outfitService.getPlans(userId),
+      ]);
+      set({
+        history: history.data,
+        wearEvents: wearEvents.data,
+        plans: plans.data,
+        isLoading: false,
+      });
+    } catch (error) {
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
 }));
-
-
-
-
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
-import { Profile } from '../models';
+import { DressCode, OccasionId, Profile } from '../models';
 import { profileService } from '../services/profileService';
+import { registerSyncHandler, useSyncStore } from '../stores/syncStore';
 
 interface ProfileState {
   profile: Profile | null;
@@ -9,9 +10,11 @@ interface ProfileState {
   fetchProfile: (userId: string) => Promise<void>;
   updateProfile: (userId: string, updates: Partial<Profile>) => Promise<void>;
   deleteAccount: (userId: string) => Promise<void>;
+  saveCustomOccasion: (userId: string, dressCode: DressCode) => Promise<void>;
+  removeCustomOccasion: (userId: string, occasionId: OccasionId) => Promise<void>;
 }
 
-export const useProfileStore = create<ProfileState>((set) => ({
+export const useProfileStore = create<ProfileState>((set, get) => ({
   profile: null,
   isLoading: false,
   error: null,
@@ -25,12 +28,22 @@ export const useProfileStore = create<ProfileState>((set) => ({
     }
   },
   updateProfile: async (userId: string, updates: Partial<Profile>) => {
-    set({ isLoading: true, error: null });
+    // Show the change right away and roll back if it can't be saved
+    const previous = get().profile;
+    set({ profile: { ...(previous ?? { userId }), ...updates }, isLoading: true, error: null });
     try {
       const response = await profileService.updateProfile(userId, updates);
       set({ profile: response.data, isLoading: false });
+      useSyncStore.getState().enqueue({
+        entity: 'profile',
+        op: 'upsert',
+        recordId: userId,
+        userId,
+        record: response.data,
+        updatedAt: response.data.updatedAt ?? new Date().toISOString(),
+      });
     } catch (error) {
-      set({ error: (error as Error).message, isLoading: false });
+      set({ profile: previous, error: (error as Error).message, isLoading: false });
       throw error;
     }
   },
@@ -44,8 +57,24 @@ export const useProfileStore = create<ProfileState>((set) => ({
       throw error;
     }
   },
+  saveCustomOccasion: async (userId: string, dressCode: DressCode) => {
+    const current = get().profile?.customOccasions ?? [];
+    const customOccasions = [...current.filter((code) => code.id !== dressCode.id), dressCode];
+    await get().updateProfile(userId, { customOccasions });
+  },
+  removeCustomOccasion: async (userId: string, occasionId: OccasionId) => {
+    const current = get().profile?.customOccasions ?? [];
+    const customOccasions = current.filter((code) => code.id !== occasionId);
+    await get().updateProfile(userId, { customOccasions });
+  },
 }));
 
-
-
-
+// Profiles are never deleted through sync, so only a newer version needs applying
+registerSyncHandler('profile', async (userId, remote) => {
+  if (!remote) return;
+  const profile = remote as Profile;
+  await profileService.replaceProfile(profile);
+  if (useProfileStore.getState().profile?.userId === userId) {
+    useProfileStore.setState({ profile });
+  }
+});
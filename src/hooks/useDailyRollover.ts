@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { startOfTomorrow } from 'date-fns';
+import { useTodayCollectionStore } from '../stores/todayCollectionStore';
+
+/**
+ * Archives the Today collections at local midnight. Timers don't fire while the app is
+ * suspended, so the rollover is also checked whenever the app returns to the foreground.
+ */
+export const useDailyRollover = () => {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = () => {
+      if (timer) clearTimeout(timer);
+      useTodayCollectionStore.getState().rollOver();
+      timer = setTimeout(schedule, startOfTomorrow().getTime() - Date.now());
+    };
+
+    schedule();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        schedule();
+      }
+    });
+    return () => {
+      if (timer) clearTimeout(timer);
+      subscription.remove();
+    };
+  }, []);
+};
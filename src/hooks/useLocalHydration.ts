@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '../features/authStore';
+import { useClosetStore } from '../features/closetStore';
+import { useOutfitStore } from '../features/outfitStore';
+
+/**
+ * Loads the signed-in user's closet, outfits, wears and plans from the on-device
+ * database at launch, so screens start from what was saved before the app restarted.
+ */
+export const useLocalHydration = () => {
+  const { user } = useAuthStore();
+
+  useEffect(() => {
+    if (!user) return;
+
+    useClosetStore.getState().hydrate(user.id);
+    useOutfitStore.getState().hydrate(user.id);
+  }, [user]);
+};
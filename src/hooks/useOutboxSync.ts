@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { useSyncStore } from '../stores/syncStore';
+
+/**
+ * Replays queued changes as soon as the app returns to the foreground or the device
+ * reconnects, rather than waiting out the backoff timer, which doesn't run while the
+ * app is suspended and can be minutes long.
+ */
+export const useOutboxSync = () => {
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active' && useSyncStore.getState().outbox.length > 0) {
+        useSyncStore.getState().flush();
+      }
+    });
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      const { status, outbox, flush } = useSyncStore.getState();
+      // Reachability is null until it has been checked, so only a definite no waits
+      const online = state.isConnected && state.isInternetReachable !== false;
+      if (online && status === 'offline' && outbox.length > 0) {
+        flush();
+      }
+    });
+    return () => {
+      subscription.remove();
+      unsubscribe();
+    };
+  }, []);
+};
@@ -0,0 +1,52 @@
+import { useEffect } from 'react';
+import { Alert, AppState } from 'react-native';
+import { useAuthStore } from '../features/authStore';
+import { useOutfitStore } from '../features/outfitStore';
+import { notificationService } from '../services/notificationService';
+import { formatDateFull } from '../utils/date';
+
+/**
+ * Marks due outfit plan reminders as sent whenever the app comes to the foreground.
+ * The system delivers them as notifications; when notifications are off, they are
+ * shown here as in-app alerts instead. Each plan is only reminded once.
+ */
+export const usePlanReminders = () => {
+  const { user } = useAuthStore();
+  const { fetchPlans, markReminderSent } = useOutfitStore();
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Runs unawaited on every foreground, so failures stop here; the next one retries
+    const checkReminders = async () => {
+      try {
+        await fetchPlans(user.id);
+        const now = new Date().toISOString();
+        const due = useOutfitStore
+          .getState()
+          .plans.filter((plan) => plan.reminderAt && plan.reminderAt <= now && !plan.reminded);
+
+        const notified = due.length > 0 && (await notificationService.canNotify());
+        for (const plan of due) {
+          await markReminderSent(plan.id);
+          if (!notified) {
+            Alert.alert(
+              'Outfit reminder',
+              `You planned an outfit for ${formatDateFull(plan.date)}.`
+            );
+          }
+        }
+      } catch (error) {
+        console.warn('Could not check plan reminders', error);
+      }
+    };
+
+    checkReminders();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        checkReminders();
+      }
+    });
+    return () => subscription.remove();
+  }, [user]);
+};
@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { ROUTES } from '../constants/routes';
+import { MainStackParamList } from '../navigation/types';
+import { useAuthStore } from '../features/authStore';
+import { useClosetStore } from '../features/closetStore';
+import { useOutfitStore } from '../features/outfitStore';
+import { useEntitlementsStore } from '../features/entitlementsStore';
+import { usePreferenceStore } from '../stores/preferenceStore';
+import { useSnackbar } from './useSnackbar';
+import { Outfit } from '../models';
+
+/**
+ * Regenerates an outfit around the pieces the user locked, refilling only the unlocked
+ * slots. Each run counts against the daily limit as a partial generation. Resolves to
+ * true once the new suggestions are in the outfit store.
+ */
+export const useRegenerateUnlocked = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<MainStackParamList>>();
+  const { user } = useAuthStore();
+  const { items } = useClosetStore();
+  const { generateOutfits } = useOutfitStore();
+  const { checkGenerateLimit, incrementGenerateCount } = useEntitlementsStore();
+  const { getWeights } = usePreferenceStore();
+  const { showSnackbar } = useSnackbar();
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  const regenerateUnlocked = async (outfit: Outfit, lockedItemIds: string[]) => {
+    if (!user || lockedItemIds.length === 0) return false;
+
+    setIsRegenerating(true);
+    try {
+      const canGenerate = await checkGenerateLimit(user.id, 'partial');
+      if (!canGenerate) {
+        showSnackbar('Daily generate limit reached. Upgrade to Pro for more.', 'error');
+        navigation.navigate(ROUTES.UPGRADE);
+        return false;
+      }
+
+      await generateOutfits(user.id, outfit.occasion, outfit.weather, items, {
+        lockedItemIds,
+        preferences: getWeights(user.id),
+      });
+      await incrementGenerateCount(user.id, 'partial');
+      return true;
+    } catch (error) {
+      showSnackbar((error as Error).message, 'error');
+      return false;
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  return { regenerateUnlocked, isRegenerating };
+};
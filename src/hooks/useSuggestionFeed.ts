@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSnackbar } from './useSnackbar';
+import { useTodayCollectionStore } from '../stores/todayCollectionStore';
+import { usePreferenceStore } from '../stores/preferenceStore';
+import { outfitSuggestionService } from '../services/outfitSuggestionService';
+import { OutfitSuggestion } from '../models';
+import { rankByPreference, suggestionFeatures } from '../utils/preferenceModel';
+
+// Fetch the next page once this few cards are left ahead of the active one
+const PREFETCH_THRESHOLD = 3;
+
+type PersistedStore = {
+  persist: {
+    hasHydrated: () => boolean;
+    onFinishHydration: (listener: () => void) => () => void;
+  };
+};
+
+const waitForHydration = (store: PersistedStore) =>
+  new Promise<void>((resolve) => {
+    if (store.persist.hasHydrated()) {
+      resolve();
+      return;
+    }
+    const unsubscribe = store.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+
+/**
+ * Pages the Today deck in from the suggestion service. Suggestions the user already
+ * swiped are skipped, each page is ordered by learned preferences, and the next page is
+ * fetched as the deck runs low. `hasMore` turns false once the feed is exhausted.
+ */
+export const useSuggestionFeed = (userId: string, activeIndex: number) => {
+  const { showSnackbar } = useSnackbar();
+  const [outfits, setOutfits] = useState<OutfitSuggestion[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cursorRef = useRef<string | null>(null);
+  const fetchingRef = useRef(false);
+  // A reset supersedes any page still in flight; stale responses are dropped
+  const requestRef = useRef(0);
+
+  const fetchPage = useCallback(
+    async (reset: boolean) => {
+      if (fetchingRef.current && !reset) return;
+      const request = ++requestRef.current;
+      fetchingRef.current = true;
+      setIsFetching(true);
+      setError(null);
+
+      try {
+        // Swipes and weights are restored from storage; wait so neither is missed
+        await Promise.all([
+          waitForHydration(useTodayCollectionStore),
+          waitForHydration(usePreferenceStore),
+        ]);
+        const { accepted, rejected } = useTodayCollectionStore.getState();
+        const response = await outfitSuggestionService.getSuggestions(userId, {
+          cursor: reset ? null : cursorRef.current,
+          excludeIds: [...accepted, ...rejected].map((outfit) => outfit.id),
+        });
+        if (request !== requestRef.current) return;
+        const page = rankByPreference(
+          response.data.suggestions,
+          suggestionFeatures,
+          usePreferenceStore.getState().getWeights(userId)
+        );
+
+        setOutfits((prev) =>
+          reset ? page : [...prev, ...page.filter((s) => !prev.some((o) => o.id === s.id))]
+        );
+        cursorRef.current = response.data.nextCursor;
+        setHasMore(response.data.nextCursor !== null);
+      } catch (fetchError) {
+        if (request !== requestRef.current) return;
+        setError((fetchError as Error).message);
+        showSnackbar((fetchError as Error).message, 'error');
+      } finally {
+        if (request === requestRef.current) {
+          fetchingRef.current = false;
+          setIsFetching(false);
+        }
+      }
+    },
+    [userId, showSnackbar]
+  );
+
+  useEffect(() => {
+    fetchPage(true);
+  }, [fetchPage]);
+
+  useEffect(() => {
+    // After a failure, wait for an explicit reload instead of retrying in a loop
+    if (hasMore && !isFetching && !error && outfits.length - activeIndex <= PREFETCH_THRESHOLD) {
+      fetchPage(false);
+    }
+  }, [outfits.length, activeIndex, hasMore, isFetching, error, fetchPage]);
+
+  // Starts the feed over from the first page
+  const reload = useCallback(() => {
+    cursorRef.current = null;
+    setHasMore(true);
+    return fetchPage(true);
+  }, [fetchPage]);
+
+  return { outfits, setOutfits, hasMore, isFetching, error, reload };
+};
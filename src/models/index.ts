@@ -12,6 +12,8 @@ export interface Profile {
   weight?: number; // in kg
   skinTone?: string;
   stylePreferences?: string[];
+  customOccasions?: DressCode[];
+  updatedAt?: string; // version used to resolve sync conflicts
 }
 
 export interface ClosetItem {
@@ -24,8 +26,25 @@ export interface ClosetItem {
   notes?: string;
   createdAt: string;
   aiConfidence?: number;
+  purchasePrice?: number;
+  currency?: string; // ISO 4217, defaults to USD
+  purchaseDate?: string; // yyyy-MM-dd
+  retailer?: string;
+  cutoutUri?: string; // background removed, preferred when items are composed together
+  thumbnailUri?: string; // square crop around the item
+  updatedAt?: string; // version used to resolve sync conflicts
 }
 
+export type PurchaseDetails = Pick<
+  ClosetItem,
+  'purchasePrice' | 'currency' | 'purchaseDate' | 'retailer'
+>;
+
+export type ItemImageSet = Pick<ClosetItem, 'cutoutUri' | 'thumbnailUri'>;
+
+// Everything optional that can be set when an item is first added
+export type NewItemDetails = PurchaseDetails & ItemImageSet & Pick<ClosetItem, 'aiConfidence'>;
+
 export type ItemCategory =
   | 'top'
   | 'bottom'
@@ -39,19 +58,99 @@ export type ItemCategory =
 export interface Outfit {
   id: string;
   userId: string;
-  occasion: Occasion;
+  name?: string;
+  source?: 'generated' | 'manual'; // generated when missing
+  occasion: OccasionId;
   weather: WeatherContext;
   items: OutfitItemSlot[];
   reason: string;
   createdAt: string;
-  wornDate?: string;
+  wornDate?: string; // most recent WearEvent date, kept in sync by the outfit service
+  composition?: OutfitComposition;
+}
+
+// Where one item sits on the flat-lay canvas. The item is fitted into a square box;
+// position and size are fractions of the canvas side so a composition looks the same
+// at any size.
+export interface FlatLayLayer {
+  itemId: string;
+  slot: OutfitItemSlot['slot'];
+  x: number; // box centre
+  y: number;
+  size: number;
+  zIndex: number;
+}
+
+export interface OutfitComposition {
+  layers: FlatLayLayer[];
+  background: string; // hex
+  updatedAt: string;
+}
+
+export interface WearEvent {
+  id: string;
+  userId: string;
+  outfitId: string;
+  date: string; // yyyy-MM-dd
+  notes?: string;
+  photoUri?: string;
+  rating?: number; // 1-5
+  location?: string;
+  createdAt: string;
+  outfit?: Outfit;
+}
+
+// An outfit scheduled for a future day; becomes a WearEvent once marked as worn
+export interface OutfitPlan {
+  id: string;
+  userId: string;
+  outfitId: string;
+  date: string; // yyyy-MM-dd
+  reminderAt?: string; // ISO timestamp
+  reminded?: boolean;
+  notes?: string;
+  createdAt: string;
+  outfit?: Outfit;
 }
 
 export type Occasion = 'work' | 'casual' | 'date' | 'party' | 'sport';
 
+// A built-in Occasion or the id of a user-defined DressCode
+export type OccasionId = Occasion | string;
+
+export interface DressCode {
+  id: OccasionId;
+  label: string;
+  requiredTags: string[]; // each must appear on at least one item
+  preferredTags: string[];
+  forbiddenTags: string[];
+  requiredCategories: ItemCategory[];
+  forbiddenCategories: ItemCategory[];
+}
+
 export interface WeatherContext {
   temperature: number; // Celsius
   isRaining: boolean;
+  minTemperature?: number; // Celsius
+  maxTemperature?: number; // Celsius
+  windSpeed?: number; // km/h
+  humidity?: number; // percent
+  uvIndex?: number;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface HourlyForecast {
+  time: string; // ISO timestamp at the start of the hour
+  temperature: number; // Celsius
+  isRaining: boolean;
+  precipitationChance: number; // percent
+  windSpeed: number; // km/h
+  humidity: number; // percent
+  uvIndex: number;
 }
 
 export interface OutfitItemSlot {
@@ -72,14 +171,61 @@ export interface CatalogItem {
   colors: string[];
 }
 
+// A card in the Today swipe deck
+export interface OutfitSuggestion {
+  id: string;
+  imageUri: string;
+  title: string;
+  subtitle: string;
+  handle: string;
+  reason: string;
+  bgGradient: [string, string, string];
+  isAccepted?: boolean;
+  isRejected?: boolean;
+}
+
 export interface Entitlements {
   userId: string;
   plan: 'free' | 'pro';
   closetItemCount: number;
   generatesToday: number;
+  partialGeneratesToday: number; // regenerations that kept locked pieces
   lastGenerateDate: string;
 }
 
+// A partial generation only refills the slots the user left unlocked
+export type GenerationKind = 'full' | 'partial';
+
+export type SyncEntity = 'closetItem' | 'profile';
+export type SyncRecord = ClosetItem | Profile;
+
+// A local change waiting in the outbox to be replayed against the server
+export interface SyncMutation {
+  id: string;
+  entity: SyncEntity;
+  op: 'upsert' | 'delete';
+  recordId: string;
+  userId: string;
+  record?: SyncRecord; // the full record for upserts
+  updatedAt: string; // when the change was made; the newer of two versions wins
+  queuedAt: string;
+  attempts: number;
+}
+
+// A local change that lost to a newer version already on the server
+export interface SyncConflict {
+  id: string;
+  entity: SyncEntity;
+  recordId: string;
+  op: SyncMutation['op'];
+  local?: SyncRecord;
+  remote: SyncRecord | null; // the version that was kept; null when deleted elsewhere
+  localUpdatedAt: string;
+  remoteUpdatedAt: string;
+  detectedAt: string;
+  rejectedReason?: string; // set when the server refused the change outright
+}
+
 export interface APIResponse<T> {
   data: T;
   message?: string;
@@ -89,8 +235,15 @@ export interface APIResponse<T> {
 export interface AuthTokens {
   accessToken: string;
   refreshToken: string;
+  expiresAt: string; // when the access token stops being accepted
 }
 
-
-
-
+// A device signed in to an account
+export interface DeviceSession {
+  id: string;
+  userId: string;
+  deviceName: string;
+  platform: string;
+  createdAt: string;
+  lastActiveAt: string;
+}
@@ -3,21 +3,36 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { ROUTES } from '../constants/routes';
 import { MainStackParamList } from './types';
 import { MainTabs } from './MainTabs';
+import { usePlanReminders } from '../hooks/usePlanReminders';
+import { useDailyRollover } from '../hooks/useDailyRollover';
+import { useLocalHydration } from '../hooks/useLocalHydration';
+import { useOutboxSync } from '../hooks/useOutboxSync';
 import { EditProfileScreen } from '../screens/profile/EditProfileScreen';
 import { SettingsScreen } from '../screens/profile/SettingsScreen';
+import { SessionsScreen } from '../screens/profile/SessionsScreen';
 import { AddItemScreen } from '../screens/closet/AddItemScreen';
 import { ItemDetailScreen } from '../screens/closet/ItemDetailScreen';
+import { ClosetAnalyticsScreen } from '../screens/closet/ClosetAnalyticsScreen';
+import { BatchImportScreen } from '../screens/closet/BatchImportScreen';
 import { OutfitResultsScreen } from '../screens/outfit/OutfitResultsScreen';
 import { OutfitDetailScreen } from '../screens/outfit/OutfitDetailScreen';
+import { OutfitComposerScreen } from '../screens/outfit/OutfitComposerScreen';
+import { OutfitBuilderScreen } from '../screens/outfit/OutfitBuilderScreen';
 import { OutfitHistoryScreen } from '../screens/outfit/OutfitHistoryScreen';
 import { CatalogScreen } from '../screens/catalog/CatalogScreen';
 import { UpgradeScreen } from '../screens/subscription/UpgradeScreen';
 import { CollectionsScreen } from '../screens/home/CollectionsScreen';
+import { BoardScreen } from '../screens/home/BoardScreen';
 import { SocialScreen } from '../screens/social/SocialScreen';
 
 const Stack = createNativeStackNavigator<MainStackParamList>();
 
 const MainStack: React.FC = () => {
+  useLocalHydration();
+  usePlanReminders();
+  useDailyRollover();
+  useOutboxSync();
+
   return (
     <Stack.Navigator
       screenOptions={{
@@ -27,14 +42,20 @@ const MainStack: React.FC = () => {
       <Stack.Screen name={ROUTES.MAIN_TABS} component={MainTabs} />
       <Stack.Screen name={ROUTES.EDIT_PROFILE} component={EditProfileScreen} />
       <Stack.Screen name={ROUTES.SETTINGS} component={SettingsScreen} />
+      <Stack.Screen name={ROUTES.SESSIONS} component={SessionsScreen} />
       <Stack.Screen name={ROUTES.ADD_ITEM} component={AddItemScreen} />
       <Stack.Screen name={ROUTES.ITEM_DETAIL} component={ItemDetailScreen} />
+      <Stack.Screen name={ROUTES.CLOSET_ANALYTICS} component={ClosetAnalyticsScreen} />
+      <Stack.Screen name={ROUTES.BATCH_IMPORT} component={BatchImportScreen} />
       <Stack.Screen name={ROUTES.OUTFIT_RESULTS} component={OutfitResultsScreen} />
       <Stack.Screen name={ROUTES.OUTFIT_DETAIL} component={OutfitDetailScreen} />
+      <Stack.Screen name={ROUTES.OUTFIT_COMPOSER} component={OutfitComposerScreen} />
+      <Stack.Screen name={ROUTES.OUTFIT_BUILDER} component={OutfitBuilderScreen} />
       <Stack.Screen name={ROUTES.OUTFIT_HISTORY} component={OutfitHistoryScreen} />
       <Stack.Screen name={ROUTES.CATALOG} component={CatalogScreen} />
       <Stack.Screen name={ROUTES.UPGRADE} component={UpgradeScreen} />
       <Stack.Screen name={ROUTES.COLLECTIONS} component={CollectionsScreen} />
+      <Stack.Screen name={ROUTES.BOARD} component={BoardScreen} />
       <Stack.Screen name={ROUTES.SOCIAL} component={SocialScreen} />
     </Stack.Navigator>
   );
@@ -21,18 +21,26 @@ export type MainStackParamList = {
   [ROUTES.MAIN_TABS]: NavigatorScreenParams<MainTabParamList>;
   [ROUTES.EDIT_PROFILE]: undefined;
   [ROUTES.SETTINGS]: undefined;
+  [ROUTES.SESSIONS]: undefined;
   [ROUTES.ADD_ITEM]: undefined;
   [ROUTES.ITEM_DETAIL]: { itemId: string };
+  [ROUTES.CLOSET_ANALYTICS]: undefined;
+  [ROUTES.BATCH_IMPORT]: undefined;
   [ROUTES.OUTFIT_GENERATOR]: undefined;
   [ROUTES.OUTFIT_RESULTS]: undefined;
   [ROUTES.OUTFIT_DETAIL]: { outfitId: string };
+  [ROUTES.OUTFIT_COMPOSER]: { outfitId: string };
+  [ROUTES.OUTFIT_BUILDER]: undefined;
 
   // UPDATED: optional params so Home can navigate safely without breaking the stack
-  [ROUTES.OUTFIT_HISTORY]: { mode?: 'today' | 'all'; acceptedIds?: string[] } | undefined;
+  [ROUTES.OUTFIT_HISTORY]:
+    | { mode?: 'today' | 'all'; acceptedIds?: string[]; planOutfitId?: string }
+    | undefined;
 
   [ROUTES.CATALOG]: { missingCategory?: string };
   [ROUTES.UPGRADE]: undefined;
   [ROUTES.COLLECTIONS]: undefined;
+  [ROUTES.BOARD]: { boardId: string };
   [ROUTES.SOCIAL]: undefined;
   [ROUTES.WEAR_TODAY]: undefined;
 };
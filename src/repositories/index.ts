@@ -0,0 +1,46 @@
+import { ClosetItem, Outfit, OutfitPlan, WearEvent } from '../models';
+import { mockClosetItems, mockOutfits, mockOutfitPlans, mockWearEvents } from '../data/mockData';
+import { StorageRepository } from './storageRepository';
+import {
+  ClosetItemRepository,
+  OutfitPlanRepository,
+  OutfitRepository,
+  ProfileRepository,
+  ProfileRecord,
+  WearEventRepository,
+} from './types';
+
+export * from './types';
+
+export const closetItemRepository: ClosetItemRepository = new StorageRepository<ClosetItem>({
+  key: 'db:closetItems',
+  seed: () => mockClosetItems,
+});
+
+// Items, outfits and plans are stored by id and joined back in by the services
+export const outfitRepository: OutfitRepository = new StorageRepository<Outfit>({
+  key: 'db:outfits',
+  seed: () => mockOutfits,
+  serialize: (outfit) => ({
+    ...outfit,
+    items: outfit.items.map(({ slot, itemId }) => ({ slot, itemId })),
+  }),
+});
+
+export const wearEventRepository: WearEventRepository = new StorageRepository<WearEvent>({
+  key: 'db:wearEvents',
+  seed: () => mockWearEvents,
+  serialize: (event) => ({ ...event, outfit: undefined }),
+});
+
+export const outfitPlanRepository: OutfitPlanRepository = new StorageRepository<OutfitPlan>({
+  key: 'db:outfitPlans',
+  seed: () => mockOutfitPlans,
+  serialize: (plan) => ({ ...plan, outfit: undefined }),
+});
+
+// Only profiles seen or edited on this device; the server holds the rest
+export const profileRepository: ProfileRepository = new StorageRepository<ProfileRecord>({
+  key: 'db:profiles',
+  seed: () => [],
+});
@@ -0,0 +1,111 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { UserScopedRepository } from './types';
+
+interface StorageRepositoryOptions<T> {
+  key: string;
+  // Records to start from the first time the app runs on this device
+  seed: () => T[];
+  // Drops derived fields (populated items, nested outfits) before a record is written
+  serialize?: (entity: T) => T;
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Keeps a whole collection under one AsyncStorage key. The collection is loaded once
+ * and cached in memory; every change rewrites the stored copy, one write at a time so
+ * an older snapshot never lands after a newer one.
+ */
+export class StorageRepository<
+  T extends { id: string; userId: string },
+> implements UserScopedRepository<T> {
+  private records: Map<string, T> | null = null;
+  private loading: Promise<Map<string, T>> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: StorageRepositoryOptions<T>) {}
+
+  async findAll(): Promise<T[]> {
+    const records = await this.load();
+    return Array.from(records.values(), clone);
+  }
+
+  async findById(id: string): Promise<T | undefined> {
+    const record = (await this.load()).get(id);
+    return record ? clone(record) : undefined;
+  }
+
+  async findWhere(predicate: (entity: T) => boolean): Promise<T[]> {
+    const records = await this.load();
+    return Array.from(records.values()).filter(predicate).map(clone);
+  }
+
+  async findByUser(userId: string): Promise<T[]> {
+    return this.findWhere((entity) => entity.userId === userId);
+  }
+
+  async save(entity: T): Promise<T> {
+    const records = await this.load();
+    records.set(entity.id, this.toRecord(entity));
+    await this.persist(records);
+    return entity;
+  }
+
+  async saveMany(entities: T[]): Promise<void> {
+    if (entities.length === 0) return;
+    const records = await this.load();
+    entities.forEach((entity) => records.set(entity.id, this.toRecord(entity)));
+    await this.persist(records);
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const records = await this.load();
+    if (!records.delete(id)) return false;
+    await this.persist(records);
+    return true;
+  }
+
+  async removeMany(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const records = await this.load();
+    ids.forEach((id) => records.delete(id));
+    await this.persist(records);
+  }
+
+  private toRecord(entity: T): T {
+    return clone(this.options.serialize ? this.options.serialize(entity) : entity);
+  }
+
+  private load(): Promise<Map<string, T>> {
+    if (this.records) return Promise.resolve(this.records);
+    if (!this.loading) {
+      this.loading = (async () => {
+        const stored = await AsyncStorage.getItem(this.options.key);
+        let entities: T[];
+        try {
+          entities = stored ? JSON.parse(stored) : this.options.seed().map(clone);
+        } catch (error) {
+          // Starting over beats failing every read for the rest of the session
+          console.warn(`Could not read ${this.options.key}, starting fresh`, error);
+          entities = this.options.seed().map(clone);
+        }
+
+        const records = new Map(entities.map((entity) => [entity.id, entity]));
+        this.records = records;
+        if (!stored) await this.persist(records);
+        return records;
+      })().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private persist(records: Map<string, T>): Promise<void> {
+    const snapshot = JSON.stringify(Array.from(records.values()));
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => AsyncStorage.setItem(this.options.key, snapshot));
+    return this.writing;
+  }
+}
@@ -0,0 +1,30 @@
+import { ClosetItem, Outfit, OutfitPlan, Profile, WearEvent } from '../models';
+
+/**
+ * A collection of records kept on the device. Reads and writes work on copies, so
+ * changing a returned record has no effect until it is saved again.
+ */
+export interface Repository<T extends { id: string }> {
+  findAll(): Promise<T[]>;
+  findById(id: string): Promise<T | undefined>;
+  findWhere(predicate: (entity: T) => boolean): Promise<T[]>;
+  save(entity: T): Promise<T>;
+  saveMany(entities: T[]): Promise<void>;
+  remove(id: string): Promise<boolean>;
+  removeMany(ids: string[]): Promise<void>;
+}
+
+export interface UserScopedRepository<
+  T extends { id: string; userId: string },
+> extends Repository<T> {
+  findByUser(userId: string): Promise<T[]>;
+}
+
+export type ClosetItemRepository = UserScopedRepository<ClosetItem>;
+export type OutfitRepository = UserScopedRepository<Outfit>;
+export type WearEventRepository = UserScopedRepository<WearEvent>;
+export type OutfitPlanRepository = UserScopedRepository<OutfitPlan>;
+
+// Each user has one profile, stored under their user id
+export type ProfileRecord = Profile & { id: string };
+export type ProfileRepository = UserScopedRepository<ProfileRecord>;
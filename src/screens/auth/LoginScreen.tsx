@@ -24,7 +24,7 @@ type NavigationProp = NativeStackNavigationProp<AuthStackParamList>;
 
 export const LoginScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
-  const { login, isLoading } = useAuthStore();
+  const { login, isLoading, sessionExpired } = useAuthStore();
   const { showSnackbar } = useSnackbar();
   const { colors, spacing } = useAppTheme();
 
@@ -65,7 +65,9 @@ export const LoginScreen: React.FC = () => {
               <View style={styles.header}>
                 <Text style={[styles.logo, { color: colors.textPrimary }]}>Whear</Text>
                 <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
-                  Sign in to continue
+                  {sessionExpired
+                    ? 'Your session has expired. Sign in again to continue'
+                    : 'Sign in to continue'}
                 </Text>
               </View>
 
@@ -171,6 +173,7 @@ const styles = StyleSheet.create({
   },
   subtitle: {
     fontSize: 16,
+    textAlign: 'center',
   },
   formCard: {
     padding: spacingConstants.lg,
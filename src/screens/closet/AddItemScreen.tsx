@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { View, StyleSheet, ScrollView, Image, Alert, TouchableOpacity, Text } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
@@ -7,6 +7,7 @@ import * as ImagePicker from 'expo-image-picker';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { isValid, parseISO } from 'date-fns';
 import { useAppTheme } from '../../hooks/useAppTheme';
 import { AppButton, AppInput, AppText, TagChip, GradientBackground, AppCard } from '../../components';
 import { ROUTES } from '../../constants/routes';
@@ -16,11 +17,32 @@ import { useAuthStore } from '../../features/authStore';
 import { useClosetStore } from '../../features/closetStore';
 import { useEntitlementsStore } from '../../features/entitlementsStore';
 import { useSnackbar } from '../../hooks/useSnackbar';
-import { ItemCategory, colorNames } from '../../models';
+import { ItemCategory, ItemImageSet, colorNames } from '../../models';
+import { DEFAULT_CURRENCY, commonCurrencies } from '../../utils/currency';
+import { localDateKey } from '../../utils/date';
+import { ItemRecognitionResult, recognitionService } from '../../services/itemRecognitionService';
+import { imageProcessingService } from '../../services/imageProcessingService';
 
 const addItemSchema = z.object({
   category: z.enum(['top', 'bottom', 'dress', 'outerwear', 'shoes', 'accessory', 'bag', 'other']),
   notes: z.string().optional(),
+  // Accept a decimal comma as typed in most of Europe
+  purchasePrice: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().replace(',', '.') : value),
+    z
+      .string()
+      .regex(/^\d+(\.\d{1,2})?$/, 'Enter a price like 49.99')
+      .optional()
+      .or(z.literal(''))
+  ),
+  purchaseDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use the format YYYY-MM-DD')
+    .refine((value) => isValid(parseISO(value)), 'Enter a real date')
+    .refine((value) => value <= localDateKey(), "The purchase date can't be in the future")
+    .optional()
+    .or(z.literal('')),
+  retailer: z.string().optional(),
 });
 
 type FormData = z.infer<typeof addItemSchema>;
@@ -40,7 +62,14 @@ export const AddItemScreen: React.FC = () => {
   const [selectedColors, setSelectedColors] = useState<string[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [categoryMenuVisible, setCategoryMenuVisible] = useState(false);
-  const [aiScanned, setAiScanned] = useState(false);
+  const [recognition, setRecognition] = useState<ItemRecognitionResult | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [images, setImages] = useState<ItemImageSet>({});
+  // Files made for the current photo, until the item is saved with them
+  const draftImages = useRef<ItemImageSet>({});
+  // Bumped for every scan, so results from an older photo are dropped
+  const scanId = useRef(0);
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
 
   const {
     control,
@@ -54,6 +83,21 @@ export const AddItemScreen: React.FC = () => {
 
   const category = watch('category');
 
+  const replaceImages = (next: ItemImageSet) => {
+    imageProcessingService.deleteImages(draftImages.current);
+    draftImages.current = next;
+    setImages(next);
+  };
+
+  // Leaving without saving abandons the draft's files, and any scan still running
+  useEffect(
+    () => () => {
+      scanId.current += 1;
+      imageProcessingService.deleteImages(draftImages.current);
+    },
+    []
+  );
+
   const pickImage = async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
     if (status !== 'granted') {
@@ -70,7 +114,7 @@ export const AddItemScreen: React.FC = () => {
 
     if (!result.canceled && result.assets[0]) {
       setImageUri(result.assets[0].uri);
-      simulateAIScan();
+      scanItem(result.assets[0]);
     }
   };
 
@@ -89,22 +133,51 @@ export const AddItemScreen: React.FC = () => {
 
     if (!result.canceled && result.assets[0]) {
       setImageUri(result.assets[0].uri);
-      simulateAIScan();
+      scanItem(result.assets[0]);
     }
   };
 
-  const simulateAIScan = () => {
-    setTimeout(() => {
-      const detectedCategory = categories[Math.floor(Math.random() * categories.length)];
-      const detectedColors = colorNames.slice(0, Math.floor(Math.random() * 3) + 1);
-      const detectedTags = commonTags.slice(0, Math.floor(Math.random() * 3) + 1);
-
-      setValue('category', detectedCategory as ItemCategory);
-      setSelectedColors(detectedColors);
-      setSelectedTags(detectedTags);
-      setAiScanned(true);
-      showSnackbar('AI scan complete! Review and edit if needed.', 'success');
-    }, 1000);
+  const scanItem = (asset: ImagePicker.ImagePickerAsset) => {
+    const scan = ++scanId.current;
+    setIsScanning(true);
+    setRecognition(null);
+    replaceImages({});
+    // Let the spinner render before decoding blocks the JS thread
+    setTimeout(async () => {
+      try {
+        const pixels = await imageProcessingService.decodePhoto(asset.uri);
+        const [{ data }, processed] = await Promise.all([
+          recognitionService.recognizeItem({ uri: asset.uri, pixels }),
+          imageProcessingService.processPhoto({ uri: asset.uri, pixels }),
+        ]);
+        if (scan !== scanId.current) {
+          imageProcessingService.deleteImages(processed.data);
+          return;
+        }
+        replaceImages(processed.data);
+
+        if (data.confidence === 0) {
+          showSnackbar("Couldn't read this photo. Fill in the details below.", 'info');
+          return;
+        }
+        if (data.category.confidence > 0) {
+          setValue('category', data.category.value);
+        }
+        setSelectedColors(data.colors.value);
+        setSelectedTags(data.tags.value);
+        setRecognition(data);
+        showSnackbar('AI scan complete! Review and edit if needed.', 'success');
+      } catch (error) {
+        // Nothing awaits this callback, so failures have to be surfaced here
+        if (scan === scanId.current) {
+          showSnackbar((error as Error).message, 'error');
+        }
+      } finally {
+        if (scan === scanId.current) {
+          setIsScanning(false);
+        }
+      }
+    }, 0);
   };
 
   const toggleColor = (color: string) => {
@@ -138,7 +211,18 @@ export const AddItemScreen: React.FC = () => {
         return;
       }
 
-      await addItem(user.id, imageUri, data.category, selectedColors, selectedTags, data.notes);
+      const purchase = {
+        purchasePrice: data.purchasePrice ? parseFloat(data.purchasePrice) : undefined,
+        currency: data.purchasePrice ? currency : undefined,
+        purchaseDate: data.purchaseDate || undefined,
+        retailer: data.retailer?.trim() || undefined,
+      };
+      await addItem(user.id, imageUri, data.category, selectedColors, selectedTags, data.notes, {
+        ...purchase,
+        ...images,
+        aiConfidence: recognition?.confidence,
+      });
+      draftImages.current = {};
       showSnackbar('Item added successfully!', 'success');
       navigation.goBack();
     } catch (error) {
@@ -165,9 +249,9 @@ export const AddItemScreen: React.FC = () => {
           <AppCard variant="glass" style={[styles.imageCard, { marginBottom: spacing.xl }]}>
             {imageUri ? (
               <Image
-                source={{ uri: imageUri }}
+                source={{ uri: images.cutoutUri ?? imageUri }}
                 style={[styles.image, { borderRadius: borderRadius.lg }]}
-                resizeMode="cover"
+                resizeMode={images.cutoutUri ? 'contain' : 'cover'}
               />
             ) : (
               <View style={[styles.imagePlaceholder, { backgroundColor: colors.glassBorder, borderRadius: borderRadius.lg }]}>
@@ -179,18 +263,35 @@ export const AddItemScreen: React.FC = () => {
                 label="Camera"
                 variant="glass"
                 onPress={takePhoto}
+                disabled={isScanning}
                 style={styles.imageButton}
               />
               <AppButton
                 label="Gallery"
                 variant="glass"
                 onPress={pickImage}
+                disabled={isScanning}
                 style={styles.imageButton}
               />
             </View>
-            {aiScanned && (
-              <View style={[styles.aiChip, { backgroundColor: colors.accentLight, marginTop: spacing.md }]}>
-                <Text style={[styles.aiText, { color: colors.accent }]}>✓ AI Scan Complete</Text>
+            <AppButton
+              label="Import Several Photos"
+              variant="ghost"
+              onPress={() => navigation.navigate(ROUTES.BATCH_IMPORT)}
+              style={styles.batchButton}
+            />
+            {(isScanning || recognition) && (
+              <View
+                style={[
+                  styles.aiChip,
+                  { backgroundColor: colors.accentLight, marginTop: spacing.md },
+                ]}
+              >
+                <Text style={[styles.aiText, { color: colors.accent }]}>
+                  {recognition
+                    ? `✓ AI Scan Complete • ${Math.round(recognition.confidence * 100)}% sure`
+                    : 'Scanning…'}
+                </Text>
               </View>
             )}
           </AppCard>
@@ -291,10 +392,73 @@ export const AddItemScreen: React.FC = () => {
               )}
             />
 
+            <View style={[styles.section, { marginTop: spacing.xl }]}>
+              <AppText
+                variant="body"
+                style={[styles.sectionTitle, { marginBottom: spacing.md, fontWeight: '600' }]}
+              >
+                Purchase (optional)
+              </AppText>
+              <Controller
+                control={control}
+                name="purchasePrice"
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <AppInput
+                    label="Price"
+                    value={value}
+                    onChangeText={onChange}
+                    onBlur={onBlur}
+                    keyboardType="decimal-pad"
+                    error={errors.purchasePrice?.message}
+                  />
+                )}
+              />
+              <View style={[styles.chips, { marginTop: spacing.md }]}>
+                {commonCurrencies.map((code) => (
+                  <TagChip
+                    key={code}
+                    label={code}
+                    selected={currency === code}
+                    onPress={() => setCurrency(code)}
+                    style={{ marginRight: spacing.sm, marginBottom: spacing.sm }}
+                  />
+                ))}
+              </View>
+              <Controller
+                control={control}
+                name="purchaseDate"
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <AppInput
+                    label="Purchase date (YYYY-MM-DD)"
+                    value={value}
+                    onChangeText={onChange}
+                    onBlur={onBlur}
+                    error={errors.purchaseDate?.message}
+                    containerStyle={{ marginTop: spacing.md }}
+                  />
+                )}
+              />
+              <Controller
+                control={control}
+                name="retailer"
+                render={({ field: { onChange, onBlur, value } }) => (
+                  <AppInput
+                    label="Retailer"
+                    value={value}
+                    onChangeText={onChange}
+                    onBlur={onBlur}
+                    containerStyle={{ marginTop: spacing.md }}
+                  />
+                )}
+              />
+            </View>
+
             <AppButton
               label="Save Item"
               onPress={handleSubmit(onSubmit)}
               loading={isLoading}
+              // The cutout and thumbnail are saved with the item, so wait for the scan
+              disabled={isScanning}
               style={styles.button}
             />
           </AppCard>
@@ -357,6 +521,10 @@ const styles = StyleSheet.create({
   imageButton: {
     flex: 1,
   },
+  batchButton: {
+    marginTop: spacingConstants.sm,
+    width: '100%',
+  },
   aiChip: {
     paddingHorizontal: spacingConstants.md,
     paddingVertical: spacingConstants.sm,
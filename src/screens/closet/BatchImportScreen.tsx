@@ -0,0 +1,543 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Image,
+  Alert,
+  TouchableOpacity,
+  Text,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import * as ImagePicker from 'expo-image-picker';
+import { useAppTheme } from '../../hooks/useAppTheme';
+import { AppButton, AppText, TagChip, GradientBackground, AppCard } from '../../components';
+import { ROUTES } from '../../constants/routes';
+import { MainStackParamList } from '../../navigation/types';
+import {
+  spacing as spacingConstants,
+  borderRadius as borderRadiusConstants,
+} from '../../constants/theme';
+import { useAuthStore } from '../../features/authStore';
+import { useClosetStore } from '../../features/closetStore';
+import { useEntitlementsStore } from '../../features/entitlementsStore';
+import { recognitionService } from '../../services/itemRecognitionService';
+import { imageProcessingService } from '../../services/imageProcessingService';
+import { ItemCategory, ItemImageSet, NewItemDetails } from '../../models';
+import { colorNames, getColorHex } from '../../utils/colors';
+
+type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
+
+type DraftStatus = 'scanning' | 'ready' | 'saved' | 'skipped';
+
+interface ImportDraft {
+  key: string;
+  uri: string;
+  category: ItemCategory;
+  colors: string[];
+  tags: string[];
+  details: NewItemDetails;
+  status: DraftStatus;
+  skipReason?: string;
+}
+
+// Each photo is decoded and scanned on the JS thread, so keep batches modest
+const MAX_BATCH_SIZE = 20;
+
+const categories: ItemCategory[] = [
+  'top',
+  'bottom',
+  'dress',
+  'outerwear',
+  'shoes',
+  'accessory',
+  'bag',
+  'other',
+];
+const commonTags = ['casual', 'formal', 'summer', 'winter', 'comfortable', 'elegant', 'sporty'];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const statusLabels: Record<DraftStatus, string> = {
+  scanning: 'Scanning…',
+  ready: '',
+  saved: '✓ Added',
+  skipped: 'Skipped',
+};
+
+export const BatchImportScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const { user } = useAuthStore();
+  const { addItem } = useClosetStore();
+  const { checkClosetLimit } = useEntitlementsStore();
+  const { colors, spacing, borderRadius } = useAppTheme();
+  const [drafts, setDrafts] = useState<ImportDraft[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  // Cutout and thumbnail files of photos not imported yet, by draft key
+  const pendingImages = useRef(new Map<string, ItemImageSet>());
+  const hasLeft = useRef(false);
+
+  // Leaving without importing drops the drafts, and their files with them
+  useEffect(
+    () => () => {
+      hasLeft.current = true;
+      pendingImages.current.forEach((images) => imageProcessingService.deleteImages(images));
+      pendingImages.current.clear();
+    },
+    []
+  );
+
+  const updateDraft = (key: string, updates: Partial<ImportDraft>) => {
+    setDrafts((prev) =>
+      prev.map((draft) => (draft.key === key ? { ...draft, ...updates } : draft))
+    );
+  };
+
+  // Edits to a skipped photo put it back in the queue
+  const editSelected = (edit: (draft: ImportDraft) => Partial<ImportDraft>) => {
+    setDrafts((prev) =>
+      prev.map((draft) =>
+        selectedKeys.includes(draft.key) && draft.status !== 'saved'
+          ? { ...draft, ...edit(draft), status: 'ready', skipReason: undefined }
+          : draft
+      )
+    );
+  };
+
+  const pickPhotos = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission needed', 'Please grant camera roll permissions');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsMultipleSelection: true,
+      selectionLimit: MAX_BATCH_SIZE,
+      quality: 0.8,
+    });
+    if (result.canceled || result.assets.length === 0) return;
+
+    const batchId = Date.now();
+    const queued = result.assets.map((asset, index) => ({
+      asset,
+      draft: {
+        key: `${batchId}-${index}`,
+        uri: asset.uri,
+        category: 'other' as ItemCategory,
+        colors: [],
+        tags: [],
+        details: {},
+        status: 'scanning' as DraftStatus,
+      },
+    }));
+    setDrafts((prev) => [...prev, ...queued.map(({ draft }) => draft)]);
+
+    // One at a time so the grid fills in progressively and the JS thread gets breathers
+    for (const { asset, draft } of queued) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (hasLeft.current) return;
+      try {
+        const pixels = await imageProcessingService.decodePhoto(asset.uri);
+        const [{ data }, processed] = await Promise.all([
+          recognitionService.recognizeItem({ uri: asset.uri, pixels }),
+          imageProcessingService.processPhoto({ uri: asset.uri, pixels }),
+        ]);
+        if (hasLeft.current) {
+          imageProcessingService.deleteImages(processed.data);
+          return;
+        }
+        pendingImages.current.set(draft.key, processed.data);
+        updateDraft(draft.key, {
+          category: data.category.confidence > 0 ? data.category.value : 'other',
+          colors: data.colors.value,
+          tags: data.tags.value,
+          details: {
+            ...processed.data,
+            aiConfidence: data.confidence > 0 ? data.confidence : undefined,
+          },
+          status: 'ready',
+        });
+      } catch {
+        updateDraft(draft.key, { status: 'ready' });
+      }
+    }
+  };
+
+  const toggleSelected = (draft: ImportDraft) => {
+    if (draft.status === 'saved' || draft.status === 'scanning') return;
+    setSelectedKeys((prev) =>
+      prev.includes(draft.key) ? prev.filter((key) => key !== draft.key) : [...prev, draft.key]
+    );
+  };
+
+  const selectedDrafts = drafts.filter((draft) => selectedKeys.includes(draft.key));
+
+  // Adds the value to every selected photo, or removes it if they all have it already
+  const toggleForSelection = (field: 'colors' | 'tags', value: string) => {
+    const allHave = selectedDrafts.every((draft) => draft[field].includes(value));
+    editSelected((draft) => ({
+      [field]: allHave
+        ? draft[field].filter((existing) => existing !== value)
+        : Array.from(new Set([...draft[field], value])),
+    }));
+  };
+
+  const removeSelected = () => {
+    selectedKeys.forEach((key) => {
+      const images = pendingImages.current.get(key);
+      if (!images) return;
+      imageProcessingService.deleteImages(images);
+      pendingImages.current.delete(key);
+    });
+    setDrafts((prev) => prev.filter((draft) => !selectedKeys.includes(draft.key)));
+    setSelectedKeys([]);
+  };
+
+  const handleImport = async () => {
+    if (!user) return;
+
+    const queue = drafts.filter((draft) => draft.status === 'ready');
+    const skipped: { index: number; reason: string }[] = [];
+    let imported = 0;
+    let limitReached = false;
+
+    setIsImporting(true);
+    setSelectedKeys([]);
+    try {
+      for (const draft of queue) {
+        const index = drafts.indexOf(draft) + 1;
+        let reason: string;
+
+        if (limitReached) {
+          reason = 'Closet limit reached';
+        } else if (draft.colors.length === 0) {
+          reason = 'No colors selected';
+        } else {
+          // A failed limit check skips just this photo, like a failed save
+          try {
+            const canAdd = await checkClosetLimit(user.id, useClosetStore.getState().items.length);
+            if (canAdd) {
+              await addItem(
+                user.id,
+                draft.uri,
+                draft.category,
+                draft.colors,
+                draft.tags,
+                undefined,
+                draft.details
+              );
+              pendingImages.current.delete(draft.key);
+              updateDraft(draft.key, { status: 'saved' });
+              imported += 1;
+              continue;
+            }
+            limitReached = true;
+            reason = 'Closet limit reached';
+          } catch (error) {
+            reason = (error as Error).message;
+          }
+        }
+
+        updateDraft(draft.key, { status: 'skipped', skipReason: reason });
+        skipped.push({ index, reason });
+      }
+    } finally {
+      setIsImporting(false);
+    }
+
+    if (skipped.length === 0) {
+      Alert.alert('Import complete', `Added ${imported} ${imported === 1 ? 'item' : 'items'}.`, [
+        { text: 'Done', onPress: () => navigation.goBack() },
+      ]);
+      return;
+    }
+
+    const details = skipped.map(({ index, reason }) => `Photo ${index}: ${reason}`).join('\n');
+    Alert.alert(
+      `Added ${imported} of ${queue.length}`,
+      `These photos were skipped:\n${details}`,
+      limitReached
+        ? [
+            { text: 'Later', style: 'cancel' },
+            { text: 'Upgrade', onPress: () => navigation.navigate(ROUTES.UPGRADE) },
+          ]
+        : [{ text: 'OK' }]
+    );
+  };
+
+  const renderDraft = ({ item: draft }: { item: ImportDraft }) => {
+    const selected = selectedKeys.includes(draft.key);
+    return (
+      <TouchableOpacity
+        style={[styles.cell, { padding: spacing.xs }]}
+        onPress={() => toggleSelected(draft)}
+        activeOpacity={0.8}
+      >
+        <View
+          style={[
+            styles.cellInner,
+            {
+              borderRadius: borderRadius.md,
+              borderColor: selected ? colors.accent : 'transparent',
+              opacity: draft.status === 'saved' ? 0.5 : 1,
+            },
+          ]}
+        >
+          <Image
+            source={{ uri: draft.details.thumbnailUri ?? draft.uri }}
+            style={[styles.cellImage, { borderRadius: borderRadius.md }]}
+          />
+          {draft.status !== 'ready' && (
+            <View style={[styles.statusBadge, { backgroundColor: colors.accentLight }]}>
+              <Text style={[styles.statusText, { color: colors.accent }]}>
+                {statusLabels[draft.status]}
+              </Text>
+            </View>
+          )}
+        </View>
+        <AppText variant="tiny" style={{ marginTop: spacing.xs, fontWeight: '600' }}>
+          {capitalize(draft.category)}
+        </AppText>
+        <View style={styles.dots}>
+          {draft.colors.map((color) => (
+            <View
+              key={color}
+              style={[
+                styles.dot,
+                { backgroundColor: getColorHex(color), borderColor: colors.glassBorder },
+              ]}
+            />
+          ))}
+        </View>
+        {draft.skipReason && (
+          <AppText variant="tiny" color={colors.error} numberOfLines={2}>
+            {draft.skipReason}
+          </AppText>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const readyCount = drafts.filter((draft) => draft.status === 'ready').length;
+  const isScanning = drafts.some((draft) => draft.status === 'scanning');
+
+  const renderBulkEditor = () => (
+    <AppCard
+      variant="glass"
+      style={StyleSheet.flatten([styles.editor, { marginBottom: spacing.lg }])}
+    >
+      <View style={styles.editorHeader}>
+        <AppText variant="body" style={{ fontWeight: '600' }}>
+          {selectedDrafts.length} selected
+        </AppText>
+        <View style={styles.row}>
+          <TouchableOpacity onPress={() => setSelectedKeys([])}>
+            <AppText variant="caption" color={colors.textSecondary}>
+              Clear
+            </AppText>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={removeSelected} style={{ marginLeft: spacing.md }}>
+            <AppText variant="caption" color={colors.error}>
+              Remove
+            </AppText>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <AppText variant="caption" style={[styles.editorLabel, { marginTop: spacing.md }]}>
+        Category
+      </AppText>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {categories.map((category) => (
+          <TagChip
+            key={category}
+            label={capitalize(category)}
+            selected={selectedDrafts.every((draft) => draft.category === category)}
+            onPress={() => editSelected(() => ({ category }))}
+            style={{ marginRight: spacing.sm }}
+          />
+        ))}
+      </ScrollView>
+
+      <AppText variant="caption" style={[styles.editorLabel, { marginTop: spacing.md }]}>
+        Colors
+      </AppText>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {colorNames.map((color) => (
+          <TagChip
+            key={color}
+            label={color}
+            selected={selectedDrafts.every((draft) => draft.colors.includes(color))}
+            onPress={() => toggleForSelection('colors', color)}
+            style={{ marginRight: spacing.sm }}
+          />
+        ))}
+      </ScrollView>
+
+      <AppText variant="caption" style={[styles.editorLabel, { marginTop: spacing.md }]}>
+        Tags
+      </AppText>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {commonTags.map((tag) => (
+          <TagChip
+            key={tag}
+            label={tag}
+            selected={selectedDrafts.every((draft) => draft.tags.includes(tag))}
+            onPress={() => toggleForSelection('tags', tag)}
+            style={{ marginRight: spacing.sm }}
+          />
+        ))}
+      </ScrollView>
+    </AppCard>
+  );
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={[styles.header, { paddingHorizontal: spacing.lg, paddingTop: spacing.lg }]}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <Text style={[styles.backIcon, { color: colors.textPrimary }]}>←</Text>
+          </TouchableOpacity>
+          <AppText variant="h1" style={{ fontWeight: '700' }}>
+            Import Photos
+          </AppText>
+          <View style={styles.placeholder} />
+        </View>
+
+        <FlatList
+          data={drafts}
+          renderItem={renderDraft}
+          keyExtractor={(draft) => draft.key}
+          numColumns={3}
+          contentContainerStyle={[styles.list, { padding: spacing.lg }]}
+          showsVerticalScrollIndicator={false}
+          ListHeaderComponent={
+            <>
+              <AppButton
+                label={drafts.length === 0 ? 'Choose Photos' : 'Add More Photos'}
+                variant="glass"
+                onPress={pickPhotos}
+                disabled={isImporting}
+                style={{ marginBottom: spacing.md }}
+              />
+              {drafts.length > 0 && (
+                <AppText
+                  variant="caption"
+                  color={colors.textSecondary}
+                  style={{ marginBottom: spacing.md }}
+                >
+                  Tap photos to select them, then fix category, colors or tags for all of them at
+                  once.
+                </AppText>
+              )}
+              {selectedDrafts.length > 0 && renderBulkEditor()}
+            </>
+          }
+        />
+
+        {drafts.length > 0 && (
+          <View style={{ padding: spacing.lg }}>
+            <AppButton
+              label={
+                isScanning
+                  ? 'Scanning photos…'
+                  : `Add ${readyCount} ${readyCount === 1 ? 'Item' : 'Items'}`
+              }
+              onPress={handleImport}
+              loading={isImporting}
+              disabled={isScanning || readyCount === 0}
+            />
+          </View>
+        )}
+      </SafeAreaView>
+    </GradientBackground>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacingConstants.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: borderRadiusConstants.full,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  backIcon: {
+    fontSize: 24,
+    fontWeight: '300',
+  },
+  placeholder: {
+    width: 40,
+  },
+  list: {
+    paddingBottom: spacingConstants.xl,
+  },
+  cell: {
+    width: '33.3333%',
+  },
+  cellInner: {
+    borderWidth: 2,
+    overflow: 'hidden',
+  },
+  cellImage: {
+    width: '100%',
+    aspectRatio: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  statusBadge: {
+    position: 'absolute',
+    bottom: spacingConstants.xs,
+    left: spacingConstants.xs,
+    paddingHorizontal: spacingConstants.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadiusConstants.full,
+  },
+  statusText: {
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  dots: {
+    flexDirection: 'row',
+    marginTop: 2,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    borderWidth: 1,
+    marginRight: 3,
+  },
+  editor: {
+    padding: spacingConstants.md,
+  },
+  editorHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  editorLabel: {
+    fontWeight: '600',
+    marginBottom: spacingConstants.xs,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+});
+
+BatchImportScreen.displayName = 'BatchImportScreen';
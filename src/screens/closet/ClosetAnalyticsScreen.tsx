@@ -0,0 +1,284 @@
+import React, { useEffect, useMemo } from 'react';
+import { View, StyleSheet, ScrollView, Image, TouchableOpacity, Text } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useAppTheme } from '../../hooks/useAppTheme';
+import { AppText, AppCard, LoadingSpinner, GradientBackground } from '../../components';
+import { ROUTES } from '../../constants/routes';
+import { MainStackParamList } from '../../navigation/types';
+import {
+  spacing as spacingConstants,
+  borderRadius as borderRadiusConstants,
+} from '../../constants/theme';
+import { useAuthStore } from '../../features/authStore';
+import { useClosetStore } from '../../features/closetStore';
+import { useOutfitStore } from '../../features/outfitStore';
+import { ClosetItem, ItemCategory } from '../../models';
+import { buildItemWearLog } from '../../utils/wearRotation';
+import {
+  NEVER_WORN_THRESHOLD_DAYS,
+  findNeverWorn,
+  rankByCostPerWear,
+  summarizeClosetValue,
+} from '../../utils/closetAnalytics';
+import { formatMoney } from '../../utils/currency';
+import { getItemImageUri } from '../../utils/itemImages';
+
+type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
+
+const MAX_COST_PER_WEAR_ROWS = 5;
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export const ClosetAnalyticsScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const { user } = useAuthStore();
+  const { items, fetchItems, isLoading } = useClosetStore();
+  const { wearEvents, fetchWearEvents } = useOutfitStore();
+  const { colors, spacing, borderRadius } = useAppTheme();
+
+  useEffect(() => {
+    if (user) {
+      fetchItems(user.id);
+      fetchWearEvents(user.id);
+    }
+  }, [user]);
+
+  const wearLog = useMemo(() => buildItemWearLog(wearEvents), [wearEvents]);
+  const valueSummaries = useMemo(() => summarizeClosetValue(items), [items]);
+  const costPerWear = useMemo(() => rankByCostPerWear(items, wearLog), [items, wearLog]);
+  const neverWorn = useMemo(() => findNeverWorn(items, wearLog), [items, wearLog]);
+
+  const openItem = (item: ClosetItem) =>
+    navigation.navigate(ROUTES.ITEM_DETAIL, { itemId: item.id });
+
+  const renderItemRow = (item: ClosetItem, title: string, subtitle: string) => (
+    <TouchableOpacity
+      key={item.id}
+      onPress={() => openItem(item)}
+      style={[styles.row, { marginTop: spacing.md }]}
+      activeOpacity={0.8}
+    >
+      <Image
+        source={{ uri: getItemImageUri(item, 'thumbnail') }}
+        style={[styles.thumbnail, { borderRadius: borderRadius.sm, marginRight: spacing.md }]}
+      />
+      <View style={styles.rowText}>
+        <AppText variant="body" style={{ fontWeight: '600' }}>
+          {title}
+        </AppText>
+        <AppText variant="caption" color={colors.textSecondary}>
+          {subtitle}
+        </AppText>
+      </View>
+    </TouchableOpacity>
+  );
+
+  if (isLoading && items.length === 0) {
+    return (
+      <GradientBackground>
+        <LoadingSpinner />
+      </GradientBackground>
+    );
+  }
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={[styles.header, { paddingHorizontal: spacing.lg, paddingTop: spacing.lg }]}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <Text style={[styles.backIcon, { color: colors.textPrimary }]}>←</Text>
+          </TouchableOpacity>
+          <AppText variant="h1" style={{ fontWeight: '700' }}>
+            Closet Insights
+          </AppText>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView
+          contentContainerStyle={[styles.scrollContent, { padding: spacing.lg }]}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Closet value */}
+          <AppCard
+            variant="glass"
+            style={StyleSheet.flatten([styles.card, { marginBottom: spacing.lg }])}
+          >
+            <AppText variant="h2" style={{ marginBottom: spacing.sm }}>
+              Closet Value
+            </AppText>
+            {valueSummaries.length === 0 ? (
+              <AppText variant="caption" color={colors.textSecondary}>
+                Add purchase prices to your items to see what your closet is worth
+              </AppText>
+            ) : (
+              valueSummaries.map((summary) => (
+                <View key={summary.currency} style={{ marginTop: spacing.sm }}>
+                  <AppText variant="display" style={{ fontWeight: '700' }}>
+                    {formatMoney(summary.total, summary.currency)}
+                  </AppText>
+                  <AppText
+                    variant="caption"
+                    color={colors.textSecondary}
+                    style={{ marginBottom: spacing.sm }}
+                  >
+                    Across {summary.itemCount} priced {summary.itemCount === 1 ? 'item' : 'items'}
+                  </AppText>
+                  {(Object.entries(summary.byCategory) as [ItemCategory, number][])
+                    .sort(([, a], [, b]) => b - a)
+                    .map(([category, total]) => (
+                      <View key={category} style={[styles.categoryRow, { marginTop: spacing.xs }]}>
+                        <AppText variant="body">{capitalize(category)}</AppText>
+                        <AppText variant="body" color={colors.textSecondary}>
+                          {formatMoney(total, summary.currency)}
+                        </AppText>
+                      </View>
+                    ))}
+                  <View
+                    style={[
+                      styles.bar,
+                      {
+                        marginTop: spacing.sm,
+                        borderRadius: borderRadius.full,
+                        backgroundColor: colors.glassBorder,
+                      },
+                    ]}
+                  >
+                    {(Object.entries(summary.byCategory) as [ItemCategory, number][]).map(
+                      ([category, total], index) => (
+                        <View
+                          key={category}
+                          style={{
+                            flex: total,
+                            backgroundColor: colors.accent,
+                            opacity: 1 - (index % 4) * 0.2,
+                          }}
+                        />
+                      )
+                    )}
+                  </View>
+                </View>
+              ))
+            )}
+          </AppCard>
+
+          {/* Cost per wear */}
+          <AppCard
+            variant="glass"
+            style={StyleSheet.flatten([styles.card, { marginBottom: spacing.lg }])}
+          >
+            <AppText variant="h2">Cost per Wear</AppText>
+            <AppText variant="caption" color={colors.textSecondary}>
+              Priciest per wear first. Wearing these more brings the cost down.
+            </AppText>
+            {costPerWear.length === 0 ? (
+              <AppText
+                variant="caption"
+                color={colors.textSecondary}
+                style={{ marginTop: spacing.md }}
+              >
+                No priced items yet
+              </AppText>
+            ) : (
+              costPerWear
+                .slice(0, MAX_COST_PER_WEAR_ROWS)
+                .map((entry) =>
+                  renderItemRow(
+                    entry.item,
+                    `${formatMoney(entry.costPerWear, entry.currency)} per wear`,
+                    `${capitalize(entry.item.category)} • ${formatMoney(entry.price, entry.currency)} • worn ${entry.wears}×`
+                  )
+                )
+            )}
+          </AppCard>
+
+          {/* Never worn */}
+          <AppCard variant="glass" style={styles.card}>
+            <AppText variant="h2">Never Worn</AppText>
+            <AppText variant="caption" color={colors.textSecondary}>
+              Owned for over {NEVER_WORN_THRESHOLD_DAYS} days without a single wear
+            </AppText>
+            {neverWorn.length === 0 ? (
+              <AppText
+                variant="caption"
+                color={colors.textSecondary}
+                style={{ marginTop: spacing.md }}
+              >
+                Everything in your closet is getting worn
+              </AppText>
+            ) : (
+              neverWorn.map(({ item, daysOwned }) =>
+                renderItemRow(
+                  item,
+                  capitalize(item.category),
+                  `Owned ${daysOwned} days${
+                    item.purchasePrice !== undefined
+                      ? ` • ${formatMoney(item.purchasePrice, item.currency)}`
+                      : ''
+                  }`
+                )
+              )
+            )}
+          </AppCard>
+        </ScrollView>
+      </SafeAreaView>
+    </GradientBackground>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacingConstants.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: borderRadiusConstants.full,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  backIcon: {
+    fontSize: 24,
+    fontWeight: '300',
+  },
+  placeholder: {
+    width: 40,
+  },
+  scrollContent: {
+    paddingBottom: spacingConstants.xl,
+  },
+  card: {
+    padding: spacingConstants.lg,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  bar: {
+    flexDirection: 'row',
+    height: 8,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  thumbnail: {
+    width: 48,
+    height: 48,
+    backgroundColor: '#F5F5F5',
+  },
+  rowText: {
+    flex: 1,
+  },
+});
+
+ClosetAnalyticsScreen.displayName = 'ClosetAnalyticsScreen';
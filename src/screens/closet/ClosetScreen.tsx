@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { View, StyleSheet, FlatList, TouchableOpacity, Image, Text, Animated } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
@@ -9,7 +9,10 @@ import { ROUTES, TAB_ROUTES } from '../../constants/routes';
 import { MainTabParamList } from '../../navigation/types';
 import { spacing as spacingConstants, borderRadius as borderRadiusConstants } from '../../constants/theme';
 import { useAuthStore } from '../../features/authStore';
-import { useClosetStore } from '../../features/closetStore';
+import { ClosetSortMode, useClosetStore } from '../../features/closetStore';
+import { useOutfitStore } from '../../features/outfitStore';
+import { buildItemWearLog, getWearCount, sortByLeastWorn } from '../../utils/wearRotation';
+import { getItemImageUri } from '../../utils/itemImages';
 import { ClosetItem, ItemCategory } from '../../models';
 import { BlurView } from 'expo-blur';
 import { Platform } from 'react-native';
@@ -17,11 +20,26 @@ import { Platform } from 'react-native';
 type NavigationProp = BottomTabNavigationProp<MainTabParamList>;
 
 const categories: ItemCategory[] = ['top', 'bottom', 'dress', 'outerwear', 'shoes', 'accessory', 'bag', 'other'];
+const sortOptions: { value: ClosetSortMode; label: string }[] = [
+  { value: 'recent', label: 'Recently added' },
+  { value: 'leastWorn', label: 'Least worn' },
+];
 
 export const ClosetScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
   const { user } = useAuthStore();
-  const { items, isLoading, viewMode, filters, fetchItems, setViewMode, setFilters } = useClosetStore();
+  const {
+    items,
+    isLoading,
+    viewMode,
+    sortMode,
+    filters,
+    fetchItems,
+    setViewMode,
+    setSortMode,
+    setFilters,
+  } = useClosetStore();
+  const { wearEvents, fetchWearEvents } = useOutfitStore();
   const { colors, spacing, borderRadius, blur, isDark } = useAppTheme();
   const [selectedCategory, setSelectedCategory] = React.useState<ItemCategory | 'all'>('all');
   const scrollY = useRef(new Animated.Value(0)).current;
@@ -29,15 +47,22 @@ export const ClosetScreen: React.FC = () => {
   useEffect(() => {
     if (user) {
       fetchItems(user.id);
+      fetchWearEvents(user.id);
     }
   }, [user]);
 
-  const filteredItems = items.filter((item) => {
+  const wearLog = useMemo(() => buildItemWearLog(wearEvents), [wearEvents]);
+
+  const matchingItems = items.filter((item) => {
     if (selectedCategory !== 'all' && item.category !== selectedCategory) return false;
     if (filters.color && item.colors && !item.colors.includes(filters.color)) return false;
     if (filters.tag && item.tags && !item.tags.includes(filters.tag)) return false;
     return true;
   });
+  const filteredItems =
+    sortMode === 'leastWorn'
+      ? sortByLeastWorn(matchingItems, wearLog)
+      : [...matchingItems].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
 
   const renderItem = ({ item, index }: { item: ClosetItem; index: number }) => {
     const isGrid = viewMode === 'grid';
@@ -110,7 +135,7 @@ export const ClosetScreen: React.FC = () => {
         activeOpacity={0.8}
       >
         <Image
-          source={{ uri: item.imageUri }}
+          source={{ uri: getItemImageUri(item, 'thumbnail') }}
           style={[styles.listImage, { borderRadius: borderRadius.lg }]}
           resizeMode="cover"
         />
@@ -123,6 +148,9 @@ export const ClosetScreen: React.FC = () => {
               {item.colors.slice(0, 3).join(' • ')}
             </AppText>
           )}
+          <AppText variant="caption" color={colors.textSecondary}>
+            Worn {getWearCount(wearLog, item.id)}×
+          </AppText>
         </View>
       </TouchableOpacity>
     );
@@ -141,7 +169,32 @@ export const ClosetScreen: React.FC = () => {
       <SafeAreaView style={styles.container} edges={['top']}>
         {/* Header */}
         <View style={[styles.header, { paddingHorizontal: spacing.lg, paddingTop: spacing.lg }]}>
-          <View style={{ width: 46 }} />
+          <TouchableOpacity
+            onPress={() => {
+              const parent = navigation.getParent();
+              if (parent) {
+                (parent as any).navigate(ROUTES.CLOSET_ANALYTICS);
+              }
+            }}
+            style={[
+              styles.headerButton,
+              { borderColor: colors.glassBorder, borderRadius: borderRadius.full },
+            ]}
+          >
+            {Platform.OS === 'ios' ? (
+              <BlurView
+                intensity={blur.medium}
+                tint={isDark ? 'dark' : 'light'}
+                style={styles.headerButtonInner}
+              >
+                <Text style={[styles.headerIcon, { color: colors.textPrimary }]}>📊</Text>
+              </BlurView>
+            ) : (
+              <View style={[styles.headerButtonInner, { backgroundColor: colors.glassSurface }]}>
+                <Text style={[styles.headerIcon, { color: colors.textPrimary }]}>📊</Text>
+              </View>
+            )}
+          </TouchableOpacity>
           <AppText variant="display" style={{ fontWeight: '700', color: colors.textPrimary }}>My Closet</AppText>
           <View style={styles.headerActions}>
             <TouchableOpacity
@@ -225,6 +278,19 @@ export const ClosetScreen: React.FC = () => {
           />
         </View>
 
+        {/* Sort */}
+        <View style={[styles.sortRow, { paddingHorizontal: spacing.lg, marginBottom: spacing.sm }]}>
+          {sortOptions.map((option) => (
+            <TagChip
+              key={option.value}
+              label={option.label}
+              selected={sortMode === option.value}
+              onPress={() => setSortMode(option.value)}
+              style={{ marginRight: spacing.sm }}
+            />
+          ))}
+        </View>
+
         {/* Items Grid/List */}
         {filteredItems.length === 0 ? (
           <EmptyState
@@ -259,6 +325,9 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  sortRow: {
+    flexDirection: 'row',
+  },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
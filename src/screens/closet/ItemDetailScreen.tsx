@@ -1,17 +1,31 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { View, StyleSheet, ScrollView, Image, Alert, TouchableOpacity, Text } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
+import * as ImagePicker from 'expo-image-picker';
 import { useAppTheme } from '../../hooks/useAppTheme';
-import { AppText, LoadingSpinner, TagChip, GradientBackground, AppCard } from '../../components';
+import {
+  AppText,
+  AppButton,
+  LoadingSpinner,
+  TagChip,
+  GradientBackground,
+  AppCard,
+} from '../../components';
 import { ROUTES } from '../../constants/routes';
 import { MainStackParamList } from '../../navigation/types';
 import { spacing as spacingConstants, borderRadius as borderRadiusConstants } from '../../constants/theme';
 import { useClosetStore } from '../../features/closetStore';
+import { useOutfitStore } from '../../features/outfitStore';
 import { useSnackbar } from '../../hooks/useSnackbar';
-import { ClosetItem } from '../../models';
+import { ClosetItem, ItemImageSet } from '../../models';
+import { buildItemWearLog, getWearCount } from '../../utils/wearRotation';
+import { getCostPerWear } from '../../utils/closetAnalytics';
+import { formatMoney } from '../../utils/currency';
+import { formatDateFull } from '../../utils/date';
+import { imageProcessingService } from '../../services/imageProcessingService';
 
 type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
 type RoutePropType = RouteProp<MainStackParamList, typeof ROUTES.ITEM_DETAIL>;
@@ -20,7 +34,8 @@ export const ItemDetailScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
   const route = useRoute<RoutePropType>();
   const { itemId } = route.params;
-  const { items, deleteItem, isLoading } = useClosetStore();
+  const { items, deleteItem, updateItem, isLoading } = useClosetStore();
+  const { wearEvents } = useOutfitStore();
   const { showSnackbar } = useSnackbar();
   const { colors, spacing, borderRadius } = useAppTheme();
   const [item, setItem] = useState<ClosetItem | null>(null);
@@ -30,6 +45,8 @@ export const ItemDetailScreen: React.FC = () => {
     setItem(foundItem || null);
   }, [itemId, items]);
 
+  const wearLog = useMemo(() => buildItemWearLog(wearEvents), [wearEvents]);
+
   const handleDelete = () => {
     Alert.alert('Delete Item', 'Are you sure you want to delete this item?', [
       { text: 'Cancel', style: 'cancel' },
@@ -49,6 +66,35 @@ export const ItemDetailScreen: React.FC = () => {
     ]);
   };
 
+  const handleReplacePhoto = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission needed', 'Please grant camera roll permissions');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.8,
+    });
+    if (result.canceled || !result.assets[0]) return;
+
+    const asset = result.assets[0];
+    let images: ItemImageSet = {};
+    try {
+      const pixels = await imageProcessingService.decodePhoto(asset.uri);
+      images = (await imageProcessingService.processPhoto({ uri: asset.uri, pixels })).data;
+      await updateItem(itemId, { imageUri: asset.uri, ...images });
+      showSnackbar('Photo updated', 'success');
+    } catch (error) {
+      // The item keeps its old photo, so the new files have nothing pointing at them
+      imageProcessingService.deleteImages(images);
+      showSnackbar((error as Error).message, 'error');
+    }
+  };
+
   if (isLoading || !item) {
     return (
       <GradientBackground>
@@ -57,6 +103,8 @@ export const ItemDetailScreen: React.FC = () => {
     );
   }
 
+  const costPerWear = getCostPerWear(item, wearLog);
+
   return (
     <GradientBackground>
       <SafeAreaView style={styles.container} edges={['top']}>
@@ -141,6 +189,35 @@ export const ItemDetailScreen: React.FC = () => {
               </View>
             )}
 
+            {item.purchasePrice !== undefined && (
+              <View style={[styles.section, { marginTop: spacing.lg }]}>
+                <AppText
+                  variant="body"
+                  style={[styles.sectionTitle, { marginBottom: spacing.sm, fontWeight: '600' }]}
+                >
+                  Purchase
+                </AppText>
+                <AppText variant="body" color={colors.textSecondary}>
+                  {formatMoney(item.purchasePrice, item.currency)}
+                  {item.retailer ? ` at ${item.retailer}` : ''}
+                  {item.purchaseDate ? ` • ${formatDateFull(item.purchaseDate)}` : ''}
+                </AppText>
+                {costPerWear !== null && (
+                  <AppText variant="body" color={colors.textSecondary}>
+                    Worn {getWearCount(wearLog, item.id)}× •{' '}
+                    {formatMoney(costPerWear, item.currency)} per wear
+                  </AppText>
+                )}
+              </View>
+            )}
+
+            <AppButton
+              label="Replace Photo"
+              variant="glass"
+              onPress={handleReplacePhoto}
+              style={styles.replaceButton}
+            />
+
             <AppText variant="caption" color={colors.textSecondary} style={styles.date}>
               Added {new Date(item.createdAt).toLocaleDateString()}
             </AppText>
@@ -216,6 +293,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     flexWrap: 'wrap',
   },
+  replaceButton: {
+    marginTop: spacingConstants.lg,
+  },
   date: {
     marginTop: spacingConstants.xl,
   },
@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, FlatList, TouchableOpacity, Dimensions, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { BlurView } from 'expo-blur';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Image } from 'expo-image';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+const Icon = MaterialCommunityIcons;
+
+import { useAppTheme } from '../../hooks/useAppTheme';
+import { useSnackbar } from '../../hooks/useSnackbar';
+import { AppText, BoardPickerSheet, GradientBackground } from '../../components';
+import { MainStackParamList } from '../../navigation/types';
+import { ROUTES } from '../../constants/routes';
+import { Board, BoardEntry, useCollectionsStore } from '../../stores/collectionsStore';
+import { useAuthStore } from '../../features/authStore';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
+type RoutePropType = RouteProp<MainStackParamList, typeof ROUTES.BOARD>;
+
+export const BoardScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<RoutePropType>();
+  const { boardId } = route.params;
+  const { colors, spacing, borderRadius, blur, isDark } = useAppTheme();
+  const { showSnackbar } = useSnackbar();
+  const { user } = useAuthStore();
+  const { getBoards, createBoard, removeFromBoard, moveEntry } = useCollectionsStore();
+  const userId = user?.id ?? 'guest';
+  const boards = getBoards(userId);
+  // Entry waiting for a destination board
+  const [moving, setMoving] = useState<BoardEntry | null>(null);
+
+  const board = boards.find((b) => b.id === boardId);
+
+  const handleMove = (target: Board) => {
+    if (!moving) return;
+    moveEntry(userId, moving.key, boardId, target.id);
+    setMoving(null);
+    showSnackbar(`Moved to ${target.name}`, 'success');
+  };
+
+  const renderEntry = ({ item }: { item: BoardEntry }) => {
+    const title = item.kind === 'suggestion' ? item.suggestion.title : item.title;
+    const imageUri = item.kind === 'suggestion' ? item.suggestion.imageUri : item.imageUri;
+
+    return (
+      <TouchableOpacity
+        activeOpacity={0.9}
+        disabled={item.kind !== 'outfit'}
+        onPress={() =>
+          item.kind === 'outfit' &&
+          navigation.navigate(ROUTES.OUTFIT_DETAIL, { outfitId: item.outfitId })
+        }
+        style={[
+          styles.card,
+          {
+            borderRadius: borderRadius.xl,
+            backgroundColor: colors.cardBackground,
+            shadowOpacity: isDark ? 0.4 : 0.2,
+          },
+        ]}
+      >
+        <Image
+          source={{ uri: imageUri }}
+          style={styles.image}
+          contentFit="cover"
+          transition={200}
+        />
+        <LinearGradient colors={['transparent', 'rgba(0,0,0,0.7)']} style={styles.gradient} />
+        <View style={styles.cardContent}>
+          <AppText overlay variant="h2" style={styles.cardTitle}>
+            {title}
+          </AppText>
+          <AppText overlay muted variant="caption">
+            {item.kind === 'suggestion' ? item.suggestion.subtitle : 'Saved outfit'}
+          </AppText>
+        </View>
+        <View style={styles.cardActions}>
+          <TouchableOpacity onPress={() => setMoving(item)} style={styles.cardAction}>
+            <Icon name="folder-move-outline" size={18} color="#fff" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => removeFromBoard(userId, boardId, item.key)}
+            style={styles.cardAction}
+          >
+            <Icon name="close" size={18} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container} edges={['top']}>
+        {/* Header */}
+        <View style={[styles.header, { paddingHorizontal: spacing.xl, paddingTop: spacing.lg }]}>
+          <TouchableOpacity
+            onPress={() => navigation.goBack()}
+            style={[
+              styles.backButton,
+              { borderColor: colors.glassBorder, borderRadius: borderRadius.full },
+            ]}
+          >
+            {Platform.OS === 'ios' ? (
+              <BlurView
+                intensity={blur.medium}
+                tint={isDark ? 'dark' : 'light'}
+                style={styles.backButtonInner}
+              >
+                <Icon name="arrow-left" size={22} color={colors.textPrimary} />
+              </BlurView>
+            ) : (
+              <View style={[styles.backButtonInner, { backgroundColor: colors.glassSurface }]}>
+                <Icon name="arrow-left" size={22} color={colors.textPrimary} />
+              </View>
+            )}
+          </TouchableOpacity>
+          <AppText
+            variant="h1"
+            numberOfLines={1}
+            style={[styles.headerTitle, { color: colors.textPrimary }]}
+          >
+            {board?.name ?? 'Board'}
+          </AppText>
+          <View style={styles.placeholder} />
+        </View>
+
+        {!board || board.entries.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Icon name="view-grid-outline" size={64} color={colors.textSecondary} />
+            <AppText
+              variant="h1"
+              style={[styles.emptyTitle, { marginTop: spacing.lg, color: colors.textPrimary }]}
+            >
+              {board ? 'Nothing Here Yet' : 'Board Not Found'}
+            </AppText>
+            <AppText variant="body" color={colors.textSecondary} style={styles.emptySubtitle}>
+              {board
+                ? 'Long-press a liked look or use Add to Board on an outfit to fill this board'
+                : 'This board may have been deleted'}
+            </AppText>
+          </View>
+        ) : (
+          <FlatList
+            data={board.entries}
+            renderItem={renderEntry}
+            keyExtractor={(entry) => entry.key}
+            contentContainerStyle={{ padding: spacing.lg }}
+            showsVerticalScrollIndicator={false}
+            numColumns={2}
+            columnWrapperStyle={styles.row}
+          />
+        )}
+
+        <BoardPickerSheet
+          visible={moving !== null}
+          title="Move to Board"
+          boards={boards}
+          entryKey={moving?.key}
+          excludeBoardId={boardId}
+          onSelect={handleMove}
+          onCreate={(name) => createBoard(userId, name)}
+          onClose={() => setMoving(null)}
+        />
+      </SafeAreaView>
+    </GradientBackground>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  backButton: {
+    width: 46,
+    height: 46,
+    overflow: 'hidden',
+    borderWidth: 1.5,
+  },
+  backButtonInner: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: '900',
+    textAlign: 'center',
+    marginHorizontal: 12,
+  },
+  placeholder: {
+    width: 46,
+  },
+  row: {
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  card: {
+    width: (SCREEN_WIDTH - 48 - 16) / 2,
+    height: 240,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowRadius: 12,
+    shadowOffset: { width: 0, height: 6 },
+    elevation: 6,
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+    position: 'absolute',
+  },
+  gradient: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 120,
+  },
+  cardContent: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    bottom: 12,
+  },
+  cardTitle: {
+    fontWeight: '900',
+    fontSize: 18,
+    marginBottom: 4,
+  },
+  cardActions: {
+    position: 'absolute',
+    top: 10,
+    right: 10,
+    flexDirection: 'row',
+    gap: 6,
+  },
+  cardAction: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.45)',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyTitle: {
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    textAlign: 'center',
+  },
+});
+
+BoardScreen.displayName = 'BoardScreen';
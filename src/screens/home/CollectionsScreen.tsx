@@ -1,5 +1,15 @@
 import React, { useState, useRef } from 'react';
-import { View, StyleSheet, FlatList, TouchableOpacity, Dimensions, Platform, Animated } from 'react-native';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Dimensions,
+  Platform,
+  Animated,
+  ScrollView,
+  Alert,
+} from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -10,31 +20,164 @@ import { MaterialCommunityIcons } from '@expo/vector-icons';
 const Icon = MaterialCommunityIcons;
 
 import { useAppTheme } from '../../hooks/useAppTheme';
-import { AppText, BottomNavigationBar } from '../../components';
+import { AppText, AppInput, BottomNavigationBar, BoardPickerSheet } from '../../components';
 import { GradientBackground } from '../../components';
 import { MainStackParamList } from '../../navigation/types';
 import { ROUTES } from '../../constants/routes';
 import { useTodayCollectionStore } from '../../stores/todayCollectionStore';
-import { OutfitSuggestion } from './WearTodayScreen';
+import { Board, boardEntryKey, useCollectionsStore } from '../../stores/collectionsStore';
+import { useAuthStore } from '../../features/authStore';
+import { useSnackbar } from '../../hooks/useSnackbar';
+import { OutfitSuggestion } from '../../models';
+import { formatDate } from '../../utils/date';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
 
-type TabType = 'accepted' | 'rejected';
+type TabType = 'accepted' | 'rejected' | 'boards';
 
 export const CollectionsScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
   const { colors, spacing, borderRadius, blur, isDark } = useAppTheme();
-  const { accepted, rejected } = useTodayCollectionStore();
+  const { accepted, rejected, archive } = useTodayCollectionStore();
+  const { user } = useAuthStore();
+  const { getBoards, createBoard, renameBoard, deleteBoard, moveBoard, addToBoard } =
+    useCollectionsStore();
+  const userId = user?.id ?? 'guest';
+  const boards = getBoards(userId);
+  const { showSnackbar } = useSnackbar();
   const [activeTab, setActiveTab] = useState<TabType>('accepted');
+  // null shows today; otherwise the date of an archived day
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [newBoardName, setNewBoardName] = useState('');
+  const [renaming, setRenaming] = useState<{ boardId: string; name: string } | null>(null);
+  // Suggestion picked by long press, waiting for a board to be chosen
+  const [pinning, setPinning] = useState<OutfitSuggestion | null>(null);
   const scrollY = useRef(new Animated.Value(0)).current;
 
-  const currentItems = activeTab === 'accepted' ? accepted : rejected;
+  const day = (selectedDate && archive.find((d) => d.date === selectedDate)) || {
+    accepted,
+    rejected,
+  };
+  const currentItems = activeTab === 'accepted' ? day.accepted : day.rejected;
+
+  const handleCreateBoard = () => {
+    try {
+      createBoard(userId, newBoardName);
+      setNewBoardName('');
+    } catch (error) {
+      showSnackbar((error as Error).message, 'error');
+    }
+  };
+
+  const handleRename = () => {
+    if (!renaming) return;
+    try {
+      renameBoard(userId, renaming.boardId, renaming.name);
+      setRenaming(null);
+    } catch (error) {
+      showSnackbar((error as Error).message, 'error');
+    }
+  };
+
+  const handleDelete = (board: Board) => {
+    Alert.alert('Delete board', `Delete "${board.name}"? The looks on it won't be affected.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => deleteBoard(userId, board.id),
+      },
+    ]);
+  };
+
+  const handlePin = (board: Board) => {
+    if (!pinning) return;
+    addToBoard(userId, board.id, { kind: 'suggestion', suggestion: pinning });
+    showSnackbar(`Added to ${board.name}`, 'success');
+    setPinning(null);
+  };
+
+  const renderBoard = ({ item, index }: { item: Board; index: number }) => {
+    const cover = item.entries.map((entry) =>
+      entry.kind === 'suggestion' ? entry.suggestion.imageUri : entry.imageUri
+    )[0];
+    const isRenaming = renaming?.boardId === item.id;
+
+    return (
+      <TouchableOpacity
+        activeOpacity={0.9}
+        disabled={isRenaming}
+        onPress={() => navigation.navigate(ROUTES.BOARD, { boardId: item.id })}
+        style={[
+          styles.boardRow,
+          {
+            borderRadius: borderRadius.xl,
+            borderColor: colors.glassBorder,
+            backgroundColor: colors.glassSurface,
+            padding: spacing.md,
+          },
+        ]}
+      >
+        {cover ? (
+          <Image source={{ uri: cover }} style={styles.boardCover} contentFit="cover" />
+        ) : (
+          <View style={[styles.boardCover, styles.boardCoverEmpty]}>
+            <Icon name="view-grid-outline" size={24} color={colors.textSecondary} />
+          </View>
+        )}
+        <View style={styles.boardInfo}>
+          {isRenaming ? (
+            <AppInput
+              value={renaming.name}
+              onChangeText={(name) => setRenaming({ boardId: item.id, name })}
+              onSubmitEditing={handleRename}
+              onBlur={() => setRenaming(null)}
+              returnKeyType="done"
+              autoFocus
+            />
+          ) : (
+            <>
+              <AppText variant="body" style={[styles.boardName, { color: colors.textPrimary }]}>
+                {item.name}
+              </AppText>
+              <AppText variant="caption" color={colors.textSecondary}>
+                {item.entries.length} {item.entries.length === 1 ? 'look' : 'looks'}
+              </AppText>
+            </>
+          )}
+        </View>
+        <View style={styles.boardActions}>
+          <TouchableOpacity
+            onPress={() => moveBoard(userId, item.id, index - 1)}
+            disabled={index === 0}
+            style={{ opacity: index === 0 ? 0.3 : 1 }}
+          >
+            <Icon name="chevron-up" size={22} color={colors.textPrimary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => moveBoard(userId, item.id, index + 1)}
+            disabled={index === boards.length - 1}
+            style={{ opacity: index === boards.length - 1 ? 0.3 : 1 }}
+          >
+            <Icon name="chevron-down" size={22} color={colors.textPrimary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setRenaming({ boardId: item.id, name: item.name })}>
+            <Icon name="pencil-outline" size={20} color={colors.textPrimary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleDelete(item)}>
+            <Icon name="trash-can-outline" size={20} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
 
   const renderItem = ({ item }: { item: OutfitSuggestion }) => {
     return (
       <TouchableOpacity
         activeOpacity={0.9}
+        onLongPress={() => setPinning(item)}
         style={[
           styles.card,
           {
@@ -124,6 +267,45 @@ export const CollectionsScreen: React.FC = () => {
           </TouchableOpacity>
         </View>
 
+        {/* Days */}
+        {archive.length > 0 && activeTab !== 'boards' && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.days}
+            contentContainerStyle={[styles.daysContent, { paddingHorizontal: spacing.xl }]}
+          >
+            {[null, ...archive.map((d) => d.date)].map((date) => {
+              const selected = date === selectedDate;
+              return (
+                <TouchableOpacity
+                  key={date ?? 'today'}
+                  activeOpacity={0.8}
+                  onPress={() => setSelectedDate(date)}
+                  style={[
+                    styles.dayChip,
+                    {
+                      borderColor: selected ? colors.accent : colors.glassBorder,
+                      borderRadius: borderRadius.full,
+                      backgroundColor: selected ? colors.accent + '20' : colors.glassSurface,
+                    },
+                  ]}
+                >
+                  <AppText
+                    variant="caption"
+                    style={[
+                      styles.dayText,
+                      { color: selected ? colors.accent : colors.textPrimary },
+                    ]}
+                  >
+                    {date ? formatDate(date) : 'Today'}
+                  </AppText>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+
         {/* Tabs */}
         <View style={[styles.tabs, { paddingHorizontal: spacing.xl }]}>
           <TouchableOpacity
@@ -152,7 +334,7 @@ export const CollectionsScreen: React.FC = () => {
                     { color: activeTab === 'accepted' ? colors.accent : colors.textPrimary }
                   ]}
                 >
-                  Liked ({accepted.length})
+                  Liked ({day.accepted.length})
                 </AppText>
               </BlurView>
             ) : (
@@ -164,7 +346,7 @@ export const CollectionsScreen: React.FC = () => {
                     { color: activeTab === 'accepted' ? colors.accent : colors.textPrimary }
                   ]}
                 >
-                  Liked ({accepted.length})
+                  Liked ({day.accepted.length})
                 </AppText>
               </View>
             )}
@@ -196,7 +378,7 @@ export const CollectionsScreen: React.FC = () => {
                     { color: activeTab === 'rejected' ? colors.error : colors.textPrimary }
                   ]}
                 >
-                  Not Liked ({rejected.length})
+                  Not Liked ({day.rejected.length})
                 </AppText>
               </BlurView>
             ) : (
@@ -208,7 +390,51 @@ export const CollectionsScreen: React.FC = () => {
                     { color: activeTab === 'rejected' ? colors.error : colors.textPrimary }
                   ]}
                 >
-                  Not Liked ({rejected.length})
+                  Not Liked ({day.rejected.length})
+                </AppText>
+              </View>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            activeOpacity={0.8}
+            onPress={() => setActiveTab('boards')}
+            style={[
+              styles.tab,
+              {
+                borderColor: activeTab === 'boards' ? colors.accent : colors.glassBorder,
+                borderRadius: borderRadius.full,
+                backgroundColor: activeTab === 'boards' ? colors.accent + '20' : 'transparent',
+              },
+              activeTab === 'boards' && { borderWidth: 2 },
+            ]}
+          >
+            {Platform.OS === 'ios' ? (
+              <BlurView
+                intensity={blur.medium}
+                tint={isDark ? 'dark' : 'light'}
+                style={styles.tabInner}
+              >
+                <AppText
+                  variant="body"
+                  style={[
+                    styles.tabText,
+                    { color: activeTab === 'boards' ? colors.accent : colors.textPrimary },
+                  ]}
+                >
+                  Boards ({boards.length})
+                </AppText>
+              </BlurView>
+            ) : (
+              <View style={[styles.tabInner, { backgroundColor: colors.glassSurface }]}>
+                <AppText
+                  variant="body"
+                  style={[
+                    styles.tabText,
+                    { color: activeTab === 'boards' ? colors.accent : colors.textPrimary },
+                  ]}
+                >
+                  Boards ({boards.length})
                 </AppText>
               </View>
             )}
@@ -216,7 +442,50 @@ export const CollectionsScreen: React.FC = () => {
         </View>
 
         {/* List */}
-        {currentItems.length === 0 ? (
+        {activeTab === 'boards' ? (
+          <Animated.FlatList
+            data={boards}
+            renderItem={renderBoard}
+            keyExtractor={(board) => board.id}
+            contentContainerStyle={[styles.list, { padding: spacing.lg }]}
+            showsVerticalScrollIndicator={false}
+            ListHeaderComponent={
+              <View style={[styles.createBoard, { gap: spacing.sm }]}>
+                <AppInput
+                  placeholder="New board, e.g. Wedding season"
+                  value={newBoardName}
+                  onChangeText={setNewBoardName}
+                  onSubmitEditing={handleCreateBoard}
+                  returnKeyType="done"
+                  containerStyle={styles.createBoardInput}
+                />
+                <TouchableOpacity
+                  onPress={handleCreateBoard}
+                  disabled={!newBoardName.trim()}
+                  style={[
+                    styles.createBoardButton,
+                    {
+                      backgroundColor: colors.accent,
+                      borderRadius: borderRadius.full,
+                      opacity: newBoardName.trim() ? 1 : 0.5,
+                    },
+                  ]}
+                >
+                  <Icon name="plus" size={24} color="#fff" />
+                </TouchableOpacity>
+              </View>
+            }
+            ListEmptyComponent={
+              <AppText variant="body" color={colors.textSecondary} style={styles.emptySubtitle}>
+                Create a board to group looks you love. Long-press any liked outfit to add it.
+              </AppText>
+            }
+            onScroll={Animated.event([{ nativeEvent: { contentOffset: { y: scrollY } } }], {
+              useNativeDriver: false,
+            })}
+            scrollEventThrottle={16}
+          />
+        ) : currentItems.length === 0 ? (
           <View style={styles.emptyState}>
             <Icon
               name={activeTab === 'accepted' ? 'heart-outline' : 'heart-off-outline'}
@@ -227,9 +496,11 @@ export const CollectionsScreen: React.FC = () => {
               No {activeTab === 'accepted' ? 'Liked' : 'Rejected'} Outfits
             </AppText>
             <AppText variant="body" color={colors.textSecondary} style={styles.emptySubtitle}>
-              {activeTab === 'accepted'
-                ? "You haven't liked any outfits yet"
-                : "You haven't rejected any outfits yet"}
+              {selectedDate
+                ? `You didn't ${activeTab === 'accepted' ? 'like' : 'reject'} any outfits that day`
+                : activeTab === 'accepted'
+                  ? "You haven't liked any outfits yet"
+                  : "You haven't rejected any outfits yet"}
             </AppText>
           </View>
         ) : (
@@ -250,6 +521,18 @@ export const CollectionsScreen: React.FC = () => {
 
         {/* Bottom Navigation Bar */}
         <BottomNavigationBar scrollY={scrollY} showOnScrollUp={true} />
+
+        <BoardPickerSheet
+          visible={pinning !== null}
+          title="Add to Board"
+          boards={boards}
+          entryKey={
+            pinning ? boardEntryKey({ kind: 'suggestion', suggestion: pinning }) : undefined
+          }
+          onSelect={handlePin}
+          onCreate={(name) => createBoard(userId, name)}
+          onClose={() => setPinning(null)}
+        />
       </SafeAreaView>
     </GradientBackground>
   );
@@ -281,6 +564,21 @@ const styles = StyleSheet.create({
     fontSize: 32,
     letterSpacing: -0.5,
   },
+  days: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  daysContent: {
+    gap: 8,
+  },
+  dayChip: {
+    borderWidth: 1.5,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+  },
+  dayText: {
+    fontWeight: '700',
+  },
   tabs: {
     flexDirection: 'row',
     gap: 12,
@@ -369,6 +667,49 @@ const styles = StyleSheet.create({
   badgeReject: {
     backgroundColor: 'rgba(239,68,68,0.95)',
   },
+  createBoard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  createBoardInput: {
+    flex: 1,
+  },
+  createBoardButton: {
+    width: 48,
+    height: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  boardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1.5,
+    marginBottom: 12,
+    gap: 12,
+  },
+  boardCover: {
+    width: 56,
+    height: 56,
+    borderRadius: 12,
+  },
+  boardCoverEmpty: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(127,127,127,0.15)',
+  },
+  boardInfo: {
+    flex: 1,
+  },
+  boardName: {
+    fontWeight: '800',
+    marginBottom: 2,
+  },
+  boardActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
   emptyState: {
     flex: 1,
     alignItems: 'center',
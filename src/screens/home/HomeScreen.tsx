@@ -12,179 +12,50 @@ const Icon = MaterialCommunityIcons;
 import { useAppTheme } from '../../hooks/useAppTheme';
 import { AppText } from '../../components/AppText';
 import { SwipeableCard } from '../../components/SwipeableCard';
+import { DeckEndState } from '../../components/DeckEndState';
 import { MainStackParamList } from '../../navigation/types';
 import { ROUTES } from '../../constants/routes';
 import { useTodayCollectionStore } from '../../stores/todayCollectionStore';
+import { useSuggestionFeed } from '../../hooks/useSuggestionFeed';
+import { OutfitSuggestion } from '../../models';
+import { usePreferenceStore } from '../../stores/preferenceStore';
+import { useAuthStore } from '../../features/authStore';
+import {
+  explainPreference,
+  preferenceWeights,
+  suggestionFeatures,
+} from '../../utils/preferenceModel';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
 
-export interface OutfitSuggestion {
-  id: string;
-  imageUri: string;
-  title: string;
-  subtitle: string;
-  handle: string;
-  reason: string;
-  bgGradient: [string, string, string];
-  isAccepted?: boolean;
-  isRejected?: boolean;
-}
-
-// Image URLs are already optimized
-
-const mockOutfits: OutfitSuggestion[] = [
-  {
-    id: '1',
-    imageUri: 'https://images.unsplash.com/photo-1520975916090-3105956dac38?w=1000&auto=format&fit=crop&q=80',
-    title: 'Body language',
-    subtitle: 'with maya daryen',
-    handle: '@maya.daryen',
-    reason: 'Hot day + Casual + Light fabric',
-    bgGradient: ['#B9B0AC', '#C7C0BD', '#D8D6D3'],
-  },
-  {
-    id: '2',
-    imageUri: 'https://images.unsplash.com/photo-1509631179647-0177331693ae?w=1000&auto=format&fit=crop&q=80',
-    title: 'Office Ready',
-    subtitle: 'polished silhouette',
-    handle: '@workwear.daily',
-    reason: 'Work day + Smart + Comfortable',
-    bgGradient: ['#B7B1B2', '#CFC8C9', '#EAE6E6'],
-  },
-  {
-    id: '3',
-    imageUri: 'https://images.unsplash.com/photo-1520975732144-442d66dffb6e?w=1000&auto=format&fit=crop&q=80',
-    title: 'Layered Comfort',
-    subtitle: 'transitional fit',
-    handle: '@layers.club',
-    reason: 'Cool day + Versatile + Layered',
-    bgGradient: ['#B8B7B4', '#D2D1CD', '#F0EFEC'],
-  },
-  {
-    id: '4',
-    imageUri: 'https://images.unsplash.com/photo-1520975867722-01286f6abf7d?w=1000&auto=format&fit=crop&q=80',
-    title: 'Bold Statement',
-    subtitle: 'make an impact',
-    handle: '@bold.room',
-    reason: 'Special + Bold + Confident',
-    bgGradient: ['#B9B2B8', '#D4CFD6', '#F1EEF3'],
-  },
-  {
-    id: '5',
-    imageUri: 'https://images.unsplash.com/photo-1520975747456-4097f9c2a5c2?w=1000&auto=format&fit=crop&q=80',
-    title: 'Evening Elegance',
-    subtitle: 'date-night glow',
-    handle: '@night.edit',
-    reason: 'Evening + Date + Elegant',
-    bgGradient: ['#B5B2B0', '#CDC7C4', '#EEEAE7'],
-  },
-  {
-    id: '6',
-    imageUri: 'https://images.unsplash.com/photo-1520975904416-6fd35a5a8e3a?w=1000&auto=format&fit=crop&q=80',
-    title: 'Summer Breeze',
-    subtitle: 'light drape',
-    handle: '@summer.set',
-    reason: 'Sunny + Casual + Airy',
-    bgGradient: ['#B8C6D4', '#D5E0EA', '#F3F6FA'],
-  },
-  {
-    id: '7',
-    imageUri: 'https://images.unsplash.com/photo-1520975833856-63c8c9e98a4a?w=1000&auto=format&fit=crop&q=80',
-    title: 'Street Clean',
-    subtitle: 'quiet luxury',
-    handle: '@street.clean',
-    reason: 'City + Neutral + Crisp',
-    bgGradient: ['#B9B7C0', '#D7D5DF', '#F4F3F7'],
-  },
-  {
-    id: '8',
-    imageUri: 'https://images.unsplash.com/photo-1515886657613-9f3515b0c78f?w=1000&auto=format&fit=crop&q=80',
-    title: 'Minimalist Chic',
-    subtitle: 'less is more',
-    handle: '@studio.line',
-    reason: 'Any day + Minimal + Timeless',
-    bgGradient: ['#BFC7D1', '#D7DCE3', '#F0F1F3'],
-  },
-  {
-    id: '9',
-    imageUri: 'https://images.unsplash.com/photo-1490481651871-ab68de25d43d?w=1000&auto=format&fit=crop&q=80',
-    title: 'Weekend Vibes',
-    subtitle: 'relaxed comfort',
-    handle: '@weekend.mode',
-    reason: 'Weekend + Casual + Cozy',
-    bgGradient: ['#C4B5A0', '#D4C7B5', '#E8DFD1'],
-  },
-  {
-    id: '10',
-    imageUri: 'https://images.unsplash.com/photo-1515372039744-b8f02a3ae446?w=1000&auto=format&fit=crop&q=80',
-    title: 'Athletic Edge',
-    subtitle: 'sporty elegance',
-    handle: '@active.style',
-    reason: 'Active + Sporty + Functional',
-    bgGradient: ['#A8B5C0', '#C0D0DB', '#E0E8ED'],
-  },
-  {
-    id: '11',
-    imageUri: 'https://images.unsplash.com/photo-1539533018447-63fcce2678e3?w=1000&auto=format&fit=crop&q=80',
-    title: 'Bohemian Flow',
-    subtitle: 'free spirit',
-    handle: '@boho.life',
-    reason: 'Festival + Free + Flowy',
-    bgGradient: ['#D4B8A8', '#E4CCC0', '#F4E6DC'],
-  },
-  {
-    id: '12',
-    imageUri: 'https://images.unsplash.com/photo-1506629905607-2c8c0a5c0a8a?w=1000&auto=format&fit=crop&q=80',
-    title: 'Classic Tailored',
-    subtitle: 'timeless elegance',
-    handle: '@classic.cut',
-    reason: 'Formal + Tailored + Professional',
-    bgGradient: ['#9FA4A8', '#B8BDC2', '#D8DCE0'],
-  },
-  {
-    id: '13',
-    imageUri: 'https://images.unsplash.com/photo-1483985988355-763728e1935b?w=1000&auto=format&fit=crop&q=80',
-    title: 'Urban Explorer',
-    subtitle: 'city wanderer',
-    handle: '@urban.walk',
-    reason: 'City + Practical + Stylish',
-    bgGradient: ['#B2AFA8', '#CBC8C0', '#E8E6DF'],
-  },
-  {
-    id: '14',
-    imageUri: 'https://images.unsplash.com/photo-1469334031218-e382a71b716b?w=1000&auto=format&fit=crop&q=80',
-    title: 'Romantic Blush',
-    subtitle: 'soft femininity',
-    handle: '@romance.edit',
-    reason: 'Date + Romantic + Delicate',
-    bgGradient: ['#E8C4C0', '#F0D4D0', '#F8E4E0'],
-  },
-  {
-    id: '15',
-    imageUri: 'https://images.unsplash.com/photo-1434389677669-e08b4cac3105?w=1000&auto=format&fit=crop&q=80',
-    title: 'Monochrome Magic',
-    subtitle: 'black & white',
-    handle: '@mono.studio',
-    reason: 'Any occasion + Classic + Bold',
-    bgGradient: ['#6B6B6B', '#8B8B8B', '#B0B0B0'],
-  },
-];
+// Shown until the user has swiped enough for the preference model to explain a card
+const WHY_FALLBACK =
+  'Picked for today. Swipe right on looks you like and left on the rest to personalize this deck.';
 
 const HomeScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
   const { colors, spacing, borderRadius, blur } = useAppTheme();
   const { addAccepted, addRejected, removeAccepted, removeRejected } = useTodayCollectionStore();
+  const { user } = useAuthStore();
+  const { models, recordSwipe, undoSwipe } = usePreferenceStore();
+  const userId = user?.id ?? 'guest';
 
-  const [outfits, setOutfits] = useState<OutfitSuggestion[]>(mockOutfits);
   const [activeIndex, setActiveIndex] = useState(0);
-  const [history, setHistory] = useState<Array<{ item: OutfitSuggestion; index: number; action: 'left' | 'right' }>>([]);
+  const { outfits, setOutfits, hasMore, isFetching, error, reload } = useSuggestionFeed(
+    userId,
+    activeIndex
+  );
+  const [history, setHistory] = useState<
+    Array<{ item: OutfitSuggestion; index: number; action: 'left' | 'right' }>
+  >([]);
   const [likeZoneOpacity, setLikeZoneOpacity] = useState(0);
   const [nopeZoneOpacity, setNopeZoneOpacity] = useState(0);
-  
+
   const isSwipingRef = useRef(false);
   const swipeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const swipeProgressRef = useRef(0);
+  const [showWhy, setShowWhy] = useState(false);
 
   // Prefetch images asynchronously - preload more images for smoother transitions
   useEffect(() => {
@@ -200,7 +71,9 @@ const HomeScreen: React.FC = () => {
         }
         // Prefetch remaining cards
         if (urls.length > 1) {
-          await Promise.all(urls.slice(1).map(url => Image.prefetch(url, { priority: 'normal' }).catch(() => {})));
+          await Promise.all(
+            urls.slice(1).map((url) => Image.prefetch(url, { priority: 'normal' }).catch(() => {}))
+          );
         }
       } catch (error) {
         // Silently fail
@@ -220,7 +93,7 @@ const HomeScreen: React.FC = () => {
     if (swipeTimeoutRef.current) {
       clearTimeout(swipeTimeoutRef.current);
     }
-    
+
     // Update index immediately
     setActiveIndex((prev) => {
       const next = Math.min(prev + 1, outfits.length - 1);
@@ -237,11 +110,11 @@ const HomeScreen: React.FC = () => {
     // Tắt vùng màu neon ngay lập tức
     setLikeZoneOpacity(0);
     setNopeZoneOpacity(0);
-    
+
     // Prevent multiple simultaneous swipes
     if (isSwipingRef.current) return;
     isSwipingRef.current = true;
-    
+
     const currentIndex = activeIndex;
     const current = outfits[currentIndex];
     if (!current) {
@@ -251,8 +124,9 @@ const HomeScreen: React.FC = () => {
 
     // Add to rejected collection
     addRejected(current);
+    recordSwipe(userId, current, false);
     setHistory((prev) => [...prev, { item: current, index: currentIndex, action: 'left' }]);
-    
+
     // Delay removal để animation mượt hơn - đợi card animate ra ngoài xong mới xóa
     setTimeout(() => {
       setOutfits((prev) => {
@@ -272,22 +146,22 @@ const HomeScreen: React.FC = () => {
         }
         return newList;
       });
-      
+
       // Reset swiping flag after removal
       isSwipingRef.current = false;
     }, 260); // Slightly longer than animation duration (250ms)
-  }, [activeIndex, outfits, addRejected]);
+  }, [activeIndex, outfits, addRejected, recordSwipe, userId]);
 
   // Fixed onRight - remove from list and add to accepted collection
   const onRight = useCallback(() => {
     // Tắt vùng màu neon ngay lập tức
     setLikeZoneOpacity(0);
     setNopeZoneOpacity(0);
-    
+
     // Prevent multiple simultaneous swipes
     if (isSwipingRef.current) return;
     isSwipingRef.current = true;
-    
+
     const currentIndex = activeIndex;
     const current = outfits[currentIndex];
     if (!current) {
@@ -297,8 +171,9 @@ const HomeScreen: React.FC = () => {
 
     // Add to accepted collection
     addAccepted(current);
+    recordSwipe(userId, current, true);
     setHistory((prev) => [...prev, { item: current, index: currentIndex, action: 'right' }]);
-    
+
     // Delay removal để animation mượt hơn - đợi card animate ra ngoài xong mới xóa
     setTimeout(() => {
       setOutfits((prev) => {
@@ -318,15 +193,15 @@ const HomeScreen: React.FC = () => {
         }
         return newList;
       });
-      
+
       // Reset swiping flag after removal
       isSwipingRef.current = false;
     }, 260); // Slightly longer than animation duration (250ms)
-  }, [activeIndex, outfits, addAccepted]);
+  }, [activeIndex, outfits, addAccepted, recordSwipe, userId]);
 
   const undo = useCallback(() => {
     if (!history.length) return;
-    
+
     const last = history[history.length - 1];
     const item = last.item;
     if (!item) return;
@@ -337,6 +212,7 @@ const HomeScreen: React.FC = () => {
     } else {
       removeRejected(item.id);
     }
+    undoSwipe(userId, item, last.action === 'right');
 
     // Add back to main list at the original position
     setOutfits((prev) => {
@@ -351,28 +227,25 @@ const HomeScreen: React.FC = () => {
     setActiveIndex(last.index);
     // Reset swiping flag
     isSwipingRef.current = false;
-  }, [history, removeAccepted, removeRejected]);
+  }, [history, removeAccepted, removeRejected, undoSwipe, userId]);
 
   const next = useCallback(() => {
     navigation.navigate(ROUTES.COLLECTIONS);
   }, [navigation]);
 
   // Only render up to 7 cards in stack for performance
-  const visibleCards = useMemo(
-    () => {
-      const maxCards = 7;
-      const cards = outfits.slice(activeIndex, activeIndex + maxCards);
-      return cards;
-    },
-    [outfits, activeIndex]
-  );
+  const visibleCards = useMemo(() => {
+    const maxCards = 7;
+    const cards = outfits.slice(activeIndex, activeIndex + maxCards);
+    return cards;
+  }, [outfits, activeIndex]);
 
   // Handle swipe progress to update zone opacity
   const handleSwipeProgress = useCallback((dx: number) => {
     const threshold = SCREEN_WIDTH * 0.25 * 0.5; // 50% of swipe threshold
     const maxOpacity = 0.6;
     swipeProgressRef.current = dx;
-    
+
     if (dx > threshold) {
       // Swiping right
       const progress = (dx - threshold) / (SCREEN_WIDTH * 0.25 - threshold);
@@ -391,6 +264,19 @@ const HomeScreen: React.FC = () => {
     }
   }, []);
 
+  // Why the active card is in the deck, based on what the user has swiped before
+  const whyReasons = useMemo(
+    () =>
+      active
+        ? explainPreference(suggestionFeatures(active), preferenceWeights(models[userId]))
+        : [],
+    [active, models, userId]
+  );
+
+  useEffect(() => {
+    setShowWhy(false);
+  }, [activeIndex]);
+
   // Reset zone opacity when swipe ends
   useEffect(() => {
     if (!isSwipingRef.current) {
@@ -399,24 +285,14 @@ const HomeScreen: React.FC = () => {
     }
   }, [activeIndex]);
 
-  // Reset list function - restore all items from collections
+  // Reset list function - clear collections and start the feed over
   const resetList = useCallback(() => {
-    const { accepted, rejected } = useTodayCollectionStore.getState();
-    // Get all items from collections
-    const allItems = [...accepted, ...rejected];
-    // Reset collections
     useTodayCollectionStore.getState().clearAll();
-    // Restore all items to main list (original order)
-    const restoredItems = [...allItems];
-    // Add any remaining mock items that weren't in collections
-    const remainingMockItems = mockOutfits.filter(
-      o => !allItems.find(item => item.id === o.id)
-    );
-    setOutfits([...restoredItems, ...remainingMockItems]);
     setActiveIndex(0);
     setHistory([]);
     isSwipingRef.current = false;
-  }, []);
+    reload();
+  }, [reload]);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -440,18 +316,9 @@ const HomeScreen: React.FC = () => {
           />
           {/* Blur effect for background */}
           {Platform.OS === 'ios' ? (
-            <BlurView
-              intensity={24}
-              tint="dark"
-              style={StyleSheet.absoluteFill}
-            />
+            <BlurView intensity={24} tint="dark" style={StyleSheet.absoluteFill} />
           ) : (
-            <View
-              style={[
-                StyleSheet.absoluteFill,
-                { backgroundColor: 'rgba(0,0,0,0.12)' },
-              ]}
-            />
+            <View style={[StyleSheet.absoluteFill, { backgroundColor: 'rgba(0,0,0,0.12)' }]} />
           )}
           {/* Original gradient overlay (reverted darkness) */}
           <LinearGradient
@@ -554,7 +421,11 @@ const HomeScreen: React.FC = () => {
               style={[styles.pill, { borderColor: colors.glassBorder }]}
             >
               {Platform.OS === 'ios' ? (
-                <BlurView intensity={blur.medium} tint="light" style={[styles.pillInner, styles.pillNext]}>
+                <BlurView
+                  intensity={blur.medium}
+                  tint="light"
+                  style={[styles.pillInner, styles.pillNext]}
+                >
                   <AppText overlay variant="body" style={styles.pillNextText}>
                     Next →
                   </AppText>
@@ -570,12 +441,38 @@ const HomeScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Why am I seeing this */}
+        {active && (
+          <View style={styles.why} pointerEvents="box-none">
+            <TouchableOpacity activeOpacity={0.8} onPress={() => setShowWhy((prev) => !prev)}>
+              <AppText overlay variant="caption" style={styles.whyLink}>
+                {showWhy ? 'Hide' : 'Why am I seeing this?'}
+              </AppText>
+            </TouchableOpacity>
+            {showWhy && (
+              <View style={[styles.whyPanel, { borderColor: colors.glassBorder }]}>
+                {(whyReasons.length > 0 ? whyReasons : [WHY_FALLBACK]).map((line) => (
+                  <AppText key={line} overlay variant="caption" style={styles.whyText}>
+                    {line}
+                  </AppText>
+                ))}
+                <AppText overlay muted variant="caption" style={styles.whyText}>
+                  Because: {active.reason}
+                </AppText>
+              </View>
+            )}
+          </View>
+        )}
+
         {/* Undo Button */}
         {history.length > 0 && (
           <TouchableOpacity
             activeOpacity={0.8}
             onPress={undo}
-            style={[styles.undo, { borderColor: colors.glassBorder, borderRadius: borderRadius.full }]}
+            style={[
+              styles.undo,
+              { borderColor: colors.glassBorder, borderRadius: borderRadius.full },
+            ]}
           >
             {Platform.OS === 'ios' ? (
               <BlurView intensity={blur.medium} tint="light" style={styles.undoInner}>
@@ -618,57 +515,16 @@ const HomeScreen: React.FC = () => {
             })}
           </View>
         ) : (
-          <View style={[styles.cardZone, styles.emptyState]}>
-            <AppText overlay variant="h1" style={styles.emptyTitle}>
-              All Done! 🎉
-            </AppText>
-            <AppText overlay muted variant="body" style={styles.emptySubtitle}>
-              You've reviewed all outfits for today
-            </AppText>
-            <View style={styles.emptyActions}>
-              <TouchableOpacity
-                activeOpacity={0.8}
-                onPress={next}
-                style={[styles.pill, { borderColor: colors.glassBorder, marginRight: 12 }]}
-              >
-                {Platform.OS === 'ios' ? (
-                  <BlurView intensity={blur.medium} tint="light" style={[styles.pillInner, styles.pillNext]}>
-                    <AppText overlay variant="body" style={styles.pillNextText}>
-                      View Collections →
-                    </AppText>
-                  </BlurView>
-                ) : (
-                  <View style={[styles.pillInner, styles.pillAndroid, styles.pillNext]}>
-                    <AppText overlay variant="body" style={styles.pillNextText}>
-                      View Collections →
-                    </AppText>
-                  </View>
-                )}
-              </TouchableOpacity>
-              
-              <TouchableOpacity
-                activeOpacity={0.8}
-                onPress={resetList}
-                style={[styles.pill, { borderColor: colors.glassBorder }]}
-              >
-                {Platform.OS === 'ios' ? (
-                  <BlurView intensity={blur.medium} tint="light" style={[styles.pillInner, styles.pillNext]}>
-                    <AppText overlay variant="body" style={styles.pillNextText}>
-                      Reset List ↻
-                    </AppText>
-                  </BlurView>
-                ) : (
-                  <View style={[styles.pillInner, styles.pillAndroid, styles.pillNext]}>
-                    <AppText overlay variant="body" style={styles.pillNextText}>
-                      Reset List ↻
-                    </AppText>
-                  </View>
-                )}
-              </TouchableOpacity>
-            </View>
-          </View>
+          <DeckEndState
+            isFetching={isFetching}
+            hasMore={hasMore}
+            error={error}
+            onRetry={reload}
+            onViewCollections={next}
+            onReset={resetList}
+            style={styles.cardZone}
+          />
         )}
-
       </SafeAreaView>
     </View>
   );
@@ -724,6 +580,25 @@ const styles = StyleSheet.create({
     fontWeight: '900',
     fontSize: 15,
   },
+  why: {
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    zIndex: 150,
+  },
+  whyLink: {
+    fontWeight: '700',
+    textDecorationLine: 'underline',
+  },
+  whyPanel: {
+    marginTop: 8,
+    padding: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    backgroundColor: 'rgba(0,0,0,0.45)',
+  },
+  whyText: {
+    marginBottom: 4,
+  },
   undo: {
     position: 'absolute',
     left: 20,
@@ -754,26 +629,6 @@ const styles = StyleSheet.create({
     paddingTop: 20,
     paddingBottom: 40,
   },
-  emptyState: {
-    paddingBottom: 0,
-  },
-  emptyTitle: {
-    fontWeight: '900',
-    fontSize: 32,
-    marginBottom: 12,
-    textAlign: 'center',
-  },
-  emptySubtitle: {
-    fontSize: 16,
-    textAlign: 'center',
-    paddingHorizontal: 40,
-    marginBottom: 24,
-  },
-  emptyActions: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
   neonZoneScreen: {
     position: 'absolute',
     top: 0,
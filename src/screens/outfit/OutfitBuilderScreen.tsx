@@ -0,0 +1,375 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, ScrollView, Image, TouchableOpacity, Text } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import * as Location from 'expo-location';
+import { useAppTheme } from '../../hooks/useAppTheme';
+import {
+  AppText,
+  AppButton,
+  AppCard,
+  AppInput,
+  TagChip,
+  GradientBackground,
+} from '../../components';
+import { ROUTES } from '../../constants/routes';
+import { MainStackParamList } from '../../navigation/types';
+import {
+  spacing as spacingConstants,
+  borderRadius as borderRadiusConstants,
+} from '../../constants/theme';
+import { useAuthStore } from '../../features/authStore';
+import { useClosetStore } from '../../features/closetStore';
+import { useOutfitStore } from '../../features/outfitStore';
+import { useProfileStore } from '../../features/profileStore';
+import { useSnackbar } from '../../hooks/useSnackbar';
+import { weatherService } from '../../services/weatherService';
+import { BUILT_IN_OCCASIONS, DRESS_CODES } from '../../constants/dressCodes';
+import { ClosetItem, OccasionId, OutfitItemSlot, WeatherContext } from '../../models';
+import {
+  SLOT_CATEGORIES,
+  SLOT_ORDER,
+  SlotName,
+  validateOutfitSlots,
+} from '../../utils/outfitEngine';
+import { getItemImageUri } from '../../utils/itemImages';
+
+type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
+
+// Used when location is unavailable, matching the generator's defaults
+const DEFAULT_WEATHER: WeatherContext = { temperature: 22, isRaining: false };
+
+// Picking one of these clears the slots it can't be worn with
+const CONFLICTING_SLOTS: Partial<Record<SlotName, SlotName[]>> = {
+  dress: ['top', 'bottom'],
+  top: ['dress'],
+  bottom: ['dress'],
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export const OutfitBuilderScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const { user } = useAuthStore();
+  const { items, fetchItems } = useClosetStore();
+  const { createOutfit, isLoading } = useOutfitStore();
+  const { profile } = useProfileStore();
+  const { showSnackbar } = useSnackbar();
+  const { colors, spacing, borderRadius } = useAppTheme();
+
+  const [name, setName] = useState('');
+  const [occasion, setOccasion] = useState<OccasionId>('casual');
+  const [weather, setWeather] = useState<WeatherContext>(DEFAULT_WEATHER);
+  const [selection, setSelection] = useState<Partial<Record<SlotName, ClosetItem>>>({});
+  const [activeSlot, setActiveSlot] = useState<SlotName | null>('top');
+
+  useEffect(() => {
+    if (user && items.length === 0) {
+      fetchItems(user.id);
+    }
+    loadWeather();
+  }, [user]);
+
+  // Only uses location when already granted; the builder shouldn't prompt for it
+  const loadWeather = async () => {
+    try {
+      const { status } = await Location.getForegroundPermissionsAsync();
+      if (status !== 'granted') return;
+      const location = await Location.getCurrentPositionAsync({});
+      const response = await weatherService.getCurrentConditions({
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+      });
+      setWeather(response.data);
+    } catch (error) {
+      setWeather(DEFAULT_WEATHER);
+    }
+  };
+
+  const occasions = [
+    ...BUILT_IN_OCCASIONS.map((id) => DRESS_CODES[id]),
+    ...(profile?.customOccasions ?? []),
+  ];
+
+  const slots: OutfitItemSlot[] = useMemo(
+    () =>
+      SLOT_ORDER.flatMap((slot) => {
+        const item = selection[slot];
+        return item ? [{ slot, itemId: item.id, item }] : [];
+      }),
+    [selection]
+  );
+  const problems = useMemo(() => validateOutfitSlots(slots), [slots]);
+
+  const pickerItems = useMemo(
+    () =>
+      activeSlot ? items.filter((item) => SLOT_CATEGORIES[activeSlot].includes(item.category)) : [],
+    [items, activeSlot]
+  );
+
+  const handlePick = (slot: SlotName, item: ClosetItem) => {
+    setSelection((current) => {
+      const next = { ...current, [slot]: item };
+      CONFLICTING_SLOTS[slot]?.forEach((conflict) => delete next[conflict]);
+      return next;
+    });
+    setActiveSlot(null);
+  };
+
+  const handleClear = (slot: SlotName) => {
+    setSelection((current) => {
+      const next = { ...current };
+      delete next[slot];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user || problems.length > 0) return;
+
+    try {
+      const outfit = await createOutfit(user.id, {
+        name,
+        occasion,
+        weather,
+        items: slots.map(({ slot, itemId }) => ({ slot, itemId })),
+      });
+      showSnackbar('Outfit saved', 'success');
+      navigation.replace(ROUTES.OUTFIT_DETAIL, { outfitId: outfit.id });
+    } catch (error) {
+      showSnackbar((error as Error).message, 'error');
+    }
+  };
+
+  const renderSlot = (slot: SlotName) => {
+    const item = selection[slot];
+    const isActive = activeSlot === slot;
+
+    return (
+      <AppCard
+        key={slot}
+        variant="glass"
+        style={StyleSheet.flatten([
+          styles.slotCard,
+          { marginBottom: spacing.sm, borderWidth: 1 },
+          { borderColor: isActive ? colors.accent : 'transparent' },
+        ])}
+      >
+        <TouchableOpacity
+          style={styles.slotRow}
+          onPress={() => setActiveSlot(isActive ? null : slot)}
+          activeOpacity={0.8}
+        >
+          {item ? (
+            <Image
+              source={{ uri: getItemImageUri(item, 'thumbnail') }}
+              style={[styles.slotImage, { borderRadius: borderRadius.sm }]}
+            />
+          ) : (
+            <View
+              style={[
+                styles.slotImage,
+                styles.slotEmpty,
+                { borderRadius: borderRadius.sm, borderColor: colors.glassBorder },
+              ]}
+            >
+              <Text style={[styles.slotPlus, { color: colors.textSecondary }]}>+</Text>
+            </View>
+          )}
+          <View style={[styles.slotText, { marginLeft: spacing.md }]}>
+            <AppText variant="body" style={{ fontWeight: '600' }}>
+              {capitalize(slot)}
+            </AppText>
+            <AppText variant="caption" color={colors.textSecondary}>
+              {item
+                ? item.colors.join(', ') || capitalize(item.category)
+                : 'Choose from your closet'}
+            </AppText>
+          </View>
+          {item && (
+            <TouchableOpacity onPress={() => handleClear(slot)} style={styles.clearButton}>
+              <Text style={[styles.clearIcon, { color: colors.textSecondary }]}>×</Text>
+            </TouchableOpacity>
+          )}
+        </TouchableOpacity>
+
+        {isActive && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={{ gap: spacing.sm, paddingTop: spacing.md }}
+          >
+            {pickerItems.length === 0 ? (
+              <AppText variant="caption" color={colors.textSecondary}>
+                No {SLOT_CATEGORIES[slot].join(' or ')} items in your closet yet
+              </AppText>
+            ) : (
+              pickerItems.map((candidate) => (
+                <TouchableOpacity
+                  key={candidate.id}
+                  onPress={() => handlePick(slot, candidate)}
+                  activeOpacity={0.8}
+                >
+                  <Image
+                    source={{ uri: getItemImageUri(candidate, 'thumbnail') }}
+                    style={[
+                      styles.pickerImage,
+                      {
+                        borderRadius: borderRadius.md,
+                        borderColor: item?.id === candidate.id ? colors.accent : colors.glassBorder,
+                      },
+                    ]}
+                  />
+                </TouchableOpacity>
+              ))
+            )}
+          </ScrollView>
+        )}
+      </AppCard>
+    );
+  };
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={[styles.header, { paddingHorizontal: spacing.lg, paddingTop: spacing.lg }]}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <Text style={[styles.backIcon, { color: colors.textPrimary }]}>←</Text>
+          </TouchableOpacity>
+          <AppText variant="h1" style={{ fontWeight: '700' }}>
+            Build Outfit
+          </AppText>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView
+          contentContainerStyle={{ padding: spacing.lg, paddingBottom: spacing.xxl }}
+          showsVerticalScrollIndicator={false}
+        >
+          <AppInput
+            label="Name"
+            placeholder="e.g. Monday meetings"
+            value={name}
+            onChangeText={setName}
+            containerStyle={{ marginBottom: spacing.lg }}
+          />
+
+          <AppText variant="body" style={[styles.label, { marginBottom: spacing.sm }]}>
+            Occasion
+          </AppText>
+          <View style={[styles.chipRow, { gap: spacing.sm, marginBottom: spacing.lg }]}>
+            {occasions.map((code) => (
+              <TagChip
+                key={code.id}
+                label={code.label}
+                selected={occasion === code.id}
+                onPress={() => setOccasion(code.id)}
+              />
+            ))}
+          </View>
+
+          <AppText variant="body" style={[styles.label, { marginBottom: spacing.sm }]}>
+            Pieces
+          </AppText>
+          {SLOT_ORDER.map(renderSlot)}
+
+          {slots.length > 0 && problems.length > 0 && (
+            <View style={{ marginTop: spacing.sm }}>
+              {problems.map((problem) => (
+                <AppText key={problem} variant="caption" color={colors.error}>
+                  • {problem}
+                </AppText>
+              ))}
+            </View>
+          )}
+
+          <AppButton
+            label="Save Outfit"
+            onPress={handleSave}
+            loading={isLoading}
+            disabled={problems.length > 0}
+            style={{ marginTop: spacing.xl }}
+          />
+        </ScrollView>
+      </SafeAreaView>
+    </GradientBackground>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacingConstants.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: borderRadiusConstants.full,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  backIcon: {
+    fontSize: 24,
+    fontWeight: '300',
+  },
+  placeholder: {
+    width: 40,
+  },
+  label: {
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  slotCard: {
+    padding: spacingConstants.md,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  slotImage: {
+    width: 56,
+    height: 56,
+    backgroundColor: '#F5F5F5',
+  },
+  slotEmpty: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    backgroundColor: 'transparent',
+  },
+  slotPlus: {
+    fontSize: 24,
+    fontWeight: '300',
+  },
+  slotText: {
+    flex: 1,
+  },
+  clearButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  clearIcon: {
+    fontSize: 22,
+  },
+  pickerImage: {
+    width: 72,
+    height: 72,
+    borderWidth: 2,
+    backgroundColor: '#F5F5F5',
+  },
+});
+
+OutfitBuilderScreen.displayName = 'OutfitBuilderScreen';
@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, Text } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import * as Sharing from 'expo-sharing';
+import { useAppTheme } from '../../hooks/useAppTheme';
+import {
+  AppText,
+  AppButton,
+  FlatLayCanvas,
+  LoadingSpinner,
+  GradientBackground,
+} from '../../components';
+import { ROUTES } from '../../constants/routes';
+import { MainStackParamList } from '../../navigation/types';
+import {
+  spacing as spacingConstants,
+  borderRadius as borderRadiusConstants,
+} from '../../constants/theme';
+import { useOutfitStore } from '../../features/outfitStore';
+import { useSnackbar } from '../../hooks/useSnackbar';
+import { outfitService } from '../../services/outfitService';
+import { imageProcessingService } from '../../services/imageProcessingService';
+import { ClosetItem, FlatLayLayer, Outfit, OutfitComposition } from '../../models';
+import {
+  DEFAULT_CANVAS_BACKGROUND,
+  autoArrange,
+  bringToFront,
+  resizeLayer,
+  syncComposition,
+} from '../../utils/flatLay';
+
+type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
+type RoutePropType = RouteProp<MainStackParamList, typeof ROUTES.OUTFIT_COMPOSER>;
+
+const CANVAS_BACKGROUNDS = [DEFAULT_CANVAS_BACKGROUND, '#FFFFFF', '#E5ECEF', '#E9E4F0', '#1F2937'];
+const SIZE_STEP = 0.05;
+
+export const OutfitComposerScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<RoutePropType>();
+  const { outfitId } = route.params;
+  const { saveComposition } = useOutfitStore();
+  const { showSnackbar } = useSnackbar();
+  const { colors, spacing } = useAppTheme();
+  const [outfit, setOutfit] = useState<Outfit | null>(null);
+  const [composition, setComposition] = useState<OutfitComposition | null>(null);
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    loadOutfit();
+  }, [outfitId]);
+
+  const loadOutfit = async () => {
+    try {
+      const response = await outfitService.getOutfit(outfitId);
+      setOutfit(response.data);
+      setComposition(syncComposition(response.data.composition, response.data.items));
+    } catch (error) {
+      showSnackbar((error as Error).message, 'error');
+    }
+  };
+
+  const items = useMemo(
+    () =>
+      (outfit?.items ?? [])
+        .map((slot) => slot.item)
+        .filter((item): item is ClosetItem => item !== undefined),
+    [outfit]
+  );
+
+  const selectedLayer = composition?.layers.find((layer) => layer.itemId === selectedItemId);
+
+  const updateLayer = (next: FlatLayLayer) => {
+    setComposition((current) =>
+      current
+        ? {
+            ...current,
+            layers: current.layers.map((layer) =>
+              layer.itemId === next.itemId && layer.slot === next.slot ? next : layer
+            ),
+          }
+        : current
+    );
+  };
+
+  const handleSelect = (itemId: string) => {
+    setSelectedItemId(itemId);
+    setComposition((current) =>
+      current ? { ...current, layers: bringToFront(current.layers, itemId) } : current
+    );
+  };
+
+  const handleResize = (delta: number) => {
+    if (selectedLayer) updateLayer(resizeLayer(selectedLayer, selectedLayer.size + delta));
+  };
+
+  const handleAutoArrange = () => {
+    if (!outfit || !composition) return;
+    setComposition({ ...composition, layers: autoArrange(outfit.items) });
+    setSelectedItemId(null);
+  };
+
+  const handleSave = async () => {
+    if (!composition) return;
+    setIsSaving(true);
+    try {
+      await saveComposition(outfitId, composition);
+      showSnackbar('Flat lay saved', 'success');
+      navigation.goBack();
+    } catch (error) {
+      showSnackbar((error as Error).message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!outfit || !composition) return;
+    setIsExporting(true);
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error("Sharing isn't available on this device");
+      }
+      const response = await imageProcessingService.exportComposition(composition, items);
+      if (response.data.missingItemIds.length > 0) {
+        showSnackbar(
+          `${response.data.missingItemIds.length} item(s) without a cutout were left out`,
+          'info'
+        );
+      }
+      await Sharing.shareAsync(response.data.uri, {
+        mimeType: 'image/png',
+        UTI: 'public.png',
+        dialogTitle: `My ${outfit.occasion} outfit`,
+      });
+    } catch (error) {
+      showSnackbar((error as Error).message, 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!outfit || !composition) {
+    return (
+      <GradientBackground>
+        <LoadingSpinner />
+      </GradientBackground>
+    );
+  }
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={[styles.header, { paddingHorizontal: spacing.lg, paddingTop: spacing.lg }]}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <Text style={[styles.backIcon, { color: colors.textPrimary }]}>←</Text>
+          </TouchableOpacity>
+          <AppText variant="h1" style={{ fontWeight: '700' }}>
+            Flat Lay
+          </AppText>
+          <View style={styles.placeholder} />
+        </View>
+
+        <View style={{ paddingHorizontal: spacing.lg }}>
+          <FlatLayCanvas
+            composition={composition}
+            items={items}
+            editable
+            selectedItemId={selectedItemId}
+            onSelectLayer={handleSelect}
+            onChangeLayer={updateLayer}
+          />
+          <AppText
+            variant="caption"
+            color={colors.textSecondary}
+            style={{ textAlign: 'center', marginTop: spacing.sm }}
+          >
+            Drag items to move them, pinch to resize
+          </AppText>
+
+          <View style={[styles.toolbar, { marginTop: spacing.md, gap: spacing.sm }]}>
+            <TouchableOpacity
+              onPress={() => handleResize(-SIZE_STEP)}
+              disabled={!selectedLayer}
+              style={[styles.toolButton, { opacity: selectedLayer ? 1 : 0.4 }]}
+            >
+              <Text style={[styles.toolIcon, { color: colors.textPrimary }]}>−</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleResize(SIZE_STEP)}
+              disabled={!selectedLayer}
+              style={[styles.toolButton, { opacity: selectedLayer ? 1 : 0.4 }]}
+            >
+              <Text style={[styles.toolIcon, { color: colors.textPrimary }]}>+</Text>
+            </TouchableOpacity>
+            <View style={styles.toolbarSpacer} />
+            {CANVAS_BACKGROUNDS.map((background) => (
+              <TouchableOpacity
+                key={background}
+                onPress={() => setComposition({ ...composition, background })}
+                style={[
+                  styles.swatch,
+                  {
+                    backgroundColor: background,
+                    borderColor:
+                      composition.background === background ? colors.accent : colors.glassBorder,
+                  },
+                ]}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={[styles.actions, { padding: spacing.lg, gap: spacing.sm }]}>
+          <AppButton label="Auto-Arrange" variant="ghost" onPress={handleAutoArrange} />
+          <AppButton
+            label="Share Image"
+            variant="secondary"
+            onPress={handleShare}
+            loading={isExporting}
+            disabled={isSaving}
+          />
+          <AppButton
+            label="Save Flat Lay"
+            onPress={handleSave}
+            loading={isSaving}
+            disabled={isExporting}
+          />
+        </View>
+      </SafeAreaView>
+    </GradientBackground>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacingConstants.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: borderRadiusConstants.full,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  backIcon: {
+    fontSize: 24,
+    fontWeight: '300',
+  },
+  placeholder: {
+    width: 40,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  toolButton: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: borderRadiusConstants.full,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  toolIcon: {
+    fontSize: 20,
+    fontWeight: '500',
+  },
+  toolbarSpacer: {
+    flex: 1,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: borderRadiusConstants.full,
+    borderWidth: 2,
+  },
+  actions: {
+    marginTop: 'auto',
+  },
+});
+
+OutfitComposerScreen.displayName = 'OutfitComposerScreen';
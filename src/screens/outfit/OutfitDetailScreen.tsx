@@ -1,41 +1,89 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { View, StyleSheet, ScrollView, Image, TouchableOpacity, Text } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
 import { useAppTheme } from '../../hooks/useAppTheme';
-import { AppText, AppButton, AppCard, LoadingSpinner, GradientBackground } from '../../components';
+import {
+  AppText,
+  AppButton,
+  AppCard,
+  FlatLayCanvas,
+  LoadingSpinner,
+  GradientBackground,
+  SlotSwapSheet,
+  BoardPickerSheet,
+} from '../../components';
 import { ROUTES } from '../../constants/routes';
 import { MainStackParamList } from '../../navigation/types';
 import { spacing as spacingConstants, borderRadius as borderRadiusConstants } from '../../constants/theme';
 import { useOutfitStore } from '../../features/outfitStore';
 import { useClosetStore } from '../../features/closetStore';
+import { useProfileStore } from '../../features/profileStore';
+import { useAuthStore } from '../../features/authStore';
+import { Board, boardEntryKey, useCollectionsStore } from '../../stores/collectionsStore';
 import { useSnackbar } from '../../hooks/useSnackbar';
+import { useRegenerateUnlocked } from '../../hooks/useRegenerateUnlocked';
 import { outfitService } from '../../services/outfitService';
 import { Outfit, ClosetItem } from '../../models';
+import { analyzePalette, harmonyLabels } from '../../utils/colorHarmony';
+import { getItemImageUri } from '../../utils/itemImages';
+import { syncComposition } from '../../utils/flatLay';
+import { SlotAlternative, SlotName, rankSlotAlternatives } from '../../utils/outfitEngine';
+import { buildItemWearLog } from '../../utils/wearRotation';
+import { getDressCode } from '../../constants/dressCodes';
 
 type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
 type RoutePropType = RouteProp<MainStackParamList, typeof ROUTES.OUTFIT_DETAIL>;
 
+interface SwapRecord {
+  slot: SlotName;
+  previousItemId: string;
+  forkedFromId?: string; // set when the swap saved a new outfit instead
+}
+
+const UNDO_TIMEOUT_MS = 6000;
+
 export const OutfitDetailScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
   const route = useRoute<RoutePropType>();
   const { outfitId } = route.params;
-  const { saveToHistory, replaceSlot, isLoading } = useOutfitStore();
+  const { saveToHistory, replaceSlot, removeOutfit, wearEvents, isLoading } = useOutfitStore();
   const { items } = useClosetStore();
+  const { profile } = useProfileStore();
   const { showSnackbar } = useSnackbar();
+  const { regenerateUnlocked, isRegenerating } = useRegenerateUnlocked();
+  const { user } = useAuthStore();
+  const { getBoards, createBoard, addToBoard } = useCollectionsStore();
+  const userId = user?.id ?? 'guest';
+  const boards = getBoards(userId);
   const { colors, spacing, borderRadius } = useAppTheme();
   const [outfit, setOutfit] = useState<Outfit | null>(null);
+  const [lockedItemIds, setLockedItemIds] = useState<string[]>([]);
+  const [swapSlot, setSwapSlot] = useState<SlotName | null>(null);
+  const [lastSwap, setLastSwap] = useState<SwapRecord | null>(null);
+  const [showBoards, setShowBoards] = useState(false);
+  const [isSwapping, setIsSwapping] = useState(false);
+  const undoTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(
+    () => () => {
+      if (undoTimer.current) clearTimeout(undoTimer.current);
+    },
+    []
+  );
 
   useEffect(() => {
     loadOutfit();
+    // Pick up a flat lay saved in the composer
+    return navigation.addListener('focus', loadOutfit);
   }, [outfitId]);
 
   const loadOutfit = async () => {
     try {
       const response = await outfitService.getOutfit(outfitId);
-      setOutfit(response.data);
+      setOutfit({ ...response.data });
     } catch (error) {
       showSnackbar((error as Error).message, 'error');
     }
@@ -44,7 +92,7 @@ export const OutfitDetailScreen: React.FC = () => {
   const handleWearToday = async () => {
     if (!outfit) return;
 
-    const canWear = outfitService.canWearOutfitAgain(outfit.id);
+    const canWear = await outfitService.canWearOutfitAgain(outfit.id);
     if (!canWear) {
       showSnackbar('You wore this outfit recently. Try again in a few days!', 'error');
       return;
@@ -59,6 +107,119 @@ export const OutfitDetailScreen: React.FC = () => {
     }
   };
 
+  const toggleLock = (itemId: string) => {
+    setLockedItemIds((current) =>
+      current.includes(itemId) ? current.filter((id) => id !== itemId) : [...current, itemId]
+    );
+  };
+
+  const handleRegenerate = async () => {
+    if (!outfit) return;
+    if (await regenerateUnlocked(outfit, lockedItemIds)) {
+      navigation.navigate(ROUTES.OUTFIT_RESULTS);
+    }
+  };
+
+  const handleAddToBoard = (board: Board) => {
+    if (!outfit) return;
+    addToBoard(userId, board.id, { kind: 'outfit', outfit });
+    setShowBoards(false);
+    showSnackbar(`Added to ${board.name}`, 'success');
+  };
+
+  const alternatives = useMemo(() => {
+    if (!outfit || !swapSlot) return [];
+    return rankSlotAlternatives(outfit.items, swapSlot, items, {
+      occasion: outfit.occasion,
+      weather: outfit.weather,
+      dressCode: getDressCode(outfit.occasion, profile?.customOccasions),
+      wearLog: buildItemWearLog(wearEvents),
+    });
+  }, [outfit, swapSlot, items, profile, wearEvents]);
+
+  const applySwap = async (slot: SlotName, itemId: string) => {
+    if (!outfit) return null;
+    setIsSwapping(true);
+    try {
+      const updated = await replaceSlot(outfit.id, slot, itemId);
+      setOutfit(updated);
+      if (updated.id !== outfit.id) {
+        // Worn and planned outfits are kept as they were; the swap made a new one
+        navigation.setParams({ outfitId: updated.id });
+        showSnackbar('Saved as a new outfit', 'success');
+      }
+      return updated;
+    } finally {
+      setIsSwapping(false);
+    }
+  };
+
+  const handleSwap = async (alternative: SlotAlternative) => {
+    const slot = swapSlot;
+    const previousItemId = outfit?.items.find((entry) => entry.slot === slot)?.itemId;
+    setSwapSlot(null);
+    if (!slot || !previousItemId) return;
+
+    try {
+      const updated = await applySwap(slot, alternative.item.id);
+      if (!updated || !outfit) return;
+      if (undoTimer.current) clearTimeout(undoTimer.current);
+      setLastSwap({
+        slot,
+        previousItemId,
+        forkedFromId: updated.id !== outfit.id ? outfit.id : undefined,
+      });
+      undoTimer.current = setTimeout(() => setLastSwap(null), UNDO_TIMEOUT_MS);
+    } catch (error) {
+      showSnackbar((error as Error).message, 'error');
+    }
+  };
+
+  // The original was never changed, so undoing a fork drops the copy and goes back to it
+  const discardFork = async (originalId: string) => {
+    if (!outfit) return;
+    setIsSwapping(true);
+    try {
+      await removeOutfit(outfit.id);
+      navigation.setParams({ outfitId: originalId });
+    } finally {
+      setIsSwapping(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!lastSwap) return;
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+    setLastSwap(null);
+
+    try {
+      if (lastSwap.forkedFromId) {
+        await discardFork(lastSwap.forkedFromId);
+      } else {
+        await applySwap(lastSwap.slot, lastSwap.previousItemId);
+      }
+    } catch (error) {
+      showSnackbar((error as Error).message, 'error');
+    }
+  };
+
+  const composition = useMemo(
+    () => (outfit ? syncComposition(outfit.composition, outfit.items) : null),
+    [outfit]
+  );
+  const composedItems = useMemo(
+    () =>
+      (outfit?.items ?? [])
+        .map((slot) => slot.item)
+        .filter((item): item is ClosetItem => item !== undefined),
+    [outfit]
+  );
+
+  const palette = useMemo(
+    () => analyzePalette(outfit?.items?.flatMap((slot) => slot.item?.colors ?? []) ?? []),
+    [outfit]
+  );
+
   if (isLoading || !outfit) {
     return (
       <GradientBackground>
@@ -75,59 +236,131 @@ export const OutfitDetailScreen: React.FC = () => {
             <Text style={[styles.backIcon, { color: colors.textPrimary }]}>←</Text>
           </TouchableOpacity>
           <AppText variant="h1" style={{ fontWeight: '700' }}>
-            {outfit.occasion.charAt(0).toUpperCase() + outfit.occasion.slice(1)}
+            {outfit.name ?? outfit.occasion.charAt(0).toUpperCase() + outfit.occasion.slice(1)}
           </AppText>
           <View style={styles.placeholder} />
         </View>
 
         <ScrollView showsVerticalScrollIndicator={false}>
-          {/* Hero Image */}
-          {outfit.items && outfit.items[0]?.item && (
+          {/* Flat Lay */}
+          {composition && composition.layers.length > 0 && (
             <View style={[styles.heroSection, { paddingHorizontal: spacing.lg, marginTop: spacing.lg }]}>
-              <Image
-                source={{ uri: outfit.items[0].item.imageUri }}
-                style={[styles.heroImage, { borderRadius: borderRadius.xl }]}
-                resizeMode="cover"
-              />
-              <View style={[styles.heroOverlay, { borderRadius: borderRadius.xl }]}>
-                <View style={styles.heroContent}>
-                  <AppText variant="display" overlay style={{ marginBottom: spacing.sm }}>
-                    {outfit.occasion.charAt(0).toUpperCase() + outfit.occasion.slice(1)} Outfit
-                  </AppText>
-                  <AppText variant="body" overlay style={{ opacity: 0.9 }}>
-                    {outfit.reason}
-                  </AppText>
-                </View>
+              <TouchableOpacity
+                activeOpacity={0.9}
+                onPress={() => navigation.navigate(ROUTES.OUTFIT_COMPOSER, { outfitId: outfit.id })}
+              >
+                <FlatLayCanvas composition={composition} items={composedItems} />
+              </TouchableOpacity>
+              <View style={{ marginTop: spacing.md }}>
+                <AppText variant="display" style={{ marginBottom: spacing.sm }}>
+                  {outfit.occasion.charAt(0).toUpperCase() + outfit.occasion.slice(1)} Outfit
+                </AppText>
+                <AppText variant="body" color={colors.textSecondary}>
+                  {outfit.reason}
+                </AppText>
               </View>
             </View>
           )}
 
           {/* Outfit Items Grid */}
-          <View style={[styles.outfitGrid, { padding: spacing.lg, gap: spacing.md }]}>
-            {outfit.items && outfit.items.map((slot, index) => {
-              const item = slot.item;
-
-              return (
-                <AppCard key={index} variant="glass" style={styles.outfitItem}>
-                  <AppText variant="body" style={{ fontWeight: '600', marginBottom: spacing.sm }}>
-                    {slot.slot.charAt(0).toUpperCase() + slot.slot.slice(1)}
-                  </AppText>
-                  {item ? (
-                    <Image
-                      source={{ uri: item.imageUri }}
-                      style={[styles.itemImage, { borderRadius: borderRadius.lg }]}
-                      resizeMode="cover"
-                    />
-                  ) : (
-                    <View style={[styles.itemPlaceholder, { backgroundColor: colors.glassBorder, borderRadius: borderRadius.lg }]}>
-                      <AppText variant="caption" color={colors.textSecondary}>No item</AppText>
-                    </View>
-                  )}
-                </AppCard>
-              );
-            })}
+          <View
+            style={[
+              styles.outfitGrid,
+              { padding: spacing.lg, gap: spacing.md, opacity: isSwapping ? 0.6 : 1 },
+            ]}
+          >
+            {outfit.items &&
+              outfit.items.map((slot, index) => {
+                const item = slot.item;
+                const isLocked = lockedItemIds.includes(slot.itemId);
+
+                return (
+                  <TouchableOpacity
+                    key={index}
+                    onPress={() => setSwapSlot(slot.slot)}
+                    disabled={isLocked || isSwapping}
+                    activeOpacity={0.8}
+                    style={styles.outfitItem}
+                  >
+                    <AppCard variant="glass" style={styles.outfitItemCard}>
+                      <View style={[styles.itemHeader, { marginBottom: spacing.sm }]}>
+                        <AppText variant="body" style={{ fontWeight: '600' }}>
+                          {slot.slot.charAt(0).toUpperCase() + slot.slot.slice(1)}
+                        </AppText>
+                        <TouchableOpacity
+                          onPress={() => toggleLock(slot.itemId)}
+                          style={[
+                            styles.lockButton,
+                            { backgroundColor: isLocked ? colors.accentLight : 'transparent' },
+                          ]}
+                        >
+                          <Text style={[styles.lockIcon, { opacity: isLocked ? 1 : 0.4 }]}>
+                            {isLocked ? '🔒' : '🔓'}
+                          </Text>
+                        </TouchableOpacity>
+                      </View>
+                      {item ? (
+                        <Image
+                          source={{ uri: getItemImageUri(item, 'cutout') }}
+                          style={[styles.itemImage, { borderRadius: borderRadius.lg }]}
+                          resizeMode={item.cutoutUri ? 'contain' : 'cover'}
+                        />
+                      ) : (
+                        <View
+                          style={[
+                            styles.itemPlaceholder,
+                            { backgroundColor: colors.glassBorder, borderRadius: borderRadius.lg },
+                          ]}
+                        >
+                          <AppText variant="caption" color={colors.textSecondary}>
+                            No item
+                          </AppText>
+                        </View>
+                      )}
+                      <AppText
+                        variant="caption"
+                        color={colors.accent}
+                        style={{ marginTop: spacing.sm, textAlign: 'center' }}
+                      >
+                        {isLocked ? 'Locked' : 'Tap to swap'}
+                      </AppText>
+                    </AppCard>
+                  </TouchableOpacity>
+                );
+              })}
           </View>
 
+          {/* Palette Breakdown */}
+          {palette.swatches.length > 0 && (
+            <View style={[styles.paletteSection, { paddingHorizontal: spacing.lg }]}>
+              <AppCard variant="glass" style={styles.paletteCard}>
+                <AppText variant="body" style={{ fontWeight: '600', marginBottom: spacing.sm }}>
+                  Palette · {harmonyLabels[palette.harmony]}
+                </AppText>
+                <View style={[styles.swatchRow, { gap: spacing.md, marginBottom: spacing.sm }]}>
+                  {palette.swatches.map((swatch) => (
+                    <View key={swatch.name} style={styles.swatch}>
+                      <View
+                        style={[
+                          styles.swatchDot,
+                          { backgroundColor: swatch.hex, borderColor: colors.glassBorder },
+                        ]}
+                      />
+                      <AppText variant="caption" color={colors.textSecondary}>
+                        {swatch.name}
+                      </AppText>
+                    </View>
+                  ))}
+                </View>
+                {palette.notes.map((note) => (
+                  <AppText key={note} variant="caption" color={colors.textSecondary}>
+                    • {note}
+                  </AppText>
+                ))}
+              </AppCard>
+            </View>
+          )}
+
           {/* Weather Info */}
           <View style={[styles.weatherInfo, { paddingHorizontal: spacing.lg, marginBottom: spacing.lg }]}>
             <AppCard variant="glass" style={styles.weatherCard}>
@@ -135,6 +368,22 @@ export const OutfitDetailScreen: React.FC = () => {
                 Weather: {outfit.weather?.temperature || 0}°C{' '}
                 {outfit.weather?.isRaining ? '🌧️ with rain' : '☀️ sunny'}
               </AppText>
+              {outfit.weather?.minTemperature !== undefined &&
+                outfit.weather?.maxTemperature !== undefined && (
+                  <AppText variant="caption" color={colors.textSecondary}>
+                    Range: {Math.round(outfit.weather.minTemperature)}° –{' '}
+                    {Math.round(outfit.weather.maxTemperature)}°C
+                  </AppText>
+                )}
+              {outfit.weather?.windSpeed !== undefined && (
+                <AppText variant="caption" color={colors.textSecondary}>
+                  Wind: {Math.round(outfit.weather.windSpeed)} km/h
+                  {outfit.weather.humidity !== undefined
+                    ? ` • Humidity: ${Math.round(outfit.weather.humidity)}%`
+                    : ''}
+                  {outfit.weather.uvIndex !== undefined ? ` • UV ${outfit.weather.uvIndex}` : ''}
+                </AppText>
+              )}
             </AppCard>
           </View>
 
@@ -145,8 +394,71 @@ export const OutfitDetailScreen: React.FC = () => {
               onPress={handleWearToday}
               style={styles.wearButton}
             />
+            {lockedItemIds.length > 0 && (
+              <AppButton
+                label="Regenerate Unlocked"
+                variant="secondary"
+                onPress={handleRegenerate}
+                loading={isRegenerating}
+                style={styles.wearButton}
+              />
+            )}
+            <AppButton
+              label="Edit Flat Lay"
+              variant="ghost"
+              onPress={() => navigation.navigate(ROUTES.OUTFIT_COMPOSER, { outfitId: outfit.id })}
+              style={styles.wearButton}
+            />
+            <AppButton
+              label="Plan for a Date"
+              variant="secondary"
+              onPress={() =>
+                navigation.navigate(ROUTES.OUTFIT_HISTORY, { planOutfitId: outfit.id })
+              }
+              style={styles.wearButton}
+            />
+            <AppButton
+              label="Add to Board"
+              variant="ghost"
+              onPress={() => setShowBoards(true)}
+              style={styles.wearButton}
+            />
           </View>
         </ScrollView>
+
+        {lastSwap && (
+          <AppCard
+            variant="floating"
+            style={StyleSheet.flatten([styles.undoBar, { margin: spacing.lg }])}
+          >
+            <AppText variant="body" style={styles.undoText}>
+              Swapped {lastSwap.slot}
+            </AppText>
+            <TouchableOpacity onPress={handleUndo} disabled={isSwapping}>
+              <AppText variant="body" color={colors.accent} style={{ fontWeight: '700' }}>
+                Undo
+              </AppText>
+            </TouchableOpacity>
+          </AppCard>
+        )}
+
+        <SlotSwapSheet
+          visible={swapSlot !== null}
+          title={swapSlot ? `Swap ${swapSlot}` : ''}
+          alternatives={alternatives}
+          onSelect={handleSwap}
+          onClose={() => setSwapSlot(null)}
+        />
+
+        <BoardPickerSheet
+          visible={showBoards}
+          title="Add to Board"
+          boards={boards}
+          entryKey={boardEntryKey({ kind: 'outfit', outfit })}
+          onSelect={handleAddToBoard}
+          onCreate={(name) => createBoard(userId, name)}
+          onClose={() => setShowBoards(false)}
+        />
       </SafeAreaView>
     </GradientBackground>
   );
@@ -180,30 +492,31 @@ const styles = StyleSheet.create({
   heroSection: {
     marginBottom: spacingConstants.lg,
   },
-  heroImage: {
-    width: '100%',
-    height: 400,
-    backgroundColor: '#F5F5F5',
-  },
-  heroOverlay: {
-    position: 'absolute',
-    bottom: 0,
-    left: spacingConstants.lg,
-    right: spacingConstants.lg,
-    backgroundColor: 'rgba(0, 0, 0, 0.4)',
-    padding: spacingConstants.lg,
-  },
-  heroContent: {
-    // Content styles
-  },
   outfitGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
   },
   outfitItem: {
     width: '48%',
+  },
+  outfitItemCard: {
     padding: spacingConstants.md,
   },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  lockButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: borderRadiusConstants.full,
+  },
+  lockIcon: {
+    fontSize: 16,
+  },
   itemImage: {
     width: '100%',
     height: 150,
@@ -215,6 +528,26 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  paletteSection: {
+    marginBottom: spacingConstants.md,
+  },
+  paletteCard: {
+    padding: spacingConstants.md,
+  },
+  swatchRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  swatch: {
+    alignItems: 'center',
+  },
+  swatchDot: {
+    width: 28,
+    height: 28,
+    borderRadius: borderRadiusConstants.full,
+    borderWidth: 1,
+    marginBottom: spacingConstants.xs,
+  },
   weatherInfo: {
     marginTop: spacingConstants.md,
   },
@@ -227,6 +560,18 @@ const styles = StyleSheet.create({
   wearButton: {
     marginTop: spacingConstants.md,
   },
+  undoBar: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacingConstants.md,
+  },
+  undoText: {
+    flex: 1,
+  },
 });
 
 OutfitDetailScreen.displayName = 'OutfitDetailScreen';
\ No newline at end of file
@@ -13,40 +13,61 @@ import { useAuthStore } from '../../features/authStore';
 import { useClosetStore } from '../../features/closetStore';
 import { useOutfitStore } from '../../features/outfitStore';
 import { useEntitlementsStore } from '../../features/entitlementsStore';
+import { usePreferenceStore } from '../../stores/preferenceStore';
 import { useSnackbar } from '../../hooks/useSnackbar';
-import { Occasion, WeatherContext } from '../../models';
+import { weatherService } from '../../services/weatherService';
+import { useProfileStore } from '../../features/profileStore';
+import { BUILT_IN_OCCASIONS, DRESS_CODES } from '../../constants/dressCodes';
+import { OccasionId, WeatherContext } from '../../models';
 import { BlurView } from 'expo-blur';
 import { Platform } from 'react-native';
 
 type NavigationProp = BottomTabNavigationProp<MainTabParamList>;
 
-const occasions: Occasion[] = ['work', 'casual', 'date', 'party', 'sport'];
-
 export const OutfitGeneratorScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
   const { user } = useAuthStore();
   const { items } = useClosetStore();
   const { generateOutfits, isLoading, generatedOutfits, history } = useOutfitStore();
   const { checkGenerateLimit, incrementGenerateCount } = useEntitlementsStore();
+  const { getWeights } = usePreferenceStore();
+  const { profile, fetchProfile } = useProfileStore();
   const { showSnackbar } = useSnackbar();
   const { colors, spacing, borderRadius, blur, isDark } = useAppTheme();
 
-  const [occasion, setOccasion] = useState<Occasion>('casual');
+  const [occasion, setOccasion] = useState<OccasionId>('casual');
   const [temperature, setTemperature] = useState<string>('22');
   const [isRaining, setIsRaining] = useState(false);
   const [locationLoaded, setLocationLoaded] = useState(false);
+  const [conditions, setConditions] = useState<WeatherContext | null>(null);
 
   useEffect(() => {
     loadLocation();
   }, []);
 
+  useEffect(() => {
+    if (user && !profile) {
+      fetchProfile(user.id);
+    }
+  }, [user]);
+
+  const occasions = [
+    ...BUILT_IN_OCCASIONS.map((id) => DRESS_CODES[id]),
+    ...(profile?.customOccasions ?? []),
+  ];
+
   const loadLocation = async () => {
     try {
       const { status } = await Location.requestForegroundPermissionsAsync();
       if (status === 'granted') {
         const location = await Location.getCurrentPositionAsync({});
-        const simulatedTemp = Math.floor(Math.random() * 20) + 15;
-        setTemperature(simulatedTemp.toString());
+        const response = await weatherService.getCurrentConditions({
+          latitude: location.coords.latitude,
+          longitude: location.coords.longitude,
+        });
+        setConditions(response.data);
+        setTemperature(Math.round(response.data.temperature).toString());
+        setIsRaining(response.data.isRaining);
         setLocationLoaded(true);
       }
     } catch (error) {
@@ -70,12 +91,23 @@ export const OutfitGeneratorScreen: React.FC = () => {
         return;
       }
 
+      const entered = parseInt(temperature, 10);
       const weather: WeatherContext = {
-        temperature: parseInt(temperature) || 22,
+        ...conditions,
+        temperature: Number.isNaN(entered) ? 22 : entered,
         isRaining,
       };
+      // The day's range and wind belong to the measured temperature, so a hand-typed
+      // one goes without them rather than mixing the two
+      if (!conditions || weather.temperature !== Math.round(conditions.temperature)) {
+        delete weather.minTemperature;
+        delete weather.maxTemperature;
+        delete weather.windSpeed;
+      }
 
-      await generateOutfits(user.id, occasion, weather, items);
+      await generateOutfits(user.id, occasion, weather, items, {
+        preferences: getWeights(user.id),
+      });
       await incrementGenerateCount(user.id);
       const parent = navigation.getParent();
       if (parent) {
@@ -169,12 +201,12 @@ export const OutfitGeneratorScreen: React.FC = () => {
           {/* Story-style Collection Chips */}
           <View style={[styles.collectionsRow, { marginTop: spacing.xl }]}>
             <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.collectionsContent}>
-              {occasions.map((occ, index) => (
+              {occasions.map((code) => (
                 <StoryChip
-                  key={occ}
-                  label={occ}
-                  active={occasion === occ}
-                  onPress={() => setOccasion(occ)}
+                  key={code.id}
+                  label={code.label}
+                  active={occasion === code.id}
+                  onPress={() => setOccasion(code.id)}
                   size={64}
                 />
               ))}
@@ -225,6 +257,17 @@ export const OutfitGeneratorScreen: React.FC = () => {
               loading={isLoading}
               style={styles.generateButton}
             />
+            <AppButton
+              label="Build Your Own"
+              variant="ghost"
+              onPress={() => {
+                const parent = navigation.getParent();
+                if (parent) {
+                  (parent as any).navigate(ROUTES.OUTFIT_BUILDER);
+                }
+              }}
+              style={styles.buildButton}
+            />
           </View>
         </Animated.ScrollView>
 
@@ -356,6 +399,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '500',
   },
+  buildButton: {
+    marginTop: spacingConstants.sm,
+  },
   generateButton: {
     marginTop: spacingConstants.md,
   },
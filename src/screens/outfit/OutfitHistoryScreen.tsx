@@ -1,68 +1,332 @@
-import React, { useEffect } from 'react';
-import { View, StyleSheet, FlatList, TouchableOpacity } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, FlatList, TouchableOpacity, Alert, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation } from '@react-navigation/native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { format, parseISO, setHours, subDays } from 'date-fns';
 import { useAppTheme } from '../../hooks/useAppTheme';
-import { AppText, AppCard, LoadingSpinner, EmptyState, GradientBackground } from '../../components';
+import {
+  AppText,
+  AppCard,
+  AppButton,
+  LoadingSpinner,
+  EmptyState,
+  GradientBackground,
+  MonthCalendar,
+  TagChip,
+  ReminderPickerSheet,
+} from '../../components';
+import { CalendarDayMarks } from '../../components/MonthCalendar';
+import { ReminderOption } from '../../components/ReminderPickerSheet';
 import { ROUTES } from '../../constants/routes';
 import { MainStackParamList } from '../../navigation/types';
-import { spacing as spacingConstants, borderRadius as borderRadiusConstants } from '../../constants/theme';
+import {
+  spacing as spacingConstants,
+  borderRadius as borderRadiusConstants,
+} from '../../constants/theme';
 import { useAuthStore } from '../../features/authStore';
 import { useOutfitStore } from '../../features/outfitStore';
 import { formatDateFull } from '../../utils/date';
-import { Outfit } from '../../models';
+import { Outfit, OutfitPlan, WearEvent } from '../../models';
+import { getItemImageUri } from '../../utils/itemImages';
 
 type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
+type RoutePropType = RouteProp<MainStackParamList, typeof ROUTES.OUTFIT_HISTORY>;
+type HistoryView = 'list' | 'calendar';
+
+const todayKey = () => format(new Date(), 'yyyy-MM-dd');
+
+const outfitTitle = (outfit?: Outfit) =>
+  outfit
+    ? (outfit.name ?? outfit.occasion.charAt(0).toUpperCase() + outfit.occasion.slice(1))
+    : 'Outfit';
 
 export const OutfitHistoryScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<RoutePropType>();
+  const planOutfitId = route.params?.planOutfitId;
   const { user } = useAuthStore();
-  const { history, fetchHistory, isLoading } = useOutfitStore();
+  const {
+    wearEvents,
+    plans,
+    history,
+    fetchWearEvents,
+    fetchPlans,
+    fetchHistory,
+    removeWearEvent,
+    planOutfit,
+    removePlan,
+    markPlanWorn,
+    isLoading,
+  } = useOutfitStore();
   const { colors, spacing, borderRadius } = useAppTheme();
+  const [view, setView] = useState<HistoryView>(planOutfitId ? 'calendar' : 'list');
+  const [month, setMonth] = useState(new Date());
+  const [selectedDate, setSelectedDate] = useState(todayKey());
+  // The day being planned while the reminder sheet is open
+  const [planDate, setPlanDate] = useState<string | null>(null);
 
   useEffect(() => {
     if (user) {
+      fetchWearEvents(user.id);
+      fetchPlans(user.id);
       fetchHistory(user.id);
     }
   }, [user]);
 
-  const groupedHistory = history.reduce((acc, outfit) => {
-    const date = outfit.wornDate || '';
-    if (!acc[date]) {
-      acc[date] = [];
+  // Hand-built outfits that haven't been worn yet
+  const savedOutfits = history.filter((outfit) => outfit.source === 'manual' && !outfit.wornDate);
+
+  const calendarMarks = useMemo(() => {
+    const marks: Record<string, CalendarDayMarks> = {};
+    const markFor = (date: string) => {
+      if (!marks[date]) {
+        marks[date] = { worn: [], planned: [] };
+      }
+      return marks[date];
+    };
+
+    wearEvents.forEach((event) => {
+      const item = event.outfit?.items[0]?.item;
+      const uri = event.photoUri ?? (item && getItemImageUri(item, 'thumbnail'));
+      if (uri) markFor(event.date).worn.push(uri);
+    });
+    plans.forEach((plan) => {
+      const item = plan.outfit?.items[0]?.item;
+      const uri = item && getItemImageUri(item, 'thumbnail');
+      if (uri) markFor(plan.date).planned.push(uri);
+    });
+    return marks;
+  }, [wearEvents, plans]);
+
+  const groupedHistory = wearEvents.reduce(
+    (acc, event) => {
+      if (!acc[event.date]) {
+        acc[event.date] = [];
+      }
+      acc[event.date].push(event);
+      return acc;
+    },
+    {} as Record<string, WearEvent[]>
+  );
+
+  const handleRemove = (event: WearEvent) => {
+    Alert.alert('Remove wear', 'Remove this entry from your history?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => removeWearEvent(event.id),
+      },
+    ]);
+  };
+
+  const reminderOptions = useMemo((): ReminderOption[] => {
+    if (!planDate) return [];
+    const day = parseISO(planDate);
+    const reminders = [
+      { label: 'Evening before (8 PM)', at: setHours(subDays(day, 1), 20) },
+      { label: 'Morning of (7 AM)', at: setHours(day, 7) },
+    ].filter((option) => option.at.getTime() > Date.now());
+    return [{ label: 'No reminder' }, ...reminders];
+  }, [planDate]);
+
+  const handlePlan = (date: string) => {
+    if (!user || !planOutfitId) return;
+    setPlanDate(date);
+  };
+
+  const handleReminderSelect = async ({ at }: ReminderOption) => {
+    const date = planDate;
+    setPlanDate(null);
+    if (!user || !planOutfitId || !date) return;
+
+    try {
+      await planOutfit(user.id, planOutfitId, date, at?.toISOString());
+      navigation.setParams({ planOutfitId: undefined });
+    } catch (error) {
+      Alert.alert('Could not plan outfit', (error as Error).message);
     }
-    acc[date].push(outfit);
-    return acc;
-  }, {} as Record<string, Outfit[]>);
+  };
+
+  const handlePlanActions = (plan: OutfitPlan) => {
+    Alert.alert('Planned outfit', formatDateFull(plan.date), [
+      { text: 'Cancel', style: 'cancel' },
+      ...(plan.date <= todayKey()
+        ? [{ text: 'Mark as worn', onPress: () => markPlanWorn(plan.id) }]
+        : []),
+      {
+        text: 'Remove plan',
+        style: 'destructive' as const,
+        onPress: () => removePlan(plan.id),
+      },
+    ]);
+  };
+
+  const renderPlanCard = (plan: OutfitPlan) => {
+    const outfit = plan.outfit;
+    return (
+      <TouchableOpacity
+        key={plan.id}
+        onPress={() => navigation.navigate(ROUTES.OUTFIT_DETAIL, { outfitId: plan.outfitId })}
+        onLongPress={() => handlePlanActions(plan)}
+        activeOpacity={0.8}
+      >
+        <AppCard
+          variant="glass"
+          style={StyleSheet.flatten([
+            styles.outfitCard,
+            { marginBottom: spacing.sm, borderWidth: 1, borderColor: colors.accent },
+          ])}
+        >
+          <View style={styles.eventHeader}>
+            <AppText variant="body" style={{ fontWeight: '600', marginBottom: spacing.xs }}>
+              {outfitTitle(outfit)}
+            </AppText>
+            <AppText variant="caption" color={colors.accent}>
+              Planned
+            </AppText>
+          </View>
+          <AppText variant="caption" color={colors.textSecondary}>
+            {outfit?.items?.length || 0} items
+            {plan.reminderAt
+              ? ` • Reminder ${format(parseISO(plan.reminderAt), 'EEE h:mm a')}`
+              : ''}
+          </AppText>
+        </AppCard>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSavedCard = (outfit: Outfit) => (
+    <TouchableOpacity
+      key={outfit.id}
+      onPress={() => navigation.navigate(ROUTES.OUTFIT_DETAIL, { outfitId: outfit.id })}
+      activeOpacity={0.8}
+    >
+      <AppCard
+        variant="glass"
+        style={StyleSheet.flatten([styles.outfitCard, { marginBottom: spacing.sm }])}
+      >
+        <View style={styles.eventHeader}>
+          <AppText variant="body" style={{ fontWeight: '600', marginBottom: spacing.xs }}>
+            {outfitTitle(outfit)}
+          </AppText>
+          <AppText variant="caption" color={colors.textSecondary}>
+            Not worn yet
+          </AppText>
+        </View>
+        <AppText variant="caption" color={colors.textSecondary}>
+          {outfit.items.length} items • {outfit.occasion}
+        </AppText>
+      </AppCard>
+    </TouchableOpacity>
+  );
+
+  const renderEventCard = (event: WearEvent) => {
+    const outfit = event.outfit;
+    return (
+      <TouchableOpacity
+        key={event.id}
+        onPress={() => navigation.navigate(ROUTES.OUTFIT_DETAIL, { outfitId: event.outfitId })}
+        onLongPress={() => handleRemove(event)}
+        activeOpacity={0.8}
+      >
+        <AppCard
+          variant="glass"
+          style={StyleSheet.flatten([styles.outfitCard, { marginBottom: spacing.sm }])}
+        >
+          <View style={styles.eventHeader}>
+            <AppText variant="body" style={{ fontWeight: '600', marginBottom: spacing.xs }}>
+              {outfitTitle(outfit)}
+            </AppText>
+            {event.rating !== undefined && (
+              <AppText variant="caption" color={colors.accent}>
+                {'★'.repeat(event.rating)}
+                {'☆'.repeat(Math.max(0, 5 - event.rating))}
+              </AppText>
+            )}
+          </View>
+          <AppText variant="caption" color={colors.textSecondary}>
+            {outfit?.items?.length || 0} items • {outfit?.weather?.temperature || 0}°C
+            {event.location ? ` • ${event.location}` : ''}
+          </AppText>
+          {event.notes && (
+            <AppText variant="caption" style={{ marginTop: spacing.xs }}>
+              {event.notes}
+            </AppText>
+          )}
+        </AppCard>
+      </TouchableOpacity>
+    );
+  };
 
   const renderGroup = ({ item: date }: { item: string }) => {
-    const outfits = groupedHistory[date];
+    const events = groupedHistory[date];
     return (
       <View style={[styles.group, { marginBottom: spacing.xl }]}>
-        <AppText variant="h1" style={[styles.dateHeader, { marginBottom: spacing.md, fontWeight: '700' }]}>
+        <AppText
+          variant="h1"
+          style={[styles.dateHeader, { marginBottom: spacing.md, fontWeight: '700' }]}
+        >
           {formatDateFull(date)}
         </AppText>
-        {outfits.map((outfit) => (
-          <TouchableOpacity
-            key={outfit.id}
-            onPress={() => navigation.navigate(ROUTES.OUTFIT_DETAIL, { outfitId: outfit.id })}
-            activeOpacity={0.8}
-          >
-            <AppCard variant="glass" style={[styles.outfitCard, { marginBottom: spacing.sm }]}>
-              <AppText variant="body" style={{ fontWeight: '600', marginBottom: spacing.xs }}>
-                {outfit.occasion.charAt(0).toUpperCase() + outfit.occasion.slice(1)}
-              </AppText>
-              <AppText variant="caption" color={colors.textSecondary}>
-                {outfit.items?.length || 0} items • {outfit.weather?.temperature || 0}°C
-              </AppText>
-            </AppCard>
-          </TouchableOpacity>
-        ))}
+        {events.map(renderEventCard)}
       </View>
     );
   };
 
+  const renderCalendar = () => {
+    const dayEvents = groupedHistory[selectedDate] ?? [];
+    const dayPlans = plans.filter((plan) => plan.date === selectedDate);
+    const canPlan = !!planOutfitId && selectedDate >= todayKey();
+
+    return (
+      <ScrollView
+        contentContainerStyle={[styles.list, { padding: spacing.lg }]}
+        showsVerticalScrollIndicator={false}
+      >
+        {planOutfitId && (
+          <AppCard
+            variant="glass"
+            style={StyleSheet.flatten([styles.outfitCard, { marginBottom: spacing.lg }])}
+          >
+            <AppText variant="body" style={{ fontWeight: '600' }}>
+              Pick a day to plan this outfit
+            </AppText>
+          </AppCard>
+        )}
+
+        <MonthCalendar
+          month={month}
+          marks={calendarMarks}
+          selectedDate={selectedDate}
+          onSelectDate={setSelectedDate}
+          onChangeMonth={setMonth}
+          style={{ marginBottom: spacing.xl }}
+        />
+
+        <AppText variant="h2" style={{ marginBottom: spacing.md }}>
+          {formatDateFull(selectedDate)}
+        </AppText>
+        {dayPlans.map(renderPlanCard)}
+        {dayEvents.map(renderEventCard)}
+        {dayPlans.length === 0 && dayEvents.length === 0 && (
+          <AppText variant="caption" color={colors.textSecondary}>
+            Nothing worn or planned for this day
+          </AppText>
+        )}
+        {canPlan && (
+          <AppButton
+            label="Plan for this day"
+            onPress={() => handlePlan(selectedDate)}
+            style={{ marginTop: spacing.lg }}
+          />
+        )}
+      </ScrollView>
+    );
+  };
+
   if (isLoading) {
     return (
       <GradientBackground>
@@ -71,7 +335,12 @@ export const OutfitHistoryScreen: React.FC = () => {
     );
   }
 
-  if (history.length === 0) {
+  if (
+    view === 'list' &&
+    wearEvents.length === 0 &&
+    plans.length === 0 &&
+    savedOutfits.length === 0
+  ) {
     return (
       <GradientBackground>
         <SafeAreaView style={styles.container} edges={['top']}>
@@ -89,15 +358,64 @@ export const OutfitHistoryScreen: React.FC = () => {
     <GradientBackground>
       <SafeAreaView style={styles.container} edges={['top']}>
         <View style={[styles.header, { paddingHorizontal: spacing.lg, paddingTop: spacing.lg }]}>
-          <AppText variant="h1" style={{ fontWeight: '700' }}>Outfit History</AppText>
+          <AppText variant="h1" style={{ fontWeight: '700' }}>
+            Outfit History
+          </AppText>
+          <AppText variant="caption" color={colors.textSecondary}>
+            Long-press an entry to remove it
+          </AppText>
+          <View style={[styles.viewToggle, { marginTop: spacing.md }]}>
+            {(['list', 'calendar'] as HistoryView[]).map((option) => (
+              <TagChip
+                key={option}
+                label={option === 'list' ? 'List' : 'Calendar'}
+                selected={view === option}
+                onPress={() => setView(option)}
+                style={{ marginRight: spacing.sm }}
+              />
+            ))}
+          </View>
         </View>
 
-        <FlatList
-          data={Object.keys(groupedHistory).sort((a, b) => b.localeCompare(a))}
-          renderItem={renderGroup}
-          keyExtractor={(date) => date}
-          contentContainerStyle={[styles.list, { padding: spacing.lg }]}
-          showsVerticalScrollIndicator={false}
+        {view === 'calendar' ? (
+          renderCalendar()
+        ) : (
+          <FlatList
+            data={Object.keys(groupedHistory).sort((a, b) => b.localeCompare(a))}
+            renderItem={renderGroup}
+            keyExtractor={(date) => date}
+            contentContainerStyle={[styles.list, { padding: spacing.lg }]}
+            showsVerticalScrollIndicator={false}
+            ListHeaderComponent={
+              <>
+                {plans.length > 0 && (
+                  <View style={[styles.group, { marginBottom: spacing.xl }]}>
+                    <AppText variant="h1" style={{ marginBottom: spacing.md, fontWeight: '700' }}>
+                      Upcoming
+                    </AppText>
+                    {plans.map(renderPlanCard)}
+                  </View>
+                )}
+                {savedOutfits.length > 0 && (
+                  <View style={[styles.group, { marginBottom: spacing.xl }]}>
+                    <AppText variant="h1" style={{ marginBottom: spacing.md, fontWeight: '700' }}>
+                      Saved
+                    </AppText>
+                    {savedOutfits.map(renderSavedCard)}
+                  </View>
+                )}
+              </>
+            }
+          />
+        )}
+
+        <ReminderPickerSheet
+          visible={planDate !== null}
+          title="Plan outfit"
+          message={planDate ? `Wear this outfit on ${formatDateFull(planDate)}?` : undefined}
+          options={reminderOptions}
+          onSelect={handleReminderSelect}
+          onClose={() => setPlanDate(null)}
         />
       </SafeAreaView>
     </GradientBackground>
@@ -123,6 +441,14 @@ const styles = StyleSheet.create({
   outfitCard: {
     padding: spacingConstants.md,
   },
+  viewToggle: {
+    flexDirection: 'row',
+  },
+  eventHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
 });
 
-OutfitHistoryScreen.displayName = 'OutfitHistoryScreen';
\ No newline at end of file
+OutfitHistoryScreen.displayName = 'OutfitHistoryScreen';
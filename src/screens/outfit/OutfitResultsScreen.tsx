@@ -1,14 +1,22 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, StyleSheet, FlatList, TouchableOpacity, Image } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAppTheme } from '../../hooks/useAppTheme';
-import { AppText, AppCard, EmptyState, GradientBackground } from '../../components';
+import {
+  AppText,
+  AppButton,
+  AppCard,
+  EmptyState,
+  GradientBackground,
+  TagChip,
+} from '../../components';
 import { ROUTES } from '../../constants/routes';
 import { MainStackParamList } from '../../navigation/types';
 import { spacing as spacingConstants, borderRadius as borderRadiusConstants } from '../../constants/theme';
 import { useOutfitStore } from '../../features/outfitStore';
+import { useRegenerateUnlocked } from '../../hooks/useRegenerateUnlocked';
 import { Outfit } from '../../models';
 
 type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
@@ -16,35 +24,90 @@ type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
 export const OutfitResultsScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
   const { generatedOutfits } = useOutfitStore();
+  const { regenerateUnlocked, isRegenerating } = useRegenerateUnlocked();
   const { colors, spacing, borderRadius } = useAppTheme();
+  // Locked item ids per outfit
+  const [locks, setLocks] = useState<Record<string, string[]>>({});
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
 
-  const renderOutfit = ({ item }: { item: Outfit }) => (
-    <TouchableOpacity
-      onPress={() => navigation.navigate(ROUTES.OUTFIT_DETAIL, { outfitId: item.id })}
-      activeOpacity={0.9}
-    >
-      <AppCard variant="floating" style={[styles.outfitCard, { marginBottom: spacing.lg }]}>
-        <Image
-          source={{ uri: item.items?.[0]?.item?.imageUri || '' }}
-          style={[styles.outfitImage, { borderRadius: borderRadius.lg }]}
-          resizeMode="cover"
-        />
-        <View style={styles.outfitOverlay}>
-          <View style={styles.outfitContent}>
-            <AppText variant="h1" overlay style={{ marginBottom: spacing.xs }}>
-              {item.occasion.charAt(0).toUpperCase() + item.occasion.slice(1)}
-            </AppText>
-            <AppText variant="caption" overlay style={{ opacity: 0.9, marginBottom: spacing.sm }}>
-              {item.weather?.temperature || 0}°C {item.weather?.isRaining ? '🌧️' : '☀️'}
-            </AppText>
-            <AppText variant="body" overlay style={{ opacity: 0.85 }}>
-              {item.reason}
-            </AppText>
-          </View>
+  const toggleLock = (outfitId: string, itemId: string) => {
+    setLocks((current) => {
+      const locked = current[outfitId] ?? [];
+      return {
+        ...current,
+        [outfitId]: locked.includes(itemId)
+          ? locked.filter((id) => id !== itemId)
+          : [...locked, itemId],
+      };
+    });
+  };
+
+  const handleRegenerate = async (outfit: Outfit) => {
+    setRegeneratingId(outfit.id);
+    // The new suggestions replace this list, so the old locks no longer apply
+    if (await regenerateUnlocked(outfit, locks[outfit.id] ?? [])) {
+      setLocks({});
+    }
+    setRegeneratingId(null);
+  };
+
+  const renderOutfit = ({ item }: { item: Outfit }) => {
+    const locked = locks[item.id] ?? [];
+
+    return (
+      <View style={{ marginBottom: spacing.lg }}>
+        <TouchableOpacity
+          onPress={() => navigation.navigate(ROUTES.OUTFIT_DETAIL, { outfitId: item.id })}
+          activeOpacity={0.9}
+        >
+          <AppCard variant="floating" style={styles.outfitCard}>
+            <Image
+              source={{ uri: item.items?.[0]?.item?.imageUri || '' }}
+              style={[styles.outfitImage, { borderRadius: borderRadius.lg }]}
+              resizeMode="cover"
+            />
+            <View style={styles.outfitOverlay}>
+              <View style={styles.outfitContent}>
+                <AppText variant="h1" overlay style={{ marginBottom: spacing.xs }}>
+                  {item.occasion.charAt(0).toUpperCase() + item.occasion.slice(1)}
+                </AppText>
+                <AppText
+                  variant="caption"
+                  overlay
+                  style={{ opacity: 0.9, marginBottom: spacing.sm }}
+                >
+                  {item.weather?.temperature || 0}°C {item.weather?.isRaining ? '🌧️' : '☀️'}
+                </AppText>
+                <AppText variant="body" overlay style={{ opacity: 0.85 }}>
+                  {item.reason}
+                </AppText>
+              </View>
+            </View>
+          </AppCard>
+        </TouchableOpacity>
+        <View style={[styles.lockRow, { gap: spacing.sm, marginTop: spacing.md }]}>
+          {item.items.map((slot) => (
+            <TagChip
+              key={slot.slot}
+              label={`${locked.includes(slot.itemId) ? '🔒 ' : ''}${slot.slot}`}
+              selected={locked.includes(slot.itemId)}
+              onPress={() => toggleLock(item.id, slot.itemId)}
+            />
+          ))}
         </View>
-      </AppCard>
-    </TouchableOpacity>
-  );
+        {locked.length > 0 && (
+          <AppButton
+            label="Regenerate Unlocked"
+            variant="secondary"
+            onPress={() => handleRegenerate(item)}
+            loading={isRegenerating && regeneratingId === item.id}
+            disabled={isRegenerating}
+            style={{ marginTop: spacing.md }}
+          />
+        )}
+      </View>
+    );
+  };
 
   if (generatedOutfits.length === 0) {
     return (
@@ -110,6 +173,10 @@ const styles = StyleSheet.create({
   outfitContent: {
     padding: spacingConstants.lg,
   },
+  lockRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
 });
 
 OutfitResultsScreen.displayName = 'OutfitResultsScreen';
\ No newline at end of file
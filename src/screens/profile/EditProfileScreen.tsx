@@ -14,6 +14,8 @@ import { spacing as spacingConstants, borderRadius as borderRadiusConstants } fr
 import { useAuthStore } from '../../features/authStore';
 import { useProfileStore } from '../../features/profileStore';
 import { useSnackbar } from '../../hooks/useSnackbar';
+import { isBuiltInOccasion } from '../../constants/dressCodes';
+import { DressCode } from '../../models';
 
 const editProfileSchema = z.object({
   gender: z.enum(['male', 'female', 'non-binary', 'prefer-not-to-say']).optional(),
@@ -36,11 +38,15 @@ const genderOptions = [
 export const EditProfileScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
   const { user } = useAuthStore();
-  const { profile, updateProfile, isLoading } = useProfileStore();
+  const { profile, updateProfile, saveCustomOccasion, removeCustomOccasion, isLoading } =
+    useProfileStore();
   const { showSnackbar } = useSnackbar();
   const { colors, spacing, borderRadius } = useAppTheme();
   const [selectedStyles, setSelectedStyles] = React.useState<string[]>([]);
   const [genderMenuVisible, setGenderMenuVisible] = React.useState(false);
+  const [occasionName, setOccasionName] = React.useState('');
+  const [occasionPreferredTags, setOccasionPreferredTags] = React.useState('');
+  const [occasionForbiddenTags, setOccasionForbiddenTags] = React.useState('');
 
   const {
     control,
@@ -69,6 +75,57 @@ export const EditProfileScreen: React.FC = () => {
     );
   };
 
+  const parseTags = (value: string) =>
+    value
+      .split(',')
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean);
+
+  const handleAddOccasion = async () => {
+    if (!user) return;
+
+    const label = occasionName.trim();
+    const id = label.toLowerCase().replace(/\s+/g, '-');
+    if (!id) {
+      showSnackbar('Give your occasion a name', 'error');
+      return;
+    }
+    if (isBuiltInOccasion(id)) {
+      showSnackbar(`"${label}" is already a built-in occasion`, 'error');
+      return;
+    }
+
+    const dressCode: DressCode = {
+      id,
+      label,
+      requiredTags: [],
+      preferredTags: [id, ...parseTags(occasionPreferredTags)],
+      forbiddenTags: parseTags(occasionForbiddenTags),
+      requiredCategories: [],
+      forbiddenCategories: [],
+    };
+
+    try {
+      await saveCustomOccasion(user.id, dressCode);
+      setOccasionName('');
+      setOccasionPreferredTags('');
+      setOccasionForbiddenTags('');
+      showSnackbar(`Added ${label}`, 'success');
+    } catch (error) {
+      showSnackbar((error as Error).message, 'error');
+    }
+  };
+
+  const handleRemoveOccasion = async (dressCode: DressCode) => {
+    if (!user) return;
+
+    try {
+      await removeCustomOccasion(user.id, dressCode.id);
+    } catch (error) {
+      showSnackbar((error as Error).message, 'error');
+    }
+  };
+
   const onSubmit = async (data: FormData) => {
     if (!user) return;
 
@@ -217,6 +274,49 @@ export const EditProfileScreen: React.FC = () => {
                 </View>
               </View>
 
+              <View style={[styles.section, { marginTop: spacing.lg }]}>
+                <AppText
+                  variant="body"
+                  style={[styles.sectionTitle, { marginBottom: spacing.md, fontWeight: '600' }]}
+                >
+                  Custom Occasions
+                </AppText>
+                {profile?.customOccasions && profile.customOccasions.length > 0 && (
+                  <View style={[styles.chips, { marginBottom: spacing.md }]}>
+                    {profile.customOccasions.map((code) => (
+                      <TagChip
+                        key={code.id}
+                        label={`${code.label} ✕`}
+                        selected
+                        onPress={() => handleRemoveOccasion(code)}
+                        style={{ marginRight: spacing.sm, marginBottom: spacing.sm }}
+                      />
+                    ))}
+                  </View>
+                )}
+                <AppInput
+                  label="Occasion name"
+                  value={occasionName}
+                  onChangeText={setOccasionName}
+                  placeholder="e.g. Wedding guest"
+                />
+                <AppInput
+                  label="Preferred tags (comma separated)"
+                  value={occasionPreferredTags}
+                  onChangeText={setOccasionPreferredTags}
+                  placeholder="elegant, formal"
+                  autoCapitalize="none"
+                />
+                <AppInput
+                  label="Tags to avoid (comma separated)"
+                  value={occasionForbiddenTags}
+                  onChangeText={setOccasionForbiddenTags}
+                  placeholder="sport, beach"
+                  autoCapitalize="none"
+                />
+                <AppButton label="Add Occasion" variant="secondary" onPress={handleAddOccasion} />
+              </View>
+
               <AppButton
                 label="Save Changes"
                 onPress={handleSubmit(onSubmit)}
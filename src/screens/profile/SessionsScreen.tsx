@@ -0,0 +1,241 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert, TouchableOpacity, Text } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useAppTheme } from '../../hooks/useAppTheme';
+import {
+  AppText,
+  AppButton,
+  AppCard,
+  EmptyState,
+  GradientBackground,
+  LoadingSpinner,
+} from '../../components';
+import { MainStackParamList } from '../../navigation/types';
+import {
+  spacing as spacingConstants,
+  borderRadius as borderRadiusConstants,
+} from '../../constants/theme';
+import { useAuthStore } from '../../features/authStore';
+import { authService, ActiveSession } from '../../services/authService';
+import { useSnackbar } from '../../hooks/useSnackbar';
+import { formatDate, formatDateFull } from '../../utils/date';
+
+type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
+
+const PLATFORM_LABELS: Record<string, string> = {
+  ios: 'iOS',
+  android: 'Android',
+  web: 'Web',
+};
+
+export const SessionsScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const { signOutAllDevices } = useAuthStore();
+  const { showSnackbar } = useSnackbar();
+  const { colors, spacing, borderRadius } = useAppTheme();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await authService.getSessions();
+      setSessions(response.data);
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = (session: ActiveSession) => {
+    Alert.alert(
+      'Sign Out Device',
+      `Sign out of ${session.deviceName}? It will need to sign in again to use your account.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await authService.revokeSession(session.id);
+              setSessions((prev) => prev.filter((s) => s.id !== session.id));
+              showSnackbar(`Signed out of ${session.deviceName}`, 'success');
+            } catch (revokeError) {
+              showSnackbar((revokeError as Error).message, 'error');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSignOutAll = () => {
+    Alert.alert(
+      'Sign Out of All Devices',
+      'This signs you out everywhere, including this device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out All',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await signOutAllDevices();
+            } catch (signOutError) {
+              showSnackbar((signOutError as Error).message, 'error');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <LoadingSpinner />;
+    }
+
+    if (error) {
+      return (
+        <View style={{ padding: spacing.lg }}>
+          <EmptyState icon="cloud-off-outline" title="Couldn't load sessions" message={error} />
+          <AppButton label="Try Again" variant="glass" onPress={loadSessions} />
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <View style={[styles.content, { padding: spacing.lg }]}>
+          <AppText
+            variant="caption"
+            color={colors.textSecondary}
+            style={{ marginBottom: spacing.md }}
+          >
+            These devices are signed in to your account.
+          </AppText>
+
+          {sessions.map((session) => (
+            <AppCard
+              key={session.id}
+              variant="glass"
+              style={StyleSheet.flatten([
+                styles.sessionCard,
+                { marginBottom: spacing.md, borderRadius: borderRadius.lg },
+              ])}
+            >
+              <Text style={styles.deviceIcon}>{session.platform === 'web' ? '💻' : '📱'}</Text>
+              <View style={styles.sessionInfo}>
+                <AppText variant="body" style={{ fontWeight: '600' }}>
+                  {session.deviceName}
+                  {session.current && (
+                    <AppText variant="caption" color={colors.accent}>
+                      {'  '}This device
+                    </AppText>
+                  )}
+                </AppText>
+                <AppText variant="caption" color={colors.textSecondary}>
+                  {PLATFORM_LABELS[session.platform] ?? session.platform} · Last active:{' '}
+                  {formatDate(session.lastActiveAt)}
+                </AppText>
+                <AppText variant="caption" color={colors.textSecondary}>
+                  Signed in {formatDateFull(session.createdAt)}
+                </AppText>
+              </View>
+              {!session.current && (
+                <TouchableOpacity onPress={() => handleRevoke(session)}>
+                  <AppText variant="caption" color={colors.error}>
+                    Sign out
+                  </AppText>
+                </TouchableOpacity>
+              )}
+            </AppCard>
+          ))}
+
+          <AppButton
+            label="Sign Out of All Devices"
+            variant="glass"
+            onPress={handleSignOutAll}
+            style={styles.signOutAllButton}
+          />
+        </View>
+      </ScrollView>
+    );
+  };
+
+  return (
+    <GradientBackground>
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={[styles.header, { paddingHorizontal: spacing.lg, paddingTop: spacing.lg }]}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <Text style={[styles.backIcon, { color: colors.textPrimary }]}>←</Text>
+          </TouchableOpacity>
+          <AppText variant="h1" style={{ fontWeight: '700' }}>
+            Sessions
+          </AppText>
+          <View style={styles.placeholder} />
+        </View>
+
+        {renderContent()}
+      </SafeAreaView>
+    </GradientBackground>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacingConstants.md,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: borderRadiusConstants.full,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  backIcon: {
+    fontSize: 24,
+    fontWeight: '300',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    paddingBottom: spacingConstants.xl,
+  },
+  sessionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacingConstants.md,
+    padding: spacingConstants.md,
+  },
+  deviceIcon: {
+    fontSize: 24,
+  },
+  sessionInfo: {
+    flex: 1,
+    gap: spacingConstants.xs,
+  },
+  signOutAllButton: {
+    marginTop: spacingConstants.lg,
+  },
+});
+
+SessionsScreen.displayName = 'SessionsScreen';
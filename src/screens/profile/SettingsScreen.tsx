@@ -11,15 +11,34 @@ import { spacing as spacingConstants, borderRadius as borderRadiusConstants } fr
 import { useAuthStore } from '../../features/authStore';
 import { useProfileStore } from '../../features/profileStore';
 import { useThemeStore } from '../../features/themeStore';
+import { useSyncStore } from '../../stores/syncStore';
 import { useSnackbar } from '../../hooks/useSnackbar';
+import { ClosetItem, SyncConflict } from '../../models';
+import { formatDate } from '../../utils/date';
 
 type NavigationProp = NativeStackNavigationProp<MainStackParamList>;
 
+const describeConflict = (conflict: SyncConflict) => {
+  const item = (conflict.remote ?? conflict.local) as ClosetItem | undefined;
+  const subject =
+    conflict.entity === 'profile'
+      ? 'your profile'
+      : `your ${item?.colors?.[0] ?? ''} ${item?.category ?? 'item'}`.replace('  ', ' ');
+
+  if (conflict.rejectedReason) {
+    return `A change to ${subject} wasn't saved: ${conflict.rejectedReason}`;
+  }
+  return conflict.remote
+    ? `A newer edit to ${subject} from ${formatDate(conflict.remoteUpdatedAt)} replaced yours`
+    : `${subject.charAt(0).toUpperCase()}${subject.slice(1)} was deleted on another device`;
+};
+
 export const SettingsScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
   const { user, logout } = useAuthStore();
   const { deleteAccount } = useProfileStore();
   const { themeMode, setThemeMode } = useThemeStore();
+  const { outbox, conflicts, status, flush, dismissConflict, clearConflicts } = useSyncStore();
   const { showSnackbar } = useSnackbar();
   const { colors, spacing, borderRadius } = useAppTheme();
   const [isDarkMode, setIsDarkMode] = React.useState(themeMode === 'dark');
@@ -54,6 +73,13 @@ export const SettingsScreen: React.FC = () => {
     );
   };
 
+  const syncLabel =
+    status === 'syncing'
+      ? 'Syncing…'
+      : outbox.length > 0
+        ? `${status === 'offline' ? 'Offline · ' : ''}${outbox.length} pending`
+        : 'Up to date';
+
   const handleLogout = () => {
     Alert.alert('Logout', 'Are you sure you want to logout?', [
       { text: 'Cancel', style: 'cancel' },
@@ -126,10 +152,59 @@ export const SettingsScreen: React.FC = () => {
               />
             </AppCard>
 
+            <AppCard
+              variant="glass"
+              style={StyleSheet.flatten([styles.section, { marginBottom: spacing.lg }])}
+            >
+              <AppText
+                variant="body"
+                style={[styles.sectionTitle, { marginBottom: spacing.md, fontWeight: '600' }]}
+              >
+                Sync
+              </AppText>
+              <SettingItem
+                icon="🔄"
+                title="Sync Now"
+                onPress={() => flush()}
+                right={
+                  <AppText variant="caption" color={colors.textSecondary}>
+                    {syncLabel}
+                  </AppText>
+                }
+              />
+              {conflicts.map((conflict) => (
+                <View
+                  key={conflict.id}
+                  style={[styles.conflict, { borderColor: colors.glassBorder, gap: spacing.sm }]}
+                >
+                  <AppText variant="caption" color={colors.textPrimary} style={styles.conflictText}>
+                    {describeConflict(conflict)}
+                  </AppText>
+                  <TouchableOpacity onPress={() => dismissConflict(conflict.id)}>
+                    <AppText variant="caption" color={colors.accent}>
+                      Dismiss
+                    </AppText>
+                  </TouchableOpacity>
+                </View>
+              ))}
+              {conflicts.length > 1 && (
+                <TouchableOpacity onPress={clearConflicts} style={{ marginTop: spacing.sm }}>
+                  <AppText variant="caption" color={colors.accent}>
+                    Dismiss all
+                  </AppText>
+                </TouchableOpacity>
+              )}
+            </AppCard>
+
             <AppCard variant="glass" style={[styles.section, { marginBottom: spacing.lg }]}>
               <AppText variant="body" style={[styles.sectionTitle, { marginBottom: spacing.md, fontWeight: '600' }]}>
                 Account
               </AppText>
+              <SettingItem
+                icon="📱"
+                title="Active Sessions"
+                onPress={() => navigation.navigate(ROUTES.SESSIONS)}
+              />
               <SettingItem icon="🔒" title="Privacy Policy" onPress={() => {}} />
               <SettingItem icon="📄" title="Terms of Service" onPress={() => {}} />
               <SettingItem icon="🗑️" title="Delete Account" onPress={handleDeleteAccount} destructive />
@@ -207,6 +282,15 @@ const styles = StyleSheet.create({
   settingIcon: {
     fontSize: 20,
   },
+  conflict: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacingConstants.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  conflictText: {
+    flex: 1,
+  },
   logoutButton: {
     marginTop: spacingConstants.xl,
   },
@@ -1,106 +1,97 @@
-import { apiClient } from '../utils/api';
-import { User, AuthTokens, APIResponse } from '../models';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { mockUsers } from '../data/mockData';
+import { ApiError, callEndpoint } from '../utils/api';
+import { credentialStore } from '../utils/credentialStore';
+import { ENDPOINTS, ActiveSession, AuthSession } from '../api/endpoints';
+import { User, APIResponse } from '../models';
+
+export type { ActiveSession } from '../api/endpoints';
 
 class AuthService {
   async register(email: string, password: string, name: string): Promise<APIResponse<User>> {
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 500));
-    
-    const existingUser = mockUsers.find((u) => u.email === email);
-    if (existingUser) {
-      throw new Error('Email already registered');
-    }
-
-    const newUser: User = {
-      id: `user-${Date.now()}`,
-      email,
-      name,
-      createdAt: new Date().toISOString(),
-    };
-
-    mockUsers.push(newUser);
+    const response = await callEndpoint(ENDPOINTS.register, { body: { email, password, name } });
+    await this.storeSession(response.data);
 
-    const tokens: AuthTokens = {
-      accessToken: `token-${Date.now()}`,
-      refreshToken: `refresh-${Date.now()}`,
-    };
-
-    await AsyncStorage.setItem('accessToken', tokens.accessToken);
-    await AsyncStorage.setItem('refreshToken', tokens.refreshToken);
-    await AsyncStorage.setItem('userId', newUser.id);
-
-    return { data: newUser, message: 'Registration successful' };
+    return { data: response.data.user, message: response.message };
   }
 
   async login(email: string, password: string): Promise<APIResponse<User>> {
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    const user = mockUsers.find((u) => u.email === email);
-    if (!user || password !== 'demo123') {
-      throw new Error('Invalid email or password');
-    }
-
-    const tokens: AuthTokens = {
-      accessToken: `token-${Date.now()}`,
-      refreshToken: `refresh-${Date.now()}`,
-    };
+    const response = await callEndpoint(ENDPOINTS.login, { body: { email, password } });
+    await this.storeSession(response.data);
 
-    await AsyncStorage.setItem('accessToken', tokens.accessToken);
-    await AsyncStorage.setItem('refreshToken', tokens.refreshToken);
-    await AsyncStorage.setItem('userId', user.id);
-
-    return { data: user, message: 'Login successful' };
+    return { data: response.data.user, message: response.message };
   }
 
   async verifyAccount(email: string, code: string): Promise<APIResponse<{ verified: boolean }>> {
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    if (code !== '123456') {
-      throw new Error('Invalid verification code');
-    }
-
-    return { data: { verified: true }, message: 'Account verified' };
+    return callEndpoint(ENDPOINTS.verifyAccount, { body: { email, code } });
   }
 
   async forgotPassword(email: string): Promise<APIResponse<{ sent: boolean }>> {
-    await new Promise((resolve) => setTimeout(resolve, 500));
+    return callEndpoint(ENDPOINTS.forgotPassword, { body: { email } });
+  }
 
-    const user = mockUsers.find((u) => u.email === email);
-    if (!user) {
-      throw new Error('Email not found');
+  async resetPassword(
+    email: string,
+    code: string,
+    newPassword: string
+  ): Promise<APIResponse<{ reset: boolean }>> {
+    return callEndpoint(ENDPOINTS.resetPassword, { body: { email, code, newPassword } });
+  }
+
+  async logout(): Promise<void> {
+    const session = await credentialStore.load();
+    if (session) {
+      // Ends the session on the server too; when offline it still ends on this device
+      await callEndpoint(ENDPOINTS.logout, {
+        body: { refreshToken: session.tokens.refreshToken },
+      }).catch(() => undefined);
     }
+    await credentialStore.clear();
+  }
 
-    return { data: { sent: true }, message: 'Password reset email sent' };
+  // Forgets the session on this device without telling the server
+  async clearSession(): Promise<void> {
+    await credentialStore.clear();
   }
 
-  async resetPassword(email: string, code: string, newPassword: string): Promise<APIResponse<{ reset: boolean }>> {
-    await new Promise((resolve) => setTimeout(resolve, 500));
+  // The user saved with the session, available offline
+  async getStoredUser(): Promise<User | null> {
+    const session = await credentialStore.load();
+    return session?.user ?? null;
+  }
 
-    if (code !== '123456') {
-      throw new Error('Invalid reset code');
+  async getCurrentUser(): Promise<User | null> {
+    const session = await credentialStore.load();
+    if (!session) return null;
+
+    try {
+      const response = await callEndpoint(ENDPOINTS.getUser, {
+        params: { userId: session.user.id },
+      });
+      return response.data;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
     }
+  }
 
-    return { data: { reset: true }, message: 'Password reset successful' };
+  async getSessions(): Promise<APIResponse<ActiveSession[]>> {
+    return callEndpoint(ENDPOINTS.getSessions);
   }
 
-  async logout(): Promise<void> {
-    await AsyncStorage.removeItem('accessToken');
-    await AsyncStorage.removeItem('refreshToken');
-    await AsyncStorage.removeItem('userId');
+  async revokeSession(sessionId: string): Promise<APIResponse<{ revoked: boolean }>> {
+    return callEndpoint(ENDPOINTS.revokeSession, { params: { sessionId } });
   }
 
-  async getCurrentUser(): Promise<User | null> {
-    const userId = await AsyncStorage.getItem('userId');
-    if (!userId) return null;
+  async signOutAllDevices(): Promise<APIResponse<{ revoked: number }>> {
+    const response = await callEndpoint(ENDPOINTS.revokeAllSessions);
+    await credentialStore.clear();
+    return response;
+  }
 
-    return mockUsers.find((u) => u.id === userId) || null;
+  private async storeSession(session: AuthSession): Promise<void> {
+    await credentialStore.save({ user: session.user, tokens: session.tokens });
   }
 }
 
 export const authService = new AuthService();
-
-
-
-
@@ -1,16 +1,10 @@
 import { CatalogItem, APIResponse, ItemCategory } from '../models';
-import { mockCatalogItems } from '../data/mockData';
+import { callEndpoint } from '../utils/api';
+import { ENDPOINTS } from '../api/endpoints';
 
 class CatalogService {
   async getCatalogItems(category?: ItemCategory): Promise<APIResponse<CatalogItem[]>> {
-    await new Promise((resolve) => setTimeout(resolve, 400));
-
-    let items = mockCatalogItems;
-    if (category) {
-      items = items.filter((item) => item.category === category);
-    }
-
-    return { data: items };
+    return callEndpoint(ENDPOINTS.getCatalogItems, { query: { category } });
   }
 
   async trackCatalogView(itemId: string): Promise<void> {
@@ -25,7 +19,3 @@ class CatalogService {
 }
 
 export const catalogService = new CatalogService();
-
-
-
-
@@ -1,19 +1,20 @@
-import { ClosetItem, APIResponse, ItemCategory } from '../models';
-import { mockClosetItems } from '../data/mockData';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ClosetItem, APIResponse, ItemCategory, NewItemDetails } from '../models';
+import { closetItemRepository } from '../repositories';
+import { imageProcessingService } from './imageProcessingService';
 
+// Reads and writes the on-device repository; closetStore queues each change for sync
 class ClosetService {
   async getClosetItems(userId: string): Promise<APIResponse<ClosetItem[]>> {
     await new Promise((resolve) => setTimeout(resolve, 300));
 
-    const items = mockClosetItems.filter((item) => item.userId === userId);
+    const items = await closetItemRepository.findByUser(userId);
     return { data: items };
   }
 
   async getClosetItem(itemId: string): Promise<APIResponse<ClosetItem>> {
     await new Promise((resolve) => setTimeout(resolve, 200));
 
-    const item = mockClosetItems.find((item) => item.id === itemId);
+    const item = await closetItemRepository.findById(itemId);
     if (!item) {
       throw new Error('Item not found');
     }
@@ -27,13 +28,11 @@ class ClosetService {
     category: ItemCategory,
     colors: string[],
     tags: string[],
-    notes?: string
+    notes?: string,
+    details: NewItemDetails = {}
   ): Promise<APIResponse<ClosetItem>> {
-    await new Promise((resolve) => setTimeout(resolve, 600));
-
-    // Simulate AI scan
-    const aiConfidence = Math.random() * 0.2 + 0.8; // 0.8-1.0
-
+    // Writes are local; the sync outbox carries them to the server
+    const now = new Date().toISOString();
     const newItem: ClosetItem = {
       id: `item-${Date.now()}`,
       userId,
@@ -42,11 +41,12 @@ class ClosetService {
       colors,
       tags,
       notes,
-      createdAt: new Date().toISOString(),
-      aiConfidence,
+      createdAt: now,
+      ...details,
+      updatedAt: now,
     };
 
-    mockClosetItems.push(newItem);
+    await closetItemRepository.save(newItem);
     return { data: newItem, message: 'Item added successfully' };
   }
 
@@ -54,26 +54,36 @@ class ClosetService {
     itemId: string,
     updates: Partial<ClosetItem>
   ): Promise<APIResponse<ClosetItem>> {
-    await new Promise((resolve) => setTimeout(resolve, 400));
-
-    const item = mockClosetItems.find((item) => item.id === itemId);
+    const item = await closetItemRepository.findById(itemId);
     if (!item) {
       throw new Error('Item not found');
     }
 
-    Object.assign(item, updates);
+    // A new photo invalidates the cutout and thumbnail made from the old one
+    const staleImages =
+      updates.imageUri && updates.imageUri !== item.imageUri
+        ? { cutoutUri: item.cutoutUri, thumbnailUri: item.thumbnailUri }
+        : null;
+    if (staleImages) {
+      item.cutoutUri = undefined;
+      item.thumbnailUri = undefined;
+    }
+    Object.assign(item, updates, { updatedAt: new Date().toISOString() });
+    await closetItemRepository.save(item);
+    if (staleImages) {
+      imageProcessingService.deleteImages(staleImages);
+    }
     return { data: item, message: 'Item updated successfully' };
   }
 
   async deleteClosetItem(itemId: string): Promise<APIResponse<{ deleted: boolean }>> {
-    await new Promise((resolve) => setTimeout(resolve, 300));
-
-    const index = mockClosetItems.findIndex((item) => item.id === itemId);
-    if (index === -1) {
+    const item = await closetItemRepository.findById(itemId);
+    const deleted = await closetItemRepository.remove(itemId);
+    if (!item || !deleted) {
       throw new Error('Item not found');
     }
+    imageProcessingService.deleteImages(item);
 
-    mockClosetItems.splice(index, 1);
     return { data: { deleted: true }, message: 'Item deleted successfully' };
   }
 
@@ -87,7 +97,7 @@ class ClosetService {
   ): Promise<APIResponse<ClosetItem[]>> {
     await new Promise((resolve) => setTimeout(resolve, 300));
 
-    let items = mockClosetItems.filter((item) => item.userId === userId);
+    let items = await closetItemRepository.findByUser(userId);
 
     if (filters.category) {
       items = items.filter((item) => item.category === filters.category);
@@ -106,4 +116,3 @@ class ClosetService {
 }
 
 export const closetService = new ClosetService();
-
@@ -1,53 +1,19 @@
-import { Entitlements, APIResponse } from '../models';
-import { mockEntitlements } from '../data/mockData';
-import { FREE_PLAN_LIMITS, PRO_PLAN_LIMITS } from '../constants/limits';
+import { Entitlements, GenerationKind, APIResponse } from '../models';
+import { callEndpoint } from '../utils/api';
+import { ENDPOINTS } from '../api/endpoints';
+import { FREE_PLAN_LIMITS, PRO_PLAN_LIMITS, PARTIAL_GENERATE_COST } from '../constants/limits';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 class EntitlementsService {
   async getEntitlements(userId: string): Promise<APIResponse<Entitlements>> {
-    await new Promise((resolve) => setTimeout(resolve, 200));
-
-    let entitlements = mockEntitlements.find((e) => e.userId === userId);
-    if (!entitlements) {
-      entitlements = {
-        userId,
-        plan: 'free',
-        closetItemCount: 0,
-        generatesToday: 0,
-        lastGenerateDate: new Date().toISOString().split('T')[0],
-      };
-      mockEntitlements.push(entitlements);
-    }
-
-    // Reset daily count if new day
-    const today = new Date().toISOString().split('T')[0];
-    if (entitlements.lastGenerateDate !== today) {
-      entitlements.generatesToday = 0;
-      entitlements.lastGenerateDate = today;
-    }
-
-    return { data: entitlements };
+    return callEndpoint(ENDPOINTS.getEntitlements, { params: { userId } });
   }
 
   async upgradeToPro(userId: string): Promise<APIResponse<Entitlements>> {
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    let entitlements = mockEntitlements.find((e) => e.userId === userId);
-    if (!entitlements) {
-      entitlements = {
-        userId,
-        plan: 'pro',
-        closetItemCount: 0,
-        generatesToday: 0,
-        lastGenerateDate: new Date().toISOString().split('T')[0],
-      };
-      mockEntitlements.push(entitlements);
-    } else {
-      entitlements.plan = 'pro';
-    }
+    const response = await callEndpoint(ENDPOINTS.upgradeToPro, { params: { userId } });
 
     await AsyncStorage.setItem('userPlan', 'pro');
-    return { data: entitlements, message: 'Upgraded to Pro successfully' };
+    return response;
   }
 
   async checkClosetLimit(userId: string, currentCount: number): Promise<boolean> {
@@ -56,18 +22,18 @@ class EntitlementsService {
     return currentCount < limits.maxClosetItems;
   }
 
-  async checkGenerateLimit(userId: string): Promise<boolean> {
+  async checkGenerateLimit(userId: string, kind: GenerationKind = 'full'): Promise<boolean> {
     const entitlements = await this.getEntitlements(userId);
     const limits = entitlements.data.plan === 'pro' ? PRO_PLAN_LIMITS : FREE_PLAN_LIMITS;
-    return entitlements.data.generatesToday < limits.maxGeneratesPerDay;
+    const used =
+      entitlements.data.generatesToday +
+      entitlements.data.partialGeneratesToday * PARTIAL_GENERATE_COST;
+    const cost = kind === 'partial' ? PARTIAL_GENERATE_COST : 1;
+    return used + cost <= limits.maxGeneratesPerDay;
   }
 
-  async incrementGenerateCount(userId: string): Promise<void> {
-    const entitlements = mockEntitlements.find((e) => e.userId === userId);
-    if (entitlements) {
-      entitlements.generatesToday += 1;
-      entitlements.lastGenerateDate = new Date().toISOString().split('T')[0];
-    }
+  async incrementGenerateCount(userId: string, kind: GenerationKind = 'full'): Promise<void> {
+    await callEndpoint(ENDPOINTS.recordGenerate, { params: { userId }, body: { kind } });
   }
 }
 
@@ -0,0 +1,153 @@
+import { Platform } from 'react-native';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { Directory, File, Paths } from 'expo-file-system';
+import { APIResponse, ClosetItem, ItemImageSet, OutfitComposition } from '../models';
+import { PixelBuffer, getForegroundBounds } from '../utils/dominantColors';
+import { removeBackground, resizePixels, squareCrop } from '../utils/backgroundRemoval';
+import { base64ToBytes, encodePng, encodePngDataUri } from '../utils/pngEncoder';
+import { decodePng, decodePngDataUri } from '../utils/pngDecoder';
+import { renderComposition } from '../utils/flatLay';
+
+export interface ImageInput {
+  uri: string;
+  pixels?: PixelBuffer | null;
+}
+
+export interface ImageProcessor {
+  process(input: ImageInput): Promise<ItemImageSet>;
+}
+
+export interface FlatLayExport {
+  uri: string;
+  size: number;
+  missingItemIds: string[]; // items with no decodable cutout, left off the image
+}
+
+const CUTOUT_MAX_SIZE = 512;
+const THUMBNAIL_SIZE = 256;
+const FLAT_LAY_EXPORT_SIZE = 720;
+
+// Cutouts and thumbnails live as files next to the app's data; only their URIs are
+// stored on the item. Web has no file system, so there they stay data URIs.
+const imageDirectory = () => {
+  const directory = new Directory(Paths.document, 'item-images');
+  directory.create({ idempotent: true });
+  return directory;
+};
+
+const savePng = (pixels: PixelBuffer, directory: () => Directory, name: string): string => {
+  if (Platform.OS === 'web') return encodePngDataUri(pixels);
+
+  const file = new File(directory(), name);
+  file.write(encodePng(pixels));
+  return file.uri;
+};
+
+const loadPng = async (uri?: string): Promise<PixelBuffer | null> => {
+  if (!uri) return null;
+  // Items saved by earlier versions still carry data URIs
+  if (uri.startsWith('data:')) return decodePngDataUri(uri);
+
+  try {
+    return decodePng(await new File(uri).bytes());
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Builds a transparent cutout and a square thumbnail from the decoded photo. Either
+ * is left out when it can't be made, and the UI falls back to the original photo.
+ */
+export class OnDeviceImageProcessor implements ImageProcessor {
+  async process({ pixels }: ImageInput): Promise<ItemImageSet> {
+    if (!pixels || pixels.width === 0 || pixels.height === 0) return {};
+
+    const cutout = removeBackground(pixels);
+    const thumbnail = squareCrop(pixels, getForegroundBounds(pixels) ?? undefined);
+
+    const stamp = Date.now();
+    return {
+      cutoutUri: cutout
+        ? savePng(resizePixels(cutout, CUTOUT_MAX_SIZE), imageDirectory, `${stamp}-cutout.png`)
+        : undefined,
+      thumbnailUri: savePng(
+        resizePixels(thumbnail, THUMBNAIL_SIZE),
+        imageDirectory,
+        `${stamp}-thumbnail.png`
+      ),
+    };
+  }
+}
+
+class ImageProcessingService {
+  constructor(private processor: ImageProcessor) {}
+
+  setProcessor(processor: ImageProcessor): void {
+    this.processor = processor;
+  }
+
+  /**
+   * Decodes a photo at its full resolution, so the cutout is traced from every pixel and
+   * only scaled down afterwards. The image manipulator does the JPEG decoding natively
+   * and hands back a PNG, which is cheap to read here. Resolves null when the photo
+   * can't be read.
+   */
+  async decodePhoto(uri: string): Promise<PixelBuffer | null> {
+    try {
+      const image = await ImageManipulator.manipulate(uri).renderAsync();
+      const { base64 } = await image.saveAsync({ format: SaveFormat.PNG, base64: true });
+      return base64 ? decodePng(base64ToBytes(base64)) : null;
+    } catch (error) {
+      console.warn('Could not decode photo', error);
+      return null;
+    }
+  }
+
+  async processPhoto(input: ImageInput): Promise<APIResponse<ItemImageSet>> {
+    const data = await this.processor.process(input);
+    return { data };
+  }
+
+  // Removes the cutout and thumbnail files made for an item's photo
+  deleteImages(images: ItemImageSet): void {
+    [images.cutoutUri, images.thumbnailUri].forEach((uri) => {
+      if (!uri || uri.startsWith('data:')) return;
+      try {
+        new File(uri).delete();
+      } catch {
+        // Already gone
+      }
+    });
+  }
+
+  async exportComposition(
+    composition: OutfitComposition,
+    items: ClosetItem[],
+    size: number = FLAT_LAY_EXPORT_SIZE
+  ): Promise<APIResponse<FlatLayExport>> {
+    const sources = new Map<string, PixelBuffer>();
+    const missingItemIds: string[] = [];
+    for (const layer of composition.layers) {
+      const item = items.find((candidate) => candidate.id === layer.itemId);
+      const pixels = (await loadPng(item?.cutoutUri)) ?? (await loadPng(item?.thumbnailUri));
+      if (pixels) sources.set(layer.itemId, pixels);
+      else missingItemIds.push(layer.itemId);
+    }
+
+    if (sources.size === 0) {
+      throw new Error('None of these items have a cutout to compose yet');
+    }
+
+    // Written to a file because share targets only attach files, not data URIs. Each
+    // export replaces the last one, and the system may clear the cache at any time.
+    const uri = savePng(
+      renderComposition(composition, sources, size),
+      () => Paths.cache,
+      'flat-lay.png'
+    );
+    return { data: { uri, size, missingItemIds } };
+  }
+}
+
+export const imageProcessingService = new ImageProcessingService(new OnDeviceImageProcessor());
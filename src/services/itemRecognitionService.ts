@@ -0,0 +1,125 @@
+import { APIResponse, ItemCategory } from '../models';
+import {
+  PixelBuffer,
+  detectBackgroundColor,
+  extractDominantColors,
+  getForegroundBounds,
+} from '../utils/dominantColors';
+import { isNeutralColor } from '../utils/colorHarmony';
+
+export interface RecognizedField<T> {
+  value: T;
+  confidence: number; // 0-1
+}
+
+export interface ItemRecognitionResult {
+  category: RecognizedField<ItemCategory>;
+  colors: RecognizedField<string[]>;
+  tags: RecognizedField<string[]>;
+  confidence: number; // weighted across fields, stored as ClosetItem.aiConfidence
+}
+
+export interface RecognitionInput {
+  uri: string;
+  pixels?: PixelBuffer | null;
+}
+
+export interface ItemRecognitionService {
+  recognize(input: RecognitionInput): Promise<ItemRecognitionResult>;
+}
+
+// Category matters most when sorting a closet, tags least
+const FIELD_WEIGHTS = { category: 0.5, colors: 0.3, tags: 0.2 };
+
+const warmBrights = ['yellow', 'orange', 'coral', 'pink'];
+const darkTones = ['black', 'navy'];
+const earthTones = ['brown', 'beige'];
+
+// Silhouette height / width, tallest first. Shapes are rough but beat a coin flip.
+const silhouetteRules: { minRatio: number; category: ItemCategory; confidence: number }[] = [
+  { minRatio: 1.9, category: 'bottom', confidence: 0.45 },
+  { minRatio: 1.4, category: 'dress', confidence: 0.4 },
+  { minRatio: 1.05, category: 'outerwear', confidence: 0.3 },
+  { minRatio: 0.75, category: 'top', confidence: 0.4 },
+  { minRatio: 0.45, category: 'bag', confidence: 0.3 },
+  { minRatio: 0, category: 'shoes', confidence: 0.45 },
+];
+
+const inferTags = (category: ItemCategory, colors: string[]): string[] => {
+  const tags = new Set<string>();
+
+  if (colors.some((color) => warmBrights.includes(color))) tags.add('summer');
+  if (colors.some((color) => earthTones.includes(color)) && category === 'outerwear') {
+    tags.add('winter');
+  }
+  if (colors.length > 0 && colors.every((color) => darkTones.includes(color))) {
+    tags.add(category === 'dress' ? 'elegant' : 'formal');
+  }
+  if (colors.length > 0 && colors.every(isNeutralColor) && !tags.has('formal')) {
+    tags.add('casual');
+  }
+  if (category === 'shoes' && colors.includes('white')) tags.add('sporty');
+
+  return Array.from(tags);
+};
+
+/**
+ * Runs entirely on the device: colors come from the pixels, the category from the
+ * garment's silhouette and tags from both. Without pixels every field comes back empty
+ * with zero confidence so the user fills the form in by hand.
+ */
+export class OnDeviceRecognitionService implements ItemRecognitionService {
+  async recognize({ pixels }: RecognitionInput): Promise<ItemRecognitionResult> {
+    if (!pixels || pixels.width === 0 || pixels.height === 0) {
+      return {
+        category: { value: 'other', confidence: 0 },
+        colors: { value: [], confidence: 0 },
+        tags: { value: [], confidence: 0 },
+        confidence: 0,
+      };
+    }
+
+    const background = detectBackgroundColor(pixels);
+    const dominant = extractDominantColors(pixels);
+    const colors = {
+      value: dominant.map((color) => color.name as string),
+      confidence: dominant.reduce((sum, color) => sum + color.share, 0),
+    };
+
+    const bounds = getForegroundBounds(pixels, background);
+    const ratio = bounds ? bounds.height / bounds.width : 1;
+    const rule =
+      silhouetteRules.find((candidate) => ratio >= candidate.minRatio) ??
+      silhouetteRules[silhouetteRules.length - 1];
+    // Without a clear backdrop the silhouette is just the photo frame
+    const category = { value: rule.category, confidence: background ? rule.confidence : 0.1 };
+
+    const tagValues = inferTags(category.value, colors.value);
+    const tags = { value: tagValues, confidence: tagValues.length > 0 ? 0.35 : 0 };
+
+    return {
+      category,
+      colors,
+      tags,
+      confidence:
+        category.confidence * FIELD_WEIGHTS.category +
+        colors.confidence * FIELD_WEIGHTS.colors +
+        tags.confidence * FIELD_WEIGHTS.tags,
+    };
+  }
+}
+
+class RecognitionService {
+  constructor(private service: ItemRecognitionService) {}
+
+  setService(service: ItemRecognitionService): void {
+    this.service = service;
+  }
+
+  async recognizeItem(input: RecognitionInput): Promise<APIResponse<ItemRecognitionResult>> {
+    const data = await this.service.recognize(input);
+    return { data };
+  }
+}
+
+export const recognitionService = new RecognitionService(new OnDeviceRecognitionService());
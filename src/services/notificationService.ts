@@ -0,0 +1,78 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { OutfitPlan } from '../models';
+import { formatDateFull } from '../utils/date';
+
+const PLAN_REMINDER_CHANNEL = 'plan-reminders';
+
+// Reminders that arrive while the app is open are shown like any other notification
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+class NotificationService {
+  async canNotify(): Promise<boolean> {
+    if (Platform.OS === 'web') return false;
+    return (await Notifications.getPermissionsAsync()).granted;
+  }
+
+  /**
+   * Schedules the plan's reminder as a local notification, which fires even when the
+   * app is closed. Resolves false when notifications are off or unsupported; the
+   * in-app reminder covers those cases.
+   */
+  async schedulePlanReminder(plan: OutfitPlan): Promise<boolean> {
+    if (Platform.OS === 'web' || !plan.reminderAt) return false;
+    const date = new Date(plan.reminderAt);
+    if (date.getTime() <= Date.now()) return false;
+
+    try {
+      if (!(await this.requestPermission())) return false;
+      // The plan id doubles as the notification id, so it can be cancelled with the plan
+      await Notifications.scheduleNotificationAsync({
+        identifier: plan.id,
+        content: {
+          title: 'Outfit reminder',
+          body: `You planned an outfit for ${formatDateFull(plan.date)}.`,
+          data: { planId: plan.id },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date,
+          channelId: PLAN_REMINDER_CHANNEL,
+        },
+      });
+      return true;
+    } catch (error) {
+      console.warn('Could not schedule plan reminder', error);
+      return false;
+    }
+  }
+
+  async cancelPlanReminder(planId: string): Promise<void> {
+    if (Platform.OS === 'web') return;
+    await Notifications.cancelScheduledNotificationAsync(planId).catch(() => undefined);
+  }
+
+  private async requestPermission(): Promise<boolean> {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(PLAN_REMINDER_CHANNEL, {
+        name: 'Outfit reminders',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted || !current.canAskAgain) {
+      return current.granted;
+    }
+    return (await Notifications.requestPermissionsAsync()).granted;
+  }
+}
+
+export const notificationService = new NotificationService();
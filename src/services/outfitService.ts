@@ -1,19 +1,76 @@
-import { Outfit, ClosetItem, Occasion, WeatherContext, APIResponse } from '../models';
-import { mockOutfits, mockClosetItems } from '../data/mockData';
-import { formatDate } from '../utils/date';
+import {
+  Outfit,
+  ClosetItem,
+  OccasionId,
+  WeatherContext,
+  WearEvent,
+  OutfitPlan,
+  OutfitComposition,
+  OutfitItemSlot,
+  DressCode,
+  APIResponse,
+} from '../models';
+import {
+  closetItemRepository,
+  outfitPlanRepository,
+  outfitRepository,
+  wearEventRepository,
+} from '../repositories';
+import { getDressCode } from '../constants/dressCodes';
+import { buildItemWearLog } from '../utils/wearRotation';
+import { localDateKey } from '../utils/date';
+import {
+  GenerationOptions,
+  SLOT_CATEGORIES,
+  SLOT_ORDER,
+  defaultSeed,
+  generateOutfitCandidates,
+  scoreCombination,
+  validateOutfitSlots,
+} from '../utils/outfitEngine';
+import { syncComposition } from '../utils/flatLay';
+import { profileService } from './profileService';
 
+export type WearEventDetails = Partial<
+  Pick<WearEvent, 'date' | 'notes' | 'photoUri' | 'rating' | 'location'>
+>;
+
+// A hand-built outfit before it is saved
+export interface OutfitDraft {
+  name?: string;
+  occasion: OccasionId;
+  weather: WeatherContext;
+  items: Pick<OutfitItemSlot, 'slot' | 'itemId'>[];
+}
+
+// Outfits, wear events and plans live only in the on-device repositories for now
 class OutfitService {
   async generateOutfits(
     userId: string,
-    occasion: Occasion,
+    occasion: OccasionId,
     weather: WeatherContext,
-    closetItems: ClosetItem[]
+    closetItems: ClosetItem[],
+    options: GenerationOptions = {}
   ): Promise<APIResponse<Outfit[]>> {
     await new Promise((resolve) => setTimeout(resolve, 1000));
 
-    // Simple outfit generation logic
-    const outfits: Outfit[] = [];
-    const reasons = [
+    const dressCode = getDressCode(occasion, await this.customOccasions(userId));
+    const wearLog = buildItemWearLog(await this.userWearEvents(userId));
+    const context = {
+      occasion,
+      weather,
+      dressCode,
+      wearLog,
+      cooldownDays: options.cooldownDays,
+      preferences: options.preferences,
+    };
+    const seed = options.seed ?? defaultSeed(userId, context);
+    const candidates = generateOutfitCandidates(closetItems, context, { ...options, seed });
+    if (candidates.length === 0 && options.lockedItemIds && options.lockedItemIds.length > 0) {
+      throw new Error('Nothing in your closet goes with the locked pieces');
+    }
+
+    const fallbackReasons = [
       'Perfect combination for the occasion and weather',
       'Stylish and comfortable for all-day wear',
       'Balanced colors and textures create a cohesive look',
@@ -21,88 +78,165 @@ class OutfitService {
       'On-trend while maintaining personal style',
     ];
 
-    for (let i = 0; i < 3; i++) {
-      const top = closetItems.find((item) => item.category === 'top');
-      const bottom = closetItems.find((item) => item.category === 'bottom');
-      const shoes = closetItems.find((item) => item.category === 'shoes');
-      const outerwear = closetItems.find((item) => item.category === 'outerwear');
-      const accessory = closetItems.find((item) => item.category === 'accessory');
+    const outfits: Outfit[] = candidates.map((candidate, i) => ({
+      id: `outfit-${Date.now()}-${i}`,
+      userId,
+      occasion,
+      weather,
+      items: candidate.items,
+      reason:
+        candidate.reasons.length > 0
+          ? candidate.reasons.join('. ')
+          : fallbackReasons[i % fallbackReasons.length],
+      createdAt: new Date().toISOString(),
+    }));
 
-      if (!top || !bottom || !shoes) {
-        break; // Need at least top, bottom, shoes
-      }
+    // Kept so they can be opened, worn and planned; pruneGeneratedOutfits clears them out
+    // once later batches replace them
+    await outfitRepository.saveMany(outfits);
+    return { data: outfits };
+  }
 
-      const outfit: Outfit = {
-        id: `outfit-${Date.now()}-${i}`,
-        userId,
-        occasion,
-        weather,
-        items: [
-          { slot: 'top', itemId: top.id },
-          { slot: 'bottom', itemId: bottom.id },
-          { slot: 'shoes', itemId: shoes.id },
-          ...(outerwear ? [{ slot: 'outerwear', itemId: outerwear.id }] : []),
-          ...(accessory ? [{ slot: 'accessory', itemId: accessory.id }] : []),
-        ],
-        reason: reasons[i % reasons.length],
-        createdAt: new Date().toISOString(),
-      };
+  /**
+   * Drops earlier suggestions that were never worn, planned, laid out or kept, so that
+   * generating outfits doesn't grow the stored collection forever.
+   */
+  async pruneGeneratedOutfits(userId: string, keepOutfitIds: string[] = []): Promise<void> {
+    const [outfits, events, plans] = await Promise.all([
+      outfitRepository.findByUser(userId),
+      wearEventRepository.findByUser(userId),
+      outfitPlanRepository.findByUser(userId),
+    ]);
+    const keep = new Set([
+      ...keepOutfitIds,
+      ...events.map((event) => event.outfitId),
+      ...plans.map((plan) => plan.outfitId),
+    ]);
+    const stale = outfits.filter(
+      (outfit) =>
+        (outfit.source ?? 'generated') === 'generated' &&
+        !outfit.wornDate &&
+        !outfit.composition &&
+        !keep.has(outfit.id)
+    );
+    await outfitRepository.removeMany(stale.map((outfit) => outfit.id));
+  }
+
+  async createOutfit(userId: string, draft: OutfitDraft): Promise<APIResponse<Outfit>> {
+    await new Promise((resolve) => setTimeout(resolve, 300));
 
-      outfits.push(outfit);
+    const closetItems = await closetItemRepository.findByUser(userId);
+    const slots = draft.items.map((slot) => {
+      const item = closetItems.find((i) => i.id === slot.itemId);
+      if (!item) {
+        throw new Error('Item not found in your closet');
+      }
+      return { slot: slot.slot, itemId: slot.itemId, item };
+    });
+    const problems = validateOutfitSlots(slots);
+    if (problems.length > 0) {
+      throw new Error(problems[0]);
     }
 
-    return { data: outfits };
+    const { reasons } = scoreCombination(
+      slots.map((slot) => slot.item),
+      { occasion: draft.occasion, weather: draft.weather },
+      undefined,
+      getDressCode(draft.occasion, await this.customOccasions(userId))
+    );
+
+    const outfit: Outfit = {
+      id: `outfit-${Date.now()}`,
+      userId,
+      name: draft.name?.trim() || undefined,
+      source: 'manual',
+      occasion: draft.occasion,
+      weather: draft.weather,
+      items: slots
+        .map(({ slot, itemId }) => ({ slot, itemId }))
+        .sort((a, b) => SLOT_ORDER.indexOf(a.slot) - SLOT_ORDER.indexOf(b.slot)),
+      reason: reasons.length > 0 ? reasons.join('. ') : 'Put together from your closet',
+      createdAt: new Date().toISOString(),
+    };
+
+    await outfitRepository.save(outfit);
+    return { data: await this.populateOutfit(outfit), message: 'Outfit saved' };
   }
 
   async getOutfit(outfitId: string): Promise<APIResponse<Outfit>> {
     await new Promise((resolve) => setTimeout(resolve, 200));
 
-    const outfit = mockOutfits.find((o) => o.id === outfitId);
+    const outfit = await outfitRepository.findById(outfitId);
     if (!outfit) {
       throw new Error('Outfit not found');
     }
 
-    // Populate items
-    outfit.items = outfit.items.map((slot) => {
-      const item = mockClosetItems.find((i) => i.id === slot.itemId);
-      return { ...slot, item };
-    });
-
-    return { data: outfit };
+    return { data: await this.populateOutfit(outfit) };
   }
 
   async saveOutfitToHistory(outfitId: string): Promise<APIResponse<Outfit>> {
     await new Promise((resolve) => setTimeout(resolve, 300));
 
-    const outfit = mockOutfits.find((o) => o.id === outfitId);
+    const outfit = await outfitRepository.findById(outfitId);
     if (!outfit) {
       throw new Error('Outfit not found');
     }
 
-    outfit.wornDate = new Date().toISOString().split('T')[0];
-    return { data: outfit, message: 'Outfit saved to history' };
+    const worn = await this.recordWear(outfit.userId, outfit);
+    return { data: { ...outfit, wornDate: worn.date }, message: 'Outfit saved to history' };
+  }
+
+  async addWearEvent(
+    userId: string,
+    outfitId: string,
+    details: WearEventDetails = {}
+  ): Promise<APIResponse<WearEvent>> {
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const outfit = await outfitRepository.findById(outfitId);
+    if (!outfit) {
+      throw new Error('Outfit not found');
+    }
+
+    const event = await this.recordWear(userId, outfit, details);
+    const [populated] = await this.attachOutfits([event]);
+    return { data: populated, message: 'Wear logged' };
+  }
+
+  async removeWearEvent(eventId: string): Promise<APIResponse<{ deleted: boolean }>> {
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const removed = await wearEventRepository.findById(eventId);
+    if (!removed) {
+      throw new Error('Wear event not found');
+    }
+
+    await wearEventRepository.remove(eventId);
+    await this.syncWornDate(removed.outfitId);
+    return { data: { deleted: true }, message: 'Wear removed' };
+  }
+
+  async getWearEvents(userId: string): Promise<APIResponse<WearEvent[]>> {
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    return { data: await this.userWearEvents(userId) };
   }
 
   async getOutfitHistory(userId: string): Promise<APIResponse<Outfit[]>> {
     await new Promise((resolve) => setTimeout(resolve, 300));
 
-    const outfits = mockOutfits
-      .filter((o) => o.userId === userId && o.wornDate)
-      .sort((a, b) => {
-        const dateA = a.wornDate || '';
-        const dateB = b.wornDate || '';
-        return dateB.localeCompare(dateA);
-      });
-
-    // Populate items
-    outfits.forEach((outfit) => {
-      outfit.items = outfit.items.map((slot) => {
-        const item = mockClosetItems.find((i) => i.id === slot.itemId);
-        return { ...slot, item };
-      });
+    // Hand-built outfits are kept even before their first wear
+    const outfits = (
+      await outfitRepository.findWhere(
+        (o) => o.userId === userId && (!!o.wornDate || o.source === 'manual')
+      )
+    ).sort((a, b) => {
+      const dateA = a.wornDate || a.createdAt;
+      const dateB = b.wornDate || b.createdAt;
+      return dateB.localeCompare(dateA);
     });
 
-    return { data: outfits };
+    return { data: await this.populateOutfits(outfits) };
   }
 
   async replaceOutfitSlot(
@@ -112,35 +246,266 @@ class OutfitService {
   ): Promise<APIResponse<Outfit>> {
     await new Promise((resolve) => setTimeout(resolve, 400));
 
-    const outfit = mockOutfits.find((o) => o.id === outfitId);
+    const outfit = await outfitRepository.findById(outfitId);
     if (!outfit) {
       throw new Error('Outfit not found');
     }
 
-    const slotIndex = outfit.items.findIndex((item) => item.slot === slot);
+    const item = await closetItemRepository.findById(newItemId);
+    if (!item) {
+      throw new Error('Item not found');
+    }
+    if (!SLOT_CATEGORIES[slot].includes(item.category)) {
+      throw new Error(`A ${item.category} item can't be worn as ${slot}`);
+    }
+
+    // Replace the whole entry so a previously populated item doesn't linger
+    const entries = outfit.items.map(({ slot: entrySlot, itemId }) => ({
+      slot: entrySlot,
+      itemId,
+    }));
+    const slotIndex = entries.findIndex((entry) => entry.slot === slot);
     if (slotIndex !== -1) {
-      outfit.items[slotIndex].itemId = newItemId;
+      entries[slotIndex] = { slot, itemId: newItemId };
     } else {
-      outfit.items.push({ slot, itemId: newItemId });
+      entries.push({ slot, itemId: newItemId });
+    }
+    // A new slot can clash with the ones already there, like a dress over a top
+    const problems = validateOutfitSlots(entries);
+    if (problems.length > 0) {
+      throw new Error(problems[0]);
     }
+    const composition = outfit.composition && syncComposition(outfit.composition, entries);
 
-    return { data: outfit, message: 'Outfit updated' };
+    // Wears and plans point at the outfit by id, so editing one they reference would
+    // rewrite what was worn. Those outfits are forked into a new saved outfit instead.
+    const [worn, planned] = await Promise.all([
+      wearEventRepository.findWhere((event) => event.outfitId === outfitId),
+      outfitPlanRepository.findWhere((plan) => plan.outfitId === outfitId),
+    ]);
+    if (worn.length > 0 || planned.length > 0) {
+      const fork: Outfit = {
+        ...outfit,
+        id: `outfit-${Date.now()}`,
+        source: 'manual',
+        items: entries,
+        composition,
+        createdAt: new Date().toISOString(),
+        wornDate: undefined,
+      };
+      await outfitRepository.save(fork);
+      return { data: await this.populateOutfit(fork), message: 'Saved as a new outfit' };
+    }
+
+    const updated: Outfit = { ...outfit, items: entries, composition };
+    await outfitRepository.save(updated);
+    return { data: await this.populateOutfit(updated), message: 'Outfit updated' };
   }
 
-  canWearOutfitAgain(outfitId: string, daysSince: number = 7): boolean {
-    const outfit = mockOutfits.find((o) => o.id === outfitId);
-    if (!outfit || !outfit.wornDate) {
+  // Only outfits nothing was worn or planned with can go, so no history is lost
+  async removeOutfit(outfitId: string): Promise<APIResponse<{ deleted: boolean }>> {
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const [worn, planned] = await Promise.all([
+      wearEventRepository.findWhere((event) => event.outfitId === outfitId),
+      outfitPlanRepository.findWhere((plan) => plan.outfitId === outfitId),
+    ]);
+    if (worn.length > 0 || planned.length > 0) {
+      throw new Error("This outfit has been worn or planned, so it can't be removed");
+    }
+
+    const deleted = await outfitRepository.remove(outfitId);
+    if (!deleted) {
+      throw new Error('Outfit not found');
+    }
+
+    return { data: { deleted: true }, message: 'Outfit removed' };
+  }
+
+  async saveComposition(
+    outfitId: string,
+    composition: OutfitComposition
+  ): Promise<APIResponse<Outfit>> {
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const outfit = await outfitRepository.findById(outfitId);
+    if (!outfit) {
+      throw new Error('Outfit not found');
+    }
+
+    outfit.composition = { ...composition, updatedAt: new Date().toISOString() };
+    await outfitRepository.save(outfit);
+    return { data: await this.populateOutfit(outfit), message: 'Flat lay saved' };
+  }
+
+  async planOutfit(
+    userId: string,
+    outfitId: string,
+    date: string,
+    reminderAt?: string
+  ): Promise<APIResponse<OutfitPlan>> {
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const outfit = await outfitRepository.findById(outfitId);
+    if (!outfit) {
+      throw new Error('Outfit not found');
+    }
+
+    if (date < localDateKey()) {
+      throw new Error('Plans can only be made for today or later');
+    }
+
+    const plan: OutfitPlan = {
+      id: `plan-${Date.now()}`,
+      userId,
+      outfitId,
+      date,
+      reminderAt,
+      createdAt: new Date().toISOString(),
+    };
+
+    await outfitPlanRepository.save(plan);
+    const [populated] = await this.attachOutfits([plan]);
+    return { data: populated, message: 'Outfit planned' };
+  }
+
+  async removePlan(planId: string): Promise<APIResponse<{ deleted: boolean }>> {
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const deleted = await outfitPlanRepository.remove(planId);
+    if (!deleted) {
+      throw new Error('Plan not found');
+    }
+
+    return { data: { deleted: true }, message: 'Plan removed' };
+  }
+
+  async getPlans(userId: string): Promise<APIResponse<OutfitPlan[]>> {
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const plans = (await outfitPlanRepository.findByUser(userId)).sort((a, b) =>
+      a.date.localeCompare(b.date)
+    );
+    return { data: await this.attachOutfits(plans) };
+  }
+
+  async markPlanWorn(planId: string): Promise<APIResponse<WearEvent>> {
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const plan = await outfitPlanRepository.findById(planId);
+    if (!plan) {
+      throw new Error('Plan not found');
+    }
+
+    const outfit = await outfitRepository.findById(plan.outfitId);
+    if (!outfit) {
+      throw new Error('Outfit not found');
+    }
+
+    // Logged on the planned day, which may be past; the plan goes only once the wear is saved
+    const event = await this.recordWear(plan.userId, outfit, {
+      date: plan.date,
+      notes: plan.notes,
+    });
+    await outfitPlanRepository.remove(planId);
+    const [populated] = await this.attachOutfits([event]);
+    return { data: populated, message: 'Wear logged' };
+  }
+
+  async markReminderSent(planId: string): Promise<void> {
+    const plan = await outfitPlanRepository.findById(planId);
+    if (plan) {
+      await outfitPlanRepository.save({ ...plan, reminded: true });
+    }
+  }
+
+  async canWearOutfitAgain(outfitId: string, daysSince: number = 7): Promise<boolean> {
+    const lastWorn = (await wearEventRepository.findWhere((e) => e.outfitId === outfitId)).reduce<
+      string | null
+    >((latest, e) => (!latest || e.date > latest ? e.date : latest), null);
+    if (!lastWorn) {
       return true;
     }
 
-    const wornDate = new Date(outfit.wornDate);
+    const wornDate = new Date(lastWorn);
     const daysDiff = Math.floor((Date.now() - wornDate.getTime()) / (1000 * 60 * 60 * 24));
     return daysDiff >= daysSince;
   }
-}
 
-export const outfitService = new OutfitService();
+  // Outfits are built on the device, so fall back to built-in occasions when offline
+  private async customOccasions(userId: string): Promise<DressCode[] | undefined> {
+    try {
+      const response = await profileService.getProfile(userId);
+      return response.data.customOccasions;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async recordWear(
+    userId: string,
+    outfit: Outfit,
+    details: WearEventDetails = {}
+  ): Promise<WearEvent> {
+    const event: WearEvent = {
+      id: `wear-${Date.now()}`,
+      userId,
+      outfitId: outfit.id,
+      date: details.date ?? localDateKey(),
+      notes: details.notes,
+      photoUri: details.photoUri,
+      rating: details.rating,
+      location: details.location,
+      createdAt: new Date().toISOString(),
+    };
+
+    await wearEventRepository.save(event);
+    await this.syncWornDate(outfit.id);
+    return event;
+  }
 
+  // Outfit.wornDate mirrors the latest wear so older screens keep working
+  private async syncWornDate(outfitId: string): Promise<void> {
+    const outfit = await outfitRepository.findById(outfitId);
+    if (!outfit) return;
 
+    const dates = (await wearEventRepository.findWhere((e) => e.outfitId === outfitId))
+      .map((e) => e.date)
+      .sort((a, b) => b.localeCompare(a));
+    await outfitRepository.save({ ...outfit, wornDate: dates[0] });
+  }
 
+  // Joins closet items back into outfit slots; the repositories only store ids
+  private async populateOutfits(outfits: Outfit[]): Promise<Outfit[]> {
+    const items = new Map((await closetItemRepository.findAll()).map((item) => [item.id, item]));
+    return outfits.map((outfit) => ({
+      ...outfit,
+      items: outfit.items.map((slot) => ({ ...slot, item: items.get(slot.itemId) })),
+    }));
+  }
 
+  private async populateOutfit(outfit: Outfit): Promise<Outfit> {
+    const [populated] = await this.populateOutfits([outfit]);
+    return populated;
+  }
+
+  private async attachOutfits<T extends WearEvent | OutfitPlan>(records: T[]): Promise<T[]> {
+    const outfitIds = new Set(records.map((record) => record.outfitId));
+    const outfits = await this.populateOutfits(
+      await outfitRepository.findWhere((o) => outfitIds.has(o.id))
+    );
+    return records.map((record) => ({
+      ...record,
+      outfit: outfits.find((o) => o.id === record.outfitId),
+    }));
+  }
+
+  private async userWearEvents(userId: string): Promise<WearEvent[]> {
+    const events = (await wearEventRepository.findByUser(userId)).sort(
+      (a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt)
+    );
+    return this.attachOutfits(events);
+  }
+}
+
+export const outfitService = new OutfitService();
@@ -0,0 +1,31 @@
+import { APIResponse } from '../models';
+import { callEndpoint } from '../utils/api';
+import { ENDPOINTS, SuggestionPage } from '../api/endpoints';
+
+export type { SuggestionPage } from '../api/endpoints';
+
+export const SUGGESTION_PAGE_SIZE = 5;
+
+export interface SuggestionPageRequest {
+  cursor?: string | null; // from the previous page; omit for the first page
+  limit?: number;
+  excludeIds?: string[]; // suggestions the user has already swiped
+}
+
+class OutfitSuggestionService {
+  async getSuggestions(
+    userId: string,
+    request: SuggestionPageRequest = {}
+  ): Promise<APIResponse<SuggestionPage>> {
+    return callEndpoint(ENDPOINTS.getSuggestions, {
+      params: { userId },
+      query: {
+        cursor: request.cursor ?? undefined,
+        limit: request.limit ?? SUGGESTION_PAGE_SIZE,
+        exclude: request.excludeIds?.length ? request.excludeIds.join(',') : undefined,
+      },
+    });
+  }
+}
+
+export const outfitSuggestionService = new OutfitSuggestionService();
@@ -1,54 +1,58 @@
-import { apiClient } from '../utils/api';
+import { callEndpoint } from '../utils/api';
+import { credentialStore } from '../utils/credentialStore';
+import { ENDPOINTS } from '../api/endpoints';
 import { Profile, APIResponse } from '../models';
-import { mockProfiles } from '../data/mockData';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { profileRepository } from '../repositories';
 
 class ProfileService {
   async getProfile(userId: string): Promise<APIResponse<Profile>> {
-    await new Promise((resolve) => setTimeout(resolve, 300));
+    // Latest profile seen or edited on this device; edits reach the server via sync
+    const local = await profileRepository.findById(userId);
+
+    let response: APIResponse<Profile>;
+    try {
+      response = await callEndpoint(ENDPOINTS.getProfile, { params: { userId } });
+    } catch (error) {
+      // Offline, the copy on the device is still good to dress from
+      if (local) return { data: local };
+      throw error;
+    }
 
-    const profile = mockProfiles.find((p) => p.userId === userId);
-    if (!profile) {
-      const newProfile: Profile = { userId };
-      mockProfiles.push(newProfile);
-      return { data: newProfile };
+    // An edit still waiting in the outbox is newer than what the server sent back
+    if (local?.updatedAt && local.updatedAt > (response.data.updatedAt ?? '')) {
+      return { data: local };
     }
 
-    return { data: profile };
+    await profileRepository.save({ ...response.data, id: userId });
+    return response;
   }
 
   async updateProfile(userId: string, updates: Partial<Profile>): Promise<APIResponse<Profile>> {
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    let profile = mockProfiles.find((p) => p.userId === userId);
-    if (!profile) {
-      profile = { userId, ...updates };
-      mockProfiles.push(profile);
-    } else {
-      Object.assign(profile, updates);
-    }
+    // Writes are local; the sync outbox carries them to the server
+    const profile: Profile = {
+      ...((await profileRepository.findById(userId)) ?? { userId }),
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    await profileRepository.save({ ...profile, id: userId });
 
     return { data: profile, message: 'Profile updated successfully' };
   }
 
-  async deleteAccount(userId: string): Promise<APIResponse<{ deleted: boolean }>> {
-    await new Promise((resolve) => setTimeout(resolve, 500));
+  // Overwrites the local copy with the server's version after a sync conflict
+  async replaceProfile(profile: Profile): Promise<APIResponse<Profile>> {
+    await profileRepository.save({ ...profile, id: profile.userId });
+    return { data: profile };
+  }
 
-    const index = mockProfiles.findIndex((p) => p.userId === userId);
-    if (index !== -1) {
-      mockProfiles.splice(index, 1);
-    }
+  async deleteAccount(userId: string): Promise<APIResponse<{ deleted: boolean }>> {
+    const response = await callEndpoint(ENDPOINTS.deleteUser, { params: { userId } });
+    await profileRepository.remove(userId);
 
-    await AsyncStorage.removeItem('accessToken');
-    await AsyncStorage.removeItem('refreshToken');
-    await AsyncStorage.removeItem('userId');
+    await credentialStore.clear();
 
-    return { data: { deleted: true }, message: 'Account deleted successfully' };
+    return response;
   }
 }
 
 export const profileService = new ProfileService();
-
-
-
-
@@ -0,0 +1,14 @@
+import { APIResponse, SyncMutation } from '../models';
+import { callEndpoint } from '../utils/api';
+import { ENDPOINTS, PushResult } from '../api/endpoints';
+
+export type { PushResult } from '../api/endpoints';
+
+class SyncService {
+  // The server applies the change unless it already holds a newer version of the record
+  async pushMutation(mutation: SyncMutation): Promise<APIResponse<PushResult>> {
+    return callEndpoint(ENDPOINTS.pushMutation, { body: mutation });
+  }
+}
+
+export const syncService = new SyncService();
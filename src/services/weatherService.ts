@@ -0,0 +1,130 @@
+import { APIResponse, Coordinates, HourlyForecast, WeatherContext } from '../models';
+import { mockHourlyWeather } from '../data/weatherFixtures';
+
+export interface WeatherProvider {
+  getCurrentConditions(coords: Coordinates, at: Date): Promise<WeatherContext>;
+  getHourlyForecast(coords: Coordinates, from: Date, hours: number): Promise<HourlyForecast[]>;
+}
+
+const RAIN_CHANCE_THRESHOLD = 50; // percent
+const DEFAULT_FORECAST_HOURS = 12;
+const COORDINATE_PRECISION = 2; // ~1 km, close enough to share a forecast
+const MAX_CACHE_ENTRIES = 50;
+
+const startOfHour = (date: Date) => {
+  const hour = new Date(date);
+  hour.setMinutes(0, 0, 0);
+  return hour;
+};
+
+/**
+ * Offline provider backed by the fixture day in data/weatherFixtures. Temperatures
+ * drop with distance from 30° latitude so results vary by place but stay deterministic.
+ */
+export class LocalWeatherProvider implements WeatherProvider {
+  private forecastAt(coords: Coordinates, time: Date): HourlyForecast {
+    const fixture = mockHourlyWeather[time.getHours() % mockHourlyWeather.length];
+    const latitudeOffset = (Math.abs(coords.latitude) - 30) * 0.4;
+
+    return {
+      time: time.toISOString(),
+      temperature: Math.round(fixture.temperature - latitudeOffset),
+      isRaining: fixture.precipitationChance >= RAIN_CHANCE_THRESHOLD,
+      precipitationChance: fixture.precipitationChance,
+      windSpeed: fixture.windSpeed,
+      humidity: fixture.humidity,
+      uvIndex: fixture.uvIndex,
+    };
+  }
+
+  async getHourlyForecast(
+    coords: Coordinates,
+    from: Date,
+    hours: number
+  ): Promise<HourlyForecast[]> {
+    const start = startOfHour(from);
+    return Array.from({ length: hours }, (_, i) => {
+      const time = new Date(start.getTime() + i * 60 * 60 * 1000);
+      return this.forecastAt(coords, time);
+    });
+  }
+
+  async getCurrentConditions(coords: Coordinates, at: Date): Promise<WeatherContext> {
+    const dayStart = new Date(at);
+    dayStart.setHours(0, 0, 0, 0);
+    const day = await this.getHourlyForecast(coords, dayStart, 24);
+    const now = day[at.getHours()];
+    const temperatures = day.map((hour) => hour.temperature);
+
+    return {
+      temperature: now.temperature,
+      isRaining: now.isRaining,
+      minTemperature: Math.min(...temperatures),
+      maxTemperature: Math.max(...temperatures),
+      windSpeed: now.windSpeed,
+      humidity: now.humidity,
+      uvIndex: now.uvIndex,
+    };
+  }
+}
+
+class WeatherService {
+  private cache = new Map<string, Promise<unknown>>();
+
+  constructor(private provider: WeatherProvider) {}
+
+  setProvider(provider: WeatherProvider): void {
+    this.provider = provider;
+    this.cache.clear();
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  // Nearby coordinates within the same hour share one provider call
+  private cacheKey(kind: string, coords: Coordinates, at: Date, extra = '') {
+    const lat = coords.latitude.toFixed(COORDINATE_PRECISION);
+    const lon = coords.longitude.toFixed(COORDINATE_PRECISION);
+    return `${kind}:${lat},${lon}:${startOfHour(at).toISOString()}${extra}`;
+  }
+
+  private cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const hit = this.cache.get(key) as Promise<T> | undefined;
+    if (hit) return hit;
+
+    const pending = load().catch((error) => {
+      this.cache.delete(key);
+      throw error;
+    });
+    this.cache.set(key, pending);
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      // Maps iterate in insertion order, so the first key is the oldest entry
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    return pending;
+  }
+
+  async getCurrentConditions(
+    coords: Coordinates,
+    at: Date = new Date()
+  ): Promise<APIResponse<WeatherContext>> {
+    const data = await this.cached(this.cacheKey('current', coords, at), () =>
+      this.provider.getCurrentConditions(coords, at)
+    );
+    return { data };
+  }
+
+  async getHourlyForecast(
+    coords: Coordinates,
+    hours: number = DEFAULT_FORECAST_HOURS,
+    from: Date = new Date()
+  ): Promise<APIResponse<HourlyForecast[]>> {
+    const data = await this.cached(this.cacheKey('hourly', coords, from, `:${hours}`), () =>
+      this.provider.getHourlyForecast(coords, from, hours)
+    );
+    return { data };
+  }
+}
+
+export const weatherService = new WeatherService(new LocalWeatherProvider());
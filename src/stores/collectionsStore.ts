@@ -0,0 +1,196 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Outfit, OutfitSuggestion } from '../models';
+import { credentialStore } from '../utils/credentialStore';
+
+const MAX_BOARD_NAME_LENGTH = 40;
+
+// Outfits are stored as a small snapshot; the full outfit is loaded when opened
+export type BoardEntry =
+  | { key: string; kind: 'suggestion'; suggestion: OutfitSuggestion; addedAt: string }
+  | {
+      key: string;
+      kind: 'outfit';
+      outfitId: string;
+      title: string;
+      imageUri: string;
+      addedAt: string;
+    };
+
+export type Board = {
+  id: string;
+  name: string;
+  entries: BoardEntry[]; // newest first
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type NewBoardEntry =
+  | { kind: 'suggestion'; suggestion: OutfitSuggestion }
+  | { kind: 'outfit'; outfit: Outfit };
+
+type CollectionsState = {
+  boards: Record<string, Board[]>; // keyed by user id, in the order the user arranged them
+  getBoards: (userId: string) => Board[];
+  createBoard: (userId: string, name: string) => Board;
+  renameBoard: (userId: string, boardId: string, name: string) => void;
+  deleteBoard: (userId: string, boardId: string) => void;
+  moveBoard: (userId: string, boardId: string, toIndex: number) => void;
+  addToBoard: (userId: string, boardId: string, entry: NewBoardEntry) => void;
+  removeFromBoard: (userId: string, boardId: string, entryKey: string) => void;
+  moveEntry: (userId: string, entryKey: string, fromBoardId: string, toBoardId: string) => void;
+};
+
+type PersistedCollections = Pick<CollectionsState, 'boards'>;
+
+const NO_BOARDS: Board[] = [];
+
+// Keys identify the same suggestion or outfit across boards
+export const boardEntryKey = (entry: NewBoardEntry) =>
+  entry.kind === 'suggestion' ? `suggestion:${entry.suggestion.id}` : `outfit:${entry.outfit.id}`;
+
+const toBoardEntry = (entry: NewBoardEntry): BoardEntry => {
+  const key = boardEntryKey(entry);
+  const addedAt = new Date().toISOString();
+  if (entry.kind === 'suggestion') {
+    return { key, kind: 'suggestion', suggestion: entry.suggestion, addedAt };
+  }
+  const { outfit } = entry;
+  return {
+    key,
+    kind: 'outfit',
+    outfitId: outfit.id,
+    title:
+      outfit.name ?? `${outfit.occasion.charAt(0).toUpperCase()}${outfit.occasion.slice(1)} outfit`,
+    imageUri: outfit.items.find((slot) => slot.item)?.item?.imageUri ?? '',
+    addedAt,
+  };
+};
+
+const validateName = (name: string, boards: Board[], boardId?: string) => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Board name is required');
+  }
+  if (trimmed.length > MAX_BOARD_NAME_LENGTH) {
+    throw new Error(`Board names can be at most ${MAX_BOARD_NAME_LENGTH} characters`);
+  }
+  const taken = boards.some(
+    (board) => board.id !== boardId && board.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (taken) {
+    throw new Error('A board with that name already exists');
+  }
+  return trimmed;
+};
+
+export const useCollectionsStore = create<CollectionsState>()(
+  persist(
+    (set, get) => {
+      const setBoards = (userId: string, boards: Board[]) => {
+        set({ boards: { ...get().boards, [userId]: boards } });
+      };
+
+      const updateBoard = (userId: string, boardId: string, update: (board: Board) => Board) => {
+        setBoards(
+          userId,
+          get()
+            .getBoards(userId)
+            .map((board) =>
+              board.id === boardId
+                ? { ...update(board), updatedAt: new Date().toISOString() }
+                : board
+            )
+        );
+      };
+
+      return {
+        boards: {},
+        getBoards: (userId) => get().boards[userId] ?? NO_BOARDS,
+        createBoard: (userId, name) => {
+          const boards = get().getBoards(userId);
+          const now = new Date().toISOString();
+          const board: Board = {
+            id: `board-${Date.now()}`,
+            name: validateName(name, boards),
+            entries: [],
+            createdAt: now,
+            updatedAt: now,
+          };
+          setBoards(userId, [...boards, board]);
+          return board;
+        },
+        renameBoard: (userId, boardId, name) => {
+          const trimmed = validateName(name, get().getBoards(userId), boardId);
+          updateBoard(userId, boardId, (board) => ({ ...board, name: trimmed }));
+        },
+        deleteBoard: (userId, boardId) => {
+          setBoards(
+            userId,
+            get()
+              .getBoards(userId)
+              .filter((board) => board.id !== boardId)
+          );
+        },
+        moveBoard: (userId, boardId, toIndex) => {
+          const boards = [...get().getBoards(userId)];
+          const fromIndex = boards.findIndex((board) => board.id === boardId);
+          if (fromIndex === -1) return;
+          const [board] = boards.splice(fromIndex, 1);
+          boards.splice(Math.max(0, Math.min(toIndex, boards.length)), 0, board);
+          setBoards(userId, boards);
+        },
+        addToBoard: (userId, boardId, entry) => {
+          const boardEntry = toBoardEntry(entry);
+          updateBoard(userId, boardId, (board) =>
+            board.entries.some((existing) => existing.key === boardEntry.key)
+              ? board
+              : { ...board, entries: [boardEntry, ...board.entries] }
+          );
+        },
+        removeFromBoard: (userId, boardId, entryKey) => {
+          updateBoard(userId, boardId, (board) => ({
+            ...board,
+            entries: board.entries.filter((entry) => entry.key !== entryKey),
+          }));
+        },
+        moveEntry: (userId, entryKey, fromBoardId, toBoardId) => {
+          if (fromBoardId === toBoardId) return;
+          const entry = get()
+            .getBoards(userId)
+            .find((board) => board.id === fromBoardId)
+            ?.entries.find((existing) => existing.key === entryKey);
+          if (!entry) return;
+
+          updateBoard(userId, fromBoardId, (board) => ({
+            ...board,
+            entries: board.entries.filter((existing) => existing.key !== entryKey),
+          }));
+          updateBoard(userId, toBoardId, (board) =>
+            board.entries.some((existing) => existing.key === entryKey)
+              ? board
+              : { ...board, entries: [entry, ...board.entries] }
+          );
+        },
+      };
+    },
+    {
+      name: 'collections-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      version: 1, // Keeps boards per user
+      partialize: (state) => ({ boards: state.boards }),
+      migrate: async (persisted, version) => {
+        const state = persisted as { boards?: unknown };
+        if (version < 1) {
+          // Earlier versions kept one list for the device, so it goes to whoever is
+          // signed in now
+          const boards = Array.isArray(state.boards) ? (state.boards as Board[]) : [];
+          const session = await credentialStore.load();
+          return { boards: session && boards.length ? { [session.user.id]: boards } : {} };
+        }
+        return state as PersistedCollections;
+      },
+    }
+  )
+);
@@ -0,0 +1,58 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  PreferenceModel,
+  PreferenceWeights,
+  SwipeableSuggestion,
+  createPreferenceModel,
+  preferenceWeights,
+  recordSwipe,
+  suggestionFeatures,
+} from '../utils/preferenceModel';
+
+type PreferenceState = {
+  models: Record<string, PreferenceModel>; // keyed by user id
+  recordSwipe: (userId: string, suggestion: SwipeableSuggestion, liked: boolean) => void;
+  undoSwipe: (userId: string, suggestion: SwipeableSuggestion, liked: boolean) => void;
+  getWeights: (userId: string) => PreferenceWeights;
+  resetPreferences: (userId: string) => void;
+};
+
+export const usePreferenceStore = create<PreferenceState>()(
+  persist(
+    (set, get) => ({
+      models: {},
+      recordSwipe: (userId, suggestion, liked) => {
+        const model = get().models[userId] ?? createPreferenceModel();
+        set({
+          models: {
+            ...get().models,
+            [userId]: recordSwipe(model, suggestionFeatures(suggestion), liked),
+          },
+        });
+      },
+      undoSwipe: (userId, suggestion, liked) => {
+        const model = get().models[userId];
+        if (!model) return;
+        set({
+          models: {
+            ...get().models,
+            [userId]: recordSwipe(model, suggestionFeatures(suggestion), liked, true),
+          },
+        });
+      },
+      getWeights: (userId) => preferenceWeights(get().models[userId]),
+      resetPreferences: (userId) => {
+        const models = { ...get().models };
+        delete models[userId];
+        set({ models });
+      },
+    }),
+    {
+      name: 'preference-model',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ models: state.models }),
+    }
+  )
+);
@@ -0,0 +1,198 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SyncConflict, SyncEntity, SyncMutation, SyncRecord } from '../models';
+import { syncService } from '../services/syncService';
+import { ApiError } from '../utils/api';
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+const MAX_CONFLICTS = 50;
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline';
+
+export type NewSyncMutation = Pick<
+  SyncMutation,
+  'entity' | 'op' | 'recordId' | 'userId' | 'record' | 'updatedAt'
+>;
+
+// Writes the server's winning version of a record back into local state
+export type SyncHandler = (recordId: string, remote: SyncRecord | null) => Promise<void>;
+
+const handlers: Partial<Record<SyncEntity, SyncHandler>> = {};
+
+export const registerSyncHandler = (entity: SyncEntity, handler: SyncHandler) => {
+  handlers[entity] = handler;
+};
+
+/**
+ * Exponential backoff with jitter, so devices that lost their connection together
+ * don't all retry at the same moment.
+ */
+export const retryDelay = (attempt: number) => {
+  const ceiling = Math.min(BASE_RETRY_MS * 2 ** Math.max(0, attempt - 1), MAX_RETRY_MS);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+/**
+ * Whether the server refused the change itself, so sending it again can't succeed.
+ * Network failures, server errors, rate limits and expired sessions are all retried.
+ */
+const isRejected = (error: unknown): error is ApiError =>
+  error instanceof ApiError &&
+  error.status !== undefined &&
+  error.status >= 400 &&
+  error.status < 500 &&
+  ![401, 408, 429].includes(error.status);
+
+type SyncState = {
+  outbox: SyncMutation[]; // oldest first, replayed in order
+  conflicts: SyncConflict[]; // newest first
+  status: SyncStatus;
+  retryAttempt: number;
+  nextRetryAt: string | null;
+  lastSyncedAt: string | null;
+  enqueue: (mutation: NewSyncMutation) => void;
+  flush: () => Promise<void>;
+  dismissConflict: (conflictId: string) => void;
+  clearConflicts: () => void;
+};
+
+type PersistedSync = Pick<SyncState, 'outbox' | 'conflicts' | 'lastSyncedAt'>;
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+
+export const useSyncStore = create<SyncState>()(
+  persist(
+    (set, get) => ({
+      outbox: [],
+      conflicts: [],
+      status: 'idle',
+      retryAttempt: 0,
+      nextRetryAt: null,
+      lastSyncedAt: null,
+      enqueue: (mutation) => {
+        const queued: SyncMutation = {
+          ...mutation,
+          id: `mutation-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          queuedAt: new Date().toISOString(),
+          attempts: 0,
+        };
+        // Only the latest change to a record needs to reach the server
+        set((state) => ({
+          outbox: [
+            ...state.outbox.filter(
+              (m) => m.entity !== mutation.entity || m.recordId !== mutation.recordId
+            ),
+            queued,
+          ],
+        }));
+
+        // While offline the pending retry picks the change up
+        if (get().status !== 'offline') {
+          get().flush();
+        }
+      },
+      flush: () => {
+        if (flushing) return flushing;
+
+        flushing = (async () => {
+          if (retryTimer) clearTimeout(retryTimer);
+          retryTimer = null;
+          set({ status: 'syncing', nextRetryAt: null });
+
+          while (get().outbox.length > 0) {
+            const mutation = get().outbox[0];
+            try {
+              const { data } = await syncService.pushMutation(mutation);
+              if (data.status === 'conflict') {
+                await handlers[mutation.entity]?.(mutation.recordId, data.remote);
+                const conflict: SyncConflict = {
+                  id: `conflict-${mutation.id}`,
+                  entity: mutation.entity,
+                  recordId: mutation.recordId,
+                  op: mutation.op,
+                  local: mutation.record,
+                  remote: data.remote,
+                  localUpdatedAt: mutation.updatedAt,
+                  remoteUpdatedAt: data.remoteUpdatedAt,
+                  detectedAt: new Date().toISOString(),
+                };
+                set((state) => ({
+                  conflicts: [conflict, ...state.conflicts].slice(0, MAX_CONFLICTS),
+                }));
+              }
+              set((state) => ({
+                outbox: state.outbox.filter((m) => m.id !== mutation.id),
+                retryAttempt: 0,
+              }));
+            } catch (error) {
+              // Kept for the user to review, so it doesn't hold up the changes behind it
+              if (isRejected(error)) {
+                const now = new Date().toISOString();
+                const rejection: SyncConflict = {
+                  id: `conflict-${mutation.id}`,
+                  entity: mutation.entity,
+                  recordId: mutation.recordId,
+                  op: mutation.op,
+                  local: mutation.record,
+                  remote: null,
+                  localUpdatedAt: mutation.updatedAt,
+                  remoteUpdatedAt: now,
+                  detectedAt: now,
+                  rejectedReason: error.message,
+                };
+                set((state) => ({
+                  conflicts: [rejection, ...state.conflicts].slice(0, MAX_CONFLICTS),
+                  outbox: state.outbox.filter((m) => m.id !== mutation.id),
+                }));
+                continue;
+              }
+
+              const attempt = get().retryAttempt + 1;
+              const delay = retryDelay(attempt);
+              retryTimer = setTimeout(() => {
+                retryTimer = null;
+                get().flush();
+              }, delay);
+              set((state) => ({
+                status: 'offline',
+                retryAttempt: attempt,
+                nextRetryAt: new Date(Date.now() + delay).toISOString(),
+                outbox: state.outbox.map((m) =>
+                  m.id === mutation.id ? { ...m, attempts: m.attempts + 1 } : m
+                ),
+              }));
+              return;
+            }
+          }
+
+          set({ status: 'idle', retryAttempt: 0, lastSyncedAt: new Date().toISOString() });
+        })().finally(() => {
+          flushing = null;
+        });
+        return flushing;
+      },
+      dismissConflict: (conflictId) => {
+        set((state) => ({ conflicts: state.conflicts.filter((c) => c.id !== conflictId) }));
+      },
+      clearConflicts: () => set({ conflicts: [] }),
+    }),
+    {
+      name: 'sync-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state): PersistedSync => ({
+        outbox: state.outbox,
+        conflicts: state.conflicts,
+        lastSyncedAt: state.lastSyncedAt,
+      }),
+      // Replay whatever was still queued when the app last closed
+      onRehydrateStorage: () => (state) => {
+        if (state && state.outbox.length > 0) {
+          state.flush();
+        }
+      },
+    }
+  )
+);
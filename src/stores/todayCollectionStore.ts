@@ -1,29 +1,51 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { OutfitSuggestion } from '@/screens/home/WearTodayScreen';
+import { OutfitSuggestion } from '../models';
+import { localDateKey } from '../utils/date';
+
+// Older days are dropped once the archive grows past this
+const MAX_ARCHIVED_DAYS = 90;
+
+export type DayCollection = {
+  date: string; // local yyyy-MM-dd
+  accepted: OutfitSuggestion[];
+  rejected: OutfitSuggestion[];
+};
 
 type TodayCollectionState = {
+  date: string; // the day `accepted` and `rejected` belong to
   accepted: OutfitSuggestion[];
   rejected: OutfitSuggestion[];
+  archive: DayCollection[]; // past days with swipes, newest first
   addAccepted: (outfit: OutfitSuggestion) => void;
   addRejected: (outfit: OutfitSuggestion) => void;
   removeAccepted: (id: string) => void;
   removeRejected: (id: string) => void;
+  rollOver: () => void;
   clearAll: () => void;
 };
 
+type PersistedCollections = Pick<
+  TodayCollectionState,
+  'date' | 'accepted' | 'rejected' | 'archive'
+>;
+
 export const useTodayCollectionStore = create<TodayCollectionState>()(
   persist(
     (set, get) => ({
+      date: localDateKey(),
       accepted: [],
       rejected: [],
+      archive: [],
       addAccepted: (outfit) => {
+        get().rollOver();
         const cur = get().accepted;
         if (cur.some((x) => x.id === outfit.id)) return;
         set({ accepted: [outfit, ...cur] });
       },
       addRejected: (outfit) => {
+        get().rollOver();
         const cur = get().rejected;
         if (cur.some((x) => x.id === outfit.id)) return;
         set({ rejected: [outfit, ...cur] });
@@ -34,12 +56,48 @@ export const useTodayCollectionStore = create<TodayCollectionState>()(
       removeRejected: (id) => {
         set({ rejected: get().rejected.filter((x) => x.id !== id) });
       },
+      // Moves the current buckets into the archive once their day is over
+      rollOver: () => {
+        const { date, accepted, rejected, archive } = get();
+        const today = localDateKey();
+        if (date === today) return;
+        const hasSwipes = accepted.length > 0 || rejected.length > 0;
+        set({
+          date: today,
+          accepted: [],
+          rejected: [],
+          archive: hasSwipes
+            ? [{ date, accepted, rejected }, ...archive].slice(0, MAX_ARCHIVED_DAYS)
+            : archive,
+        });
+      },
       clearAll: () => set({ accepted: [], rejected: [] }),
     }),
     {
       name: 'today-collection',
       storage: createJSONStorage(() => AsyncStorage),
-      version: 2, // Increment version for new rejected field
+      version: 3, // Buckets swipes by day, with an archive of past days
+      partialize: (state) => ({
+        date: state.date,
+        accepted: state.accepted,
+        rejected: state.rejected,
+        archive: state.archive,
+      }),
+      migrate: (persisted, version) => {
+        const state = persisted as Partial<PersistedCollections>;
+        if (version < 3) {
+          // Earlier versions kept no dates, so existing swipes count as today's and
+          // move to the archive at the next rollover
+          return {
+            date: localDateKey(),
+            accepted: state.accepted ?? [],
+            rejected: state.rejected ?? [],
+            archive: [],
+          };
+        }
+        return state as PersistedCollections;
+      },
+      onRehydrateStorage: () => (state) => state?.rollOver(),
     }
   )
 );
@@ -1,86 +1,145 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import axios, { AxiosAdapter, AxiosError, AxiosInstance, AxiosResponse } from 'axios';
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
 import { APIResponse } from '../models';
-
-const API_BASE_URL = 'https://api.whear.app'; // Mock base URL
-
-class MockAPIAdapter {
-  private delay(min: number, max: number): Promise<void> {
-    const delayMs = Math.floor(Math.random() * (max - min + 1)) + min;
-    return new Promise((resolve) => setTimeout(resolve, delayMs));
-  }
-
-  private shouldError(): boolean {
-    return Math.random() < 0.1; // 10% chance of error
-  }
-
-  async get<T>(url: string, config?: any): Promise<{ data: APIResponse<T> }> {
-    await this.delay(300, 800);
-    
-    if (this.shouldError()) {
-      throw new Error('Network error: Please check your connection');
-    }
-
-    // Return mock data based on endpoint
-    const mockData = this.getMockDataForEndpoint<T>(url);
-    return { data: { data: mockData } as APIResponse<T> };
+import { API_BASE_URL, API_MODE, API_TIMEOUT_MS } from '../constants/config';
+import { ENDPOINTS, Endpoint, HttpMethod } from '../api/endpoints';
+import { handleMockRequest } from '../api/mockServer';
+import { credentialStore } from './credentialStore';
+
+const NETWORK_ERROR_MESSAGE = 'Network error: Please check your connection';
+const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please log in again.';
+// Access tokens this close to expiring are refreshed before the request goes out
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    skipAuth?: boolean; // sent without a token and never refreshed
+    retried?: boolean; // already replayed once with a refreshed token
   }
+}
 
-  async post<T>(url: string, data?: any, config?: any): Promise<{ data: APIResponse<T> }> {
-    await this.delay(300, 800);
-    
-    if (this.shouldError()) {
-      throw new Error('Network error: Please check your connection');
-    }
-
-    const mockData = this.getMockDataForEndpoint<T>(url, data);
-    return { data: { data: mockData, message: 'Success' } as APIResponse<T> };
-  }
-
-  async put<T>(url: string, data?: any, config?: any): Promise<{ data: APIResponse<T> }> {
-    await this.delay(300, 800);
-    
-    if (this.shouldError()) {
-      throw new Error('Network error: Please check your connection');
-    }
-
-    const mockData = this.getMockDataForEndpoint<T>(url, data);
-    return { data: { data: mockData, message: 'Updated successfully' } as APIResponse<T> };
+/**
+ * Error surfaced by every API call. `status` is the HTTP status, or undefined when the
+ * request never got an answer (offline, timed out).
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
   }
+}
 
-  async delete<T>(url: string, config?: any): Promise<{ data: APIResponse<T> }> {
-    await this.delay(300, 800);
-    
-    if (this.shouldError()) {
-      throw new Error('Network error: Please check your connection');
-    }
-
-    return { data: { data: {} as T, message: 'Deleted successfully' } as APIResponse<T> };
+// Routes requests to the local mock server instead of the network
+const mockAdapter: AxiosAdapter = async (config) => {
+  const method = (config.method ?? 'get').toUpperCase() as HttpMethod;
+  const body = typeof config.data === 'string' ? JSON.parse(config.data) : config.data;
+
+  let result;
+  try {
+    result = await handleMockRequest(method, config.url ?? '/', config.params, body, {
+      authorization: config.headers.get('Authorization')?.toString(),
+      deviceName: decodeURIComponent(config.headers.get('X-Device-Name')?.toString() ?? ''),
+      platform: config.headers.get('X-Device-Platform')?.toString(),
+    });
+  } catch (error) {
+    throw new AxiosError((error as Error).message, AxiosError.ERR_NETWORK, config);
   }
 
-  private getMockDataForEndpoint<T>(url: string, requestData?: any): T {
-    // This will be handled by individual services
-    return {} as T;
+  const response: AxiosResponse = {
+    data: result.data,
+    status: result.status,
+    statusText: String(result.status),
+    headers: {},
+    config,
+  };
+  if (result.status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${result.status}`,
+      AxiosError.ERR_BAD_REQUEST,
+      config,
+      undefined,
+      response
+    );
   }
-}
+  return response;
+};
 
 export const apiClient: AxiosInstance = axios.create({
   baseURL: API_BASE_URL,
-  timeout: 10000,
+  timeout: API_TIMEOUT_MS,
   headers: {
     'Content-Type': 'application/json',
+    // Names this device in the account's list of active sessions
+    'X-Device-Name': encodeURIComponent(Constants.deviceName ?? 'Unknown device'),
+    'X-Device-Platform': Platform.OS,
   },
+  // Without an adapter axios uses the platform's HTTP transport
+  adapter: API_MODE === 'mock' ? mockAdapter : undefined,
 });
 
-// Replace axios adapter with mock
-(apiClient as any).adapter = new MockAPIAdapter();
+type SessionExpiredHandler = () => Promise<void> | void;
+
+let onSessionExpired: SessionExpiredHandler | null = null;
+
+// Called once the refresh token is rejected; the auth store signs the user out
+export const setSessionExpiredHandler = (handler: SessionExpiredHandler) => {
+  onSessionExpired = handler;
+};
+
+// The refresh in flight; requests made meanwhile wait for it instead of starting another
+let refreshing: Promise<string> | null = null;
+
+const refreshAccessToken = () => {
+  if (!refreshing) {
+    refreshing = (async () => {
+      const session = await credentialStore.load();
+      if (!session) {
+        // Already signed out; nothing left to expire
+        throw new ApiError(SESSION_EXPIRED_MESSAGE, 401);
+      }
+      try {
+        const response = await callEndpoint(ENDPOINTS.refreshSession, {
+          body: { refreshToken: session.tokens.refreshToken },
+        });
+        await credentialStore.updateTokens(response.data);
+        return response.data.accessToken;
+      } catch (error) {
+        // Offline: keep the session and let the caller retry later
+        if (error instanceof ApiError && error.status === undefined) {
+          throw error;
+        }
+        await onSessionExpired?.();
+        throw new ApiError(SESSION_EXPIRED_MESSAGE, 401);
+      }
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+};
 
 // Request interceptor for auth token
 apiClient.interceptors.request.use(
   async (config) => {
-    const token = await AsyncStorage.getItem('accessToken');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
+    if (config.skipAuth) {
+      return config;
+    }
+    // A failed refresh is reported by the request that started it
+    await refreshing?.catch(() => undefined);
+    let session = await credentialStore.load();
+    if (session && Date.parse(session.tokens.expiresAt) - TOKEN_REFRESH_MARGIN_MS < Date.now()) {
+      await refreshAccessToken().catch((error: ApiError) => {
+        // Offline: send the old token and let the server decide
+        if (error.status !== undefined) throw error;
+      });
+      session = await credentialStore.load();
+    }
+    if (session) {
+      config.headers.Authorization = `Bearer ${session.tokens.accessToken}`;
     }
     return config;
   },
@@ -90,16 +149,55 @@ apiClient.interceptors.request.use(
 // Response interceptor for error handling
 apiClient.interceptors.response.use(
   (response) => response,
-  (error: AxiosError) => {
-    if (error.response?.status === 401) {
-      // Handle unauthorized
-      AsyncStorage.removeItem('accessToken');
-      AsyncStorage.removeItem('refreshToken');
+  async (error: AxiosError<APIResponse<unknown>> | ApiError) => {
+    // Already surfaced, e.g. the session ended before the request was sent
+    if (error instanceof ApiError) {
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
-  }
-);
 
+    const config = error.config;
+    if (error.response?.status === 401 && config && !config.skipAuth && !config.retried) {
+      // Another request may already have refreshed the token this one was sent with
+      const current = (await credentialStore.load())?.tokens.accessToken;
+      const isStale = current && config.headers.Authorization !== `Bearer ${current}`;
+      if (!isStale) {
+        await refreshAccessToken();
+      }
+      return apiClient.request({ ...config, retried: true });
+    }
 
+    if (!error.response) {
+      return Promise.reject(new ApiError(NETWORK_ERROR_MESSAGE));
+    }
+    const message = error.response.data?.error ?? error.message;
+    return Promise.reject(new ApiError(message, error.response.status));
+  }
+);
 
+interface RequestOptions<Body> {
+  params?: Record<string, string>; // fills the endpoint's `:name` path segments
+  query?: Record<string, string | number | undefined>;
+  body?: Body;
+}
 
+export const callEndpoint = async <Response, Body>(
+  endpoint: Endpoint<Response, Body>,
+  options: RequestOptions<Body> = {}
+): Promise<APIResponse<Response>> => {
+  const url = endpoint.path.replace(/:(\w+)/g, (_, key: string) => {
+    const value = options.params?.[key];
+    if (value === undefined) {
+      throw new Error(`Missing "${key}" for ${endpoint.path}`);
+    }
+    return encodeURIComponent(value);
+  });
+
+  const response = await apiClient.request<APIResponse<Response>>({
+    method: endpoint.method,
+    url,
+    params: options.query,
+    data: options.body,
+    skipAuth: !endpoint.authenticated,
+  });
+  return response.data;
+};
@@ -0,0 +1,169 @@
+import { Bounds, PixelBuffer, detectBackgroundColor, nearestColorName } from './dominantColors';
+
+export interface CutoutOptions {
+  tolerance?: number; // RGB distance still counted as backdrop
+  padding?: number; // fraction of the garment's size kept around it
+}
+
+const DEFAULT_TOLERANCE = 60;
+const DEFAULT_PADDING = 0.06;
+
+const pixelDistanceSquared = (data: PixelBuffer['data'], i: number, rgb: number[]) => {
+  const dr = data[i] - rgb[0];
+  const dg = data[i + 1] - rgb[1];
+  const db = data[i + 2] - rgb[2];
+  return dr * dr + dg * dg + db * db;
+};
+
+// Average of the border pixels that belong to the detected backdrop color
+const sampleBackdrop = (pixels: PixelBuffer): number[] | null => {
+  const background = detectBackgroundColor(pixels);
+  if (!background) return null;
+
+  const sum = [0, 0, 0];
+  let count = 0;
+  const visit = (x: number, y: number) => {
+    const i = (y * pixels.width + x) * 4;
+    const { data } = pixels;
+    if (nearestColorName(data[i], data[i + 1], data[i + 2]) !== background) return;
+    sum[0] += data[i];
+    sum[1] += data[i + 1];
+    sum[2] += data[i + 2];
+    count += 1;
+  };
+  for (let x = 0; x < pixels.width; x++) {
+    visit(x, 0);
+    visit(x, pixels.height - 1);
+  }
+  for (let y = 1; y < pixels.height - 1; y++) {
+    visit(0, y);
+    visit(pixels.width - 1, y);
+  }
+  return count > 0 ? sum.map((channel) => channel / count) : null;
+};
+
+export const cropPixels = (pixels: PixelBuffer, bounds: Bounds): PixelBuffer => {
+  const data = new Uint8Array(bounds.width * bounds.height * 4);
+  for (let y = 0; y < bounds.height; y++) {
+    const start = ((bounds.y + y) * pixels.width + bounds.x) * 4;
+    data.set(pixels.data.subarray(start, start + bounds.width * 4), y * bounds.width * 4);
+  }
+  return { width: bounds.width, height: bounds.height, data };
+};
+
+// Nearest-neighbour scaling so the longest side is at most `maxSize`
+export const resizePixels = (pixels: PixelBuffer, maxSize: number): PixelBuffer => {
+  const scale = Math.min(1, maxSize / Math.max(pixels.width, pixels.height));
+  if (scale === 1) return pixels;
+
+  const width = Math.max(1, Math.round(pixels.width * scale));
+  const height = Math.max(1, Math.round(pixels.height * scale));
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(pixels.height - 1, Math.floor(y / scale));
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(pixels.width - 1, Math.floor(x / scale));
+      const from = (sourceY * pixels.width + sourceX) * 4;
+      data.set(pixels.data.subarray(from, from + 4), (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+const padBounds = (bounds: Bounds, pixels: PixelBuffer, padding: number): Bounds => {
+  const pad = Math.round(Math.max(bounds.width, bounds.height) * padding);
+  const x = Math.max(0, bounds.x - pad);
+  const y = Math.max(0, bounds.y - pad);
+  return {
+    x,
+    y,
+    width: Math.min(pixels.width, bounds.x + bounds.width + pad) - x,
+    height: Math.min(pixels.height, bounds.y + bounds.height + pad) - y,
+  };
+};
+
+/**
+ * Clears the backdrop by flood-filling inward from the image border through pixels close
+ * to the backdrop color, so garment areas of a similar shade survive as long as they are
+ * enclosed. Returns the garment cropped to its bounds, or null when there is no uniform
+ * backdrop to remove.
+ */
+export const removeBackground = (
+  pixels: PixelBuffer,
+  { tolerance = DEFAULT_TOLERANCE, padding = DEFAULT_PADDING }: CutoutOptions = {}
+): PixelBuffer | null => {
+  const backdrop = sampleBackdrop(pixels);
+  if (!backdrop) return null;
+
+  const { width, height } = pixels;
+  const limit = tolerance * tolerance;
+  const data = new Uint8Array(pixels.data);
+  const visited = new Uint8Array(width * height);
+  // Each pixel is queued at most once
+  const queue = new Uint32Array(width * height);
+  let tail = 0;
+
+  const tryVisit = (x: number, y: number) => {
+    const index = y * width + x;
+    if (visited[index]) return;
+    visited[index] = 1;
+    if (pixelDistanceSquared(data, index * 4, backdrop) <= limit) {
+      queue[tail++] = index;
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    tryVisit(x, 0);
+    tryVisit(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    tryVisit(0, y);
+    tryVisit(width - 1, y);
+  }
+
+  for (let head = 0; head < tail; head++) {
+    const index = queue[head];
+    const x = index % width;
+    const y = Math.floor(index / width);
+    data[index * 4] = data[index * 4 + 1] = data[index * 4 + 2] = data[index * 4 + 3] = 0;
+    if (x > 0) tryVisit(x - 1, y);
+    if (x < width - 1) tryVisit(x + 1, y);
+    if (y > 0) tryVisit(x, y - 1);
+    if (y < height - 1) tryVisit(x, y + 1);
+  }
+
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  // Everything matched the backdrop, so there is nothing to cut out
+  if (maxX < 0) return null;
+
+  const bounds = { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+  return cropPixels({ width, height, data }, padBounds(bounds, pixels, padding));
+};
+
+/**
+ * Square crop centred on the middle of the image, or on `focus` when given.
+ */
+export const squareCrop = (pixels: PixelBuffer, focus?: Bounds): PixelBuffer => {
+  const size = Math.min(
+    pixels.width,
+    pixels.height,
+    focus ? Math.max(focus.width, focus.height) : Infinity
+  );
+  const centerX = focus ? focus.x + focus.width / 2 : pixels.width / 2;
+  const centerY = focus ? focus.y + focus.height / 2 : pixels.height / 2;
+  const x = Math.round(Math.min(Math.max(0, centerX - size / 2), pixels.width - size));
+  const y = Math.round(Math.min(Math.max(0, centerY - size / 2), pixels.height - size));
+  return cropPixels(pixels, { x, y, width: size, height: size });
+};
@@ -0,0 +1,97 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { ClosetItem, ItemCategory } from '../models';
+import { ItemWearLog, getWearCount } from './wearRotation';
+import { DEFAULT_CURRENCY } from './currency';
+
+export const NEVER_WORN_THRESHOLD_DAYS = 90;
+
+export interface ItemCostPerWear {
+  item: ClosetItem;
+  wears: number;
+  price: number;
+  currency: string;
+  costPerWear: number;
+}
+
+export interface ClosetValueSummary {
+  currency: string;
+  total: number;
+  itemCount: number;
+  byCategory: Partial<Record<ItemCategory, number>>;
+}
+
+export interface NeverWornItem {
+  item: ClosetItem;
+  daysOwned: number;
+}
+
+const itemCurrency = (item: ClosetItem) => item.currency ?? DEFAULT_CURRENCY;
+
+// Unworn items count as one wear so their cost per wear is simply the price
+export const getCostPerWear = (item: ClosetItem, log: ItemWearLog): number | null => {
+  if (item.purchasePrice === undefined) return null;
+  return item.purchasePrice / Math.max(1, getWearCount(log, item.id));
+};
+
+/**
+ * Cost per wear for every priced item, most expensive per wear first.
+ */
+export const rankByCostPerWear = (items: ClosetItem[], log: ItemWearLog): ItemCostPerWear[] =>
+  items
+    .flatMap((item) => {
+      const costPerWear = getCostPerWear(item, log);
+      if (item.purchasePrice === undefined || costPerWear === null) return [];
+      return [
+        {
+          item,
+          wears: getWearCount(log, item.id),
+          price: item.purchasePrice,
+          currency: itemCurrency(item),
+          costPerWear,
+        },
+      ];
+    })
+    .sort((a, b) => b.costPerWear - a.costPerWear);
+
+/**
+ * Totals purchase prices per category. Prices are never converted, so each currency gets
+ * its own summary, largest total first.
+ */
+export const summarizeClosetValue = (items: ClosetItem[]): ClosetValueSummary[] => {
+  const summaries: Record<string, ClosetValueSummary> = {};
+
+  items.forEach((item) => {
+    if (item.purchasePrice === undefined) return;
+
+    const currency = itemCurrency(item);
+    if (!summaries[currency]) {
+      summaries[currency] = { currency, total: 0, itemCount: 0, byCategory: {} };
+    }
+    const summary = summaries[currency];
+    summary.total += item.purchasePrice;
+    summary.itemCount += 1;
+    summary.byCategory[item.category] =
+      (summary.byCategory[item.category] ?? 0) + item.purchasePrice;
+  });
+
+  return Object.values(summaries).sort((a, b) => b.total - a.total);
+};
+
+/**
+ * Items that have never been worn and have been owned for longer than the threshold.
+ * Ownership starts at the purchase date when known, otherwise when the item was added.
+ */
+export const findNeverWorn = (
+  items: ClosetItem[],
+  log: ItemWearLog,
+  today: Date = new Date(),
+  thresholdDays: number = NEVER_WORN_THRESHOLD_DAYS
+): NeverWornItem[] =>
+  items
+    .filter((item) => getWearCount(log, item.id) === 0)
+    .map((item) => ({
+      item,
+      daysOwned: differenceInCalendarDays(today, parseISO(item.purchaseDate ?? item.createdAt)),
+    }))
+    .filter(({ daysOwned }) => daysOwned > thresholdDays)
+    .sort((a, b) => b.daysOwned - a.daysOwned);
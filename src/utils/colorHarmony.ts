@@ -0,0 +1,181 @@
+import { ColorName, colorHexMap, getColorHex } from './colors';
+
+export type HarmonyType =
+  | 'neutral'
+  | 'monochrome'
+  | 'analogous'
+  | 'complementary'
+  | 'triadic'
+  | 'mixed'
+  | 'clashing';
+
+export interface PaletteSwatch {
+  name: string;
+  hex: string;
+  isNeutral: boolean;
+}
+
+export interface PaletteAnalysis {
+  swatches: PaletteSwatch[];
+  harmony: HarmonyType;
+  score: number; // 0-1
+  notes: string[];
+}
+
+type PairRelation = 'same' | 'analogous' | 'complementary' | 'triadic' | 'clash';
+
+// Colors that sit quietly next to anything, regardless of their hue
+export const neutralColors: ColorName[] = ['black', 'white', 'gray', 'navy', 'beige', 'brown'];
+
+const relationScores: Record<PairRelation, number> = {
+  same: 0.9,
+  analogous: 0.85,
+  complementary: 0.8,
+  triadic: 0.7,
+  clash: 0.3,
+};
+
+const NEUTRAL_ANCHOR_BONUS = 0.1;
+const BUSY_PALETTE_PENALTY = 0.1;
+const MAX_CALM_HUES = 3;
+
+export const hexToHue = (hex: string): number => {
+  const value = hex.replace('#', '');
+  const r = parseInt(value.slice(0, 2), 16) / 255;
+  const g = parseInt(value.slice(2, 4), 16) / 255;
+  const b = parseInt(value.slice(4, 6), 16) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+
+  if (delta === 0) return 0;
+
+  let hue: number;
+  if (max === r) {
+    hue = ((g - b) / delta) % 6;
+  } else if (max === g) {
+    hue = (b - r) / delta + 2;
+  } else {
+    hue = (r - g) / delta + 4;
+  }
+
+  return Math.round((hue * 60 + 360) % 360);
+};
+
+export const isNeutralColor = (colorName: string): boolean => {
+  const name = colorName.toLowerCase();
+  // Unknown names fall back to gray in getColorHex, so treat them as neutral too
+  return !(name in colorHexMap) || neutralColors.includes(name as ColorName);
+};
+
+const hueDistance = (a: number, b: number) => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+const relate = (a: number, b: number): PairRelation => {
+  const distance = hueDistance(a, b);
+  if (distance <= 15) return 'same';
+  if (distance <= 45) return 'analogous';
+  if (distance >= 150) return 'complementary';
+  if (distance >= 100 && distance <= 140) return 'triadic';
+  return 'clash';
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const describePair = (a: string, b: string, relation: PairRelation): string | null => {
+  switch (relation) {
+    case 'analogous':
+      return `${capitalize(a)} and ${b} sit next to each other on the color wheel for a calm blend`;
+    case 'complementary':
+      return `${capitalize(a)} and ${b} are complementary, so each makes the other stand out`;
+    case 'triadic':
+      return `${capitalize(a)} and ${b} are evenly spaced on the wheel for a balanced, playful mix`;
+    case 'clash':
+      return `${capitalize(a)} and ${b} compete for attention`;
+    default:
+      return null;
+  }
+};
+
+const summarize = (relations: PairRelation[], hueCount: number): HarmonyType => {
+  if (relations.length === 0) return 'monochrome';
+  if (relations.every((relation) => relation === 'same')) return 'monochrome';
+  if (relations.some((relation) => relation === 'clash')) return 'clashing';
+  const distinct = relations.filter((relation) => relation !== 'same');
+  if (hueCount <= 3 && distinct.every((relation) => relation === 'triadic')) return 'triadic';
+  if (distinct.every((relation) => relation === 'analogous')) return 'analogous';
+  if (distinct.every((relation) => relation === 'complementary')) return 'complementary';
+  return 'mixed';
+};
+
+/**
+ * Scores a set of color names by their hue relationships. Neutrals never clash and
+ * slightly lift any palette they anchor; everything else is compared pairwise.
+ */
+export const analyzePalette = (colors: string[]): PaletteAnalysis => {
+  const names = Array.from(new Set(colors.map((color) => color.toLowerCase())));
+  const swatches: PaletteSwatch[] = names.map((name) => ({
+    name,
+    hex: getColorHex(name),
+    isNeutral: isNeutralColor(name),
+  }));
+
+  const neutrals = swatches.filter((swatch) => swatch.isNeutral);
+  const accents = swatches.filter((swatch) => !swatch.isNeutral);
+  const notes: string[] = [];
+
+  if (accents.length === 0) {
+    if (neutrals.length > 0) {
+      notes.push('An all-neutral palette is effortless and easy to layer');
+    }
+    return { swatches, harmony: 'neutral', score: 0.8, notes };
+  }
+
+  const relations: PairRelation[] = [];
+  for (let i = 0; i < accents.length; i++) {
+    for (let j = i + 1; j < accents.length; j++) {
+      const relation = relate(hexToHue(accents[i].hex), hexToHue(accents[j].hex));
+      relations.push(relation);
+      const note = describePair(accents[i].name, accents[j].name, relation);
+      if (note) notes.push(note);
+    }
+  }
+
+  let score =
+    relations.length > 0
+      ? relations.reduce((sum, relation) => sum + relationScores[relation], 0) / relations.length
+      : relationScores.same;
+
+  if (neutrals.length > 0) {
+    score += NEUTRAL_ANCHOR_BONUS;
+    notes.push(
+      `${capitalize(neutrals.map((swatch) => swatch.name).join(' and '))} ${
+        neutrals.length > 1 ? 'anchor' : 'anchors'
+      } the brighter tones`
+    );
+  }
+
+  if (accents.length > MAX_CALM_HUES) {
+    score -= BUSY_PALETTE_PENALTY;
+    notes.push('Several bold hues make this a busy palette');
+  }
+
+  const harmony = summarize(relations, accents.length);
+  if (harmony === 'monochrome') {
+    notes.unshift(`Tonal ${accents[0].name} keeps the look cohesive`);
+  }
+
+  return { swatches, harmony, score: Math.max(0, Math.min(1, score)), notes };
+};
+
+export const harmonyLabels: Record<HarmonyType, string> = {
+  neutral: 'Neutral',
+  monochrome: 'Monochrome',
+  analogous: 'Analogous',
+  complementary: 'Complementary',
+  triadic: 'Triadic',
+  mixed: 'Mixed harmony',
+  clashing: 'Bold contrast',
+};
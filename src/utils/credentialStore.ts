@@ -0,0 +1,116 @@
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuthTokens, User } from '../models';
+
+const SESSION_KEY = 'whear.session';
+// Earlier versions kept the session in plain AsyncStorage under these keys
+const LEGACY_KEYS = ['accessToken', 'refreshToken', 'userId', 'auth-storage'];
+
+export interface StoredSession {
+  user: User;
+  tokens: AuthTokens;
+}
+
+let secureStoreAvailable: Promise<boolean> | null = null;
+
+// Keychain on iOS and Keystore-encrypted storage on Android. Web has no keystore, so
+// there it falls back to AsyncStorage.
+const keystore = {
+  isSecure: () => {
+    if (!secureStoreAvailable) {
+      secureStoreAvailable = SecureStore.isAvailableAsync().catch(() => false);
+    }
+    return secureStoreAvailable;
+  },
+  getItem: async (key: string) =>
+    (await keystore.isSecure()) ? SecureStore.getItemAsync(key) : AsyncStorage.getItem(key),
+  setItem: async (key: string, value: string) =>
+    (await keystore.isSecure())
+      ? SecureStore.setItemAsync(key, value, {
+          // Never leaves the device in backups, and is unreadable while it is locked
+          keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+        })
+      : AsyncStorage.setItem(key, value),
+  removeItem: async (key: string) =>
+    (await keystore.isSecure()) ? SecureStore.deleteItemAsync(key) : AsyncStorage.removeItem(key),
+};
+
+// Moves a session left in AsyncStorage by an earlier version into the keystore
+const migrateLegacySession = async (): Promise<StoredSession | null> => {
+  const accessToken = await AsyncStorage.getItem('accessToken');
+  const refreshToken = await AsyncStorage.getItem('refreshToken');
+  const authState = await AsyncStorage.getItem('auth-storage');
+  await AsyncStorage.multiRemove(LEGACY_KEYS);
+
+  let user: User | undefined;
+  try {
+    user = authState ? JSON.parse(authState).state?.user : undefined;
+  } catch {
+    user = undefined;
+  }
+  if (!accessToken || !refreshToken || !user) return null;
+
+  // The expiry was never recorded, so the first request refreshes the token
+  const session: StoredSession = {
+    user,
+    tokens: { accessToken, refreshToken, expiresAt: new Date(0).toISOString() },
+  };
+  await keystore.setItem(SESSION_KEY, JSON.stringify(session));
+  return session;
+};
+
+const readSession = async (): Promise<StoredSession | null> => {
+  const raw = await keystore.getItem(SESSION_KEY);
+  if (!raw) {
+    return migrateLegacySession();
+  }
+  try {
+    return JSON.parse(raw) as StoredSession;
+  } catch (error) {
+    console.warn('Discarding unreadable stored session', error);
+    await keystore.removeItem(SESSION_KEY);
+    return null;
+  }
+};
+
+// Every request reads the session, so it is kept in memory after the first load
+let cached: Promise<StoredSession | null> | null = null;
+
+const write = async (session: StoredSession | null) => {
+  cached = Promise.resolve(session);
+  if (session) {
+    await keystore.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    await keystore.removeItem(SESSION_KEY);
+  }
+};
+
+/**
+ * The signed-in user and their tokens, kept together in the device keystore.
+ */
+export const credentialStore = {
+  load: (): Promise<StoredSession | null> => {
+    if (!cached) {
+      // A failed read is not remembered, so the next call tries the keystore again
+      const reading: Promise<StoredSession | null> = readSession().catch((error) => {
+        if (cached === reading) {
+          cached = null;
+        }
+        throw error;
+      });
+      cached = reading;
+    }
+    return cached;
+  },
+
+  save: (session: StoredSession) => write(session),
+
+  updateTokens: async (tokens: AuthTokens) => {
+    const session = await credentialStore.load();
+    if (session) {
+      await write({ ...session, tokens });
+    }
+  },
+
+  clear: () => write(null),
+};
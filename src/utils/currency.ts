@@ -0,0 +1,13 @@
+export const DEFAULT_CURRENCY = 'USD';
+
+// Offered as quick picks in forms; any ISO 4217 code is still accepted
+export const commonCurrencies = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY'];
+
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown currency codes make Intl throw
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+};
@@ -1,5 +1,8 @@
 import { format, isToday, isYesterday, parseISO, differenceInDays } from 'date-fns';
 
+// yyyy-MM-dd in the device's time zone, so days turn over at local midnight
+export const localDateKey = (date: Date = new Date()): string => format(date, 'yyyy-MM-dd');
+
 export const formatDate = (date: string | Date): string => {
   const dateObj = typeof date === 'string' ? parseISO(date) : date;
   
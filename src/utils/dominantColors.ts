@@ -0,0 +1,169 @@
+import { ColorName, colorHexMap, colorNames } from './colors';
+
+// Raw RGBA pixels, row-major
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+export interface DominantColor {
+  name: ColorName;
+  hex: string;
+  share: number; // 0-1 of the counted pixels
+}
+
+export interface ExtractOptions {
+  maxColors?: number;
+  minShare?: number;
+  maxSamples?: number;
+  ignoreBackground?: boolean;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const OPAQUE_ALPHA = 128;
+const BACKGROUND_BORDER_SHARE = 0.6;
+
+const palette = colorNames.map((name) => {
+  const hex = colorHexMap[name];
+  return {
+    name,
+    r: parseInt(hex.slice(1, 3), 16),
+    g: parseInt(hex.slice(3, 5), 16),
+    b: parseInt(hex.slice(5, 7), 16),
+  };
+});
+
+// "Redmean" weighted RGB distance, a cheap stand-in for a perceptual color space
+const colorDistance = (r1: number, g1: number, b1: number, r2: number, g2: number, b2: number) => {
+  const rMean = (r1 + r2) / 2;
+  const dr = r1 - r2;
+  const dg = g1 - g2;
+  const db = b1 - b2;
+  return (2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db;
+};
+
+export const nearestColorName = (r: number, g: number, b: number): ColorName => {
+  let best = palette[0];
+  let bestDistance = Infinity;
+  palette.forEach((entry) => {
+    const distance = colorDistance(r, g, b, entry.r, entry.g, entry.b);
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  });
+  return best.name;
+};
+
+const colorAt = (pixels: PixelBuffer, x: number, y: number): ColorName | null => {
+  const i = (y * pixels.width + x) * 4;
+  if (pixels.data[i + 3] < OPAQUE_ALPHA) return null;
+  return nearestColorName(pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]);
+};
+
+/**
+ * The color covering most of the image border, when it clearly dominates. Clothing is
+ * usually photographed centred, so that is almost always the backdrop.
+ */
+export const detectBackgroundColor = (pixels: PixelBuffer): ColorName | null => {
+  const counts = new Map<ColorName, number>();
+  let total = 0;
+  const count = (x: number, y: number) => {
+    const name = colorAt(pixels, x, y);
+    if (name) {
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+      total += 1;
+    }
+  };
+
+  for (let x = 0; x < pixels.width; x++) {
+    count(x, 0);
+    count(x, pixels.height - 1);
+  }
+  for (let y = 1; y < pixels.height - 1; y++) {
+    count(0, y);
+    count(pixels.width - 1, y);
+  }
+
+  let best: ColorName | null = null;
+  let bestCount = 0;
+  counts.forEach((value, name) => {
+    if (value > bestCount) {
+      best = name;
+      bestCount = value;
+    }
+  });
+  return total > 0 && bestCount / total >= BACKGROUND_BORDER_SHARE ? best : null;
+};
+
+/**
+ * Buckets pixels by their nearest named color and returns the most common ones. Fully
+ * transparent pixels are skipped, as is the detected background when requested.
+ */
+export const extractDominantColors = (
+  pixels: PixelBuffer,
+  {
+    maxColors = 3,
+    minShare = 0.08,
+    maxSamples = 10000,
+    ignoreBackground = true,
+  }: ExtractOptions = {}
+): DominantColor[] => {
+  const background = ignoreBackground ? detectBackgroundColor(pixels) : null;
+  const step = Math.max(1, Math.floor(Math.sqrt((pixels.width * pixels.height) / maxSamples)));
+  const counts = new Map<ColorName, number>();
+  let total = 0;
+
+  for (let y = 0; y < pixels.height; y += step) {
+    for (let x = 0; x < pixels.width; x += step) {
+      const name = colorAt(pixels, x, y);
+      if (!name || name === background) continue;
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+      total += 1;
+    }
+  }
+
+  // A garment the same color as its backdrop leaves nothing else to count
+  if (total === 0 && background) {
+    return [{ name: background, hex: colorHexMap[background], share: 1 }];
+  }
+
+  return Array.from(counts.entries())
+    .map(([name, value]) => ({ name, hex: colorHexMap[name], share: value / total }))
+    .filter((color) => color.share >= minShare)
+    .sort((a, b) => b.share - a.share)
+    .slice(0, maxColors);
+};
+
+/**
+ * Bounding box of everything that is neither transparent nor the background color.
+ */
+export const getForegroundBounds = (
+  pixels: PixelBuffer,
+  background: ColorName | null = detectBackgroundColor(pixels)
+): Bounds | null => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < pixels.height; y++) {
+    for (let x = 0; x < pixels.width; x++) {
+      const name = colorAt(pixels, x, y);
+      if (!name || name === background) continue;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
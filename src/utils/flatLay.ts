@@ -0,0 +1,155 @@
+import { FlatLayLayer, OutfitComposition, OutfitItemSlot } from '../models';
+import { PixelBuffer } from './dominantColors';
+
+type Slot = OutfitItemSlot['slot'];
+
+export const DEFAULT_CANVAS_BACKGROUND = '#F4EFE9';
+export const MIN_LAYER_SIZE = 0.12;
+export const MAX_LAYER_SIZE = 0.9;
+
+// Classic flat-lay arrangement: layers hang to the left, the core outfit runs top to
+// bottom through the middle and accessories sit in the free corner
+const SLOT_PLACEMENTS: Record<Slot, Omit<FlatLayLayer, 'itemId' | 'slot'>> = {
+  outerwear: { x: 0.3, y: 0.32, size: 0.5, zIndex: 0 },
+  dress: { x: 0.56, y: 0.42, size: 0.64, zIndex: 1 },
+  top: { x: 0.6, y: 0.27, size: 0.44, zIndex: 2 },
+  bottom: { x: 0.56, y: 0.66, size: 0.46, zIndex: 1 },
+  shoes: { x: 0.24, y: 0.8, size: 0.28, zIndex: 3 },
+  accessory: { x: 0.82, y: 0.78, size: 0.24, zIndex: 4 },
+};
+
+// Each further accessory moves up the right edge instead of stacking on the first one
+const ACCESSORY_STEP = 0.2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const placeSlot = (slot: OutfitItemSlot, sameSlotIndex: number): FlatLayLayer => {
+  const placement = SLOT_PLACEMENTS[slot.slot];
+  return {
+    itemId: slot.itemId,
+    slot: slot.slot,
+    ...placement,
+    y: clamp(placement.y - sameSlotIndex * ACCESSORY_STEP, 0, 1),
+    zIndex: placement.zIndex + sameSlotIndex,
+  };
+};
+
+export const autoArrange = (items: OutfitItemSlot[]): FlatLayLayer[] => {
+  const seen: Partial<Record<Slot, number>> = {};
+  return items.map((slot) => {
+    const index = seen[slot.slot] ?? 0;
+    seen[slot.slot] = index + 1;
+    return placeSlot(slot, index);
+  });
+};
+
+export const createComposition = (
+  items: OutfitItemSlot[],
+  background: string = DEFAULT_CANVAS_BACKGROUND
+): OutfitComposition => ({
+  layers: autoArrange(items),
+  background,
+  updatedAt: new Date().toISOString(),
+});
+
+/**
+ * Brings a saved composition in line with the outfit's current items: layers of items
+ * still in the outfit keep their hand-placed position, swapped-in items take over the
+ * spot of the item they replaced and anything new is auto-arranged.
+ */
+export const syncComposition = (
+  composition: OutfitComposition | undefined,
+  items: OutfitItemSlot[]
+): OutfitComposition => {
+  if (!composition) return createComposition(items);
+
+  const remaining = [...composition.layers];
+  const auto = autoArrange(items);
+  const layers = items.map((slot, i) => {
+    const byItem = remaining.findIndex(
+      (layer) => layer.itemId === slot.itemId && layer.slot === slot.slot
+    );
+    const bySlot = byItem === -1 ? remaining.findIndex((layer) => layer.slot === slot.slot) : -1;
+    const index = byItem !== -1 ? byItem : bySlot;
+    if (index === -1) return auto[i];
+    const [layer] = remaining.splice(index, 1);
+    return { ...layer, itemId: slot.itemId };
+  });
+
+  return { ...composition, layers };
+};
+
+export const moveLayer = (layer: FlatLayLayer, dx: number, dy: number): FlatLayLayer => ({
+  ...layer,
+  x: clamp(layer.x + dx, 0, 1),
+  y: clamp(layer.y + dy, 0, 1),
+});
+
+export const resizeLayer = (layer: FlatLayLayer, size: number): FlatLayLayer => ({
+  ...layer,
+  size: clamp(size, MIN_LAYER_SIZE, MAX_LAYER_SIZE),
+});
+
+export const bringToFront = (layers: FlatLayLayer[], itemId: string): FlatLayLayer[] => {
+  const top = Math.max(...layers.map((layer) => layer.zIndex));
+  return layers.map((layer) =>
+    layer.itemId === itemId && layer.zIndex !== top ? { ...layer, zIndex: top + 1 } : layer
+  );
+};
+
+const hexToRgb = (hex: string): number[] => {
+  const value = hex.replace('#', '');
+  return [0, 2, 4].map((offset) => parseInt(value.slice(offset, offset + 2), 16) || 0);
+};
+
+/**
+ * Paints the composition into a square bitmap, back to front. Each source is fitted
+ * into its layer's box the same way the canvas shows it, sampled nearest-neighbour and
+ * alpha-blended over what is already there. Layers without a source are skipped.
+ */
+export const renderComposition = (
+  composition: OutfitComposition,
+  sources: Map<string, PixelBuffer>,
+  size: number
+): PixelBuffer => {
+  const data = new Uint8Array(size * size * 4);
+  const [r, g, b] = hexToRgb(composition.background);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+    data[i + 3] = 255;
+  }
+
+  [...composition.layers]
+    .sort((a, c) => a.zIndex - c.zIndex)
+    .forEach((layer) => {
+      const source = sources.get(layer.itemId);
+      if (!source) return;
+
+      const box = layer.size * size;
+      const scale = box / Math.max(source.width, source.height);
+      const drawWidth = Math.max(1, Math.round(source.width * scale));
+      const drawHeight = Math.max(1, Math.round(source.height * scale));
+      const left = Math.round(layer.x * size - drawWidth / 2);
+      const top = Math.round(layer.y * size - drawHeight / 2);
+
+      for (let y = Math.max(0, top); y < Math.min(size, top + drawHeight); y++) {
+        const sourceY = Math.min(source.height - 1, Math.floor((y - top) / scale));
+        for (let x = Math.max(0, left); x < Math.min(size, left + drawWidth); x++) {
+          const sourceX = Math.min(source.width - 1, Math.floor((x - left) / scale));
+          const from = (sourceY * source.width + sourceX) * 4;
+          const alpha = source.data[from + 3] / 255;
+          if (alpha === 0) continue;
+          const to = (y * size + x) * 4;
+          for (let channel = 0; channel < 3; channel++) {
+            data[to + channel] = Math.round(
+              source.data[from + channel] * alpha + data[to + channel] * (1 - alpha)
+            );
+          }
+        }
+      }
+    });
+
+  return { width: size, height: size, data };
+};
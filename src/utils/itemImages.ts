@@ -0,0 +1,15 @@
+import { ClosetItem } from '../models';
+
+// 'cutout' for outfits composed from several items, 'thumbnail' for small list rows
+export type ItemImageVariant = 'original' | 'cutout' | 'thumbnail';
+
+export const getItemImageUri = (item: ClosetItem, variant: ItemImageVariant): string => {
+  switch (variant) {
+    case 'cutout':
+      return item.cutoutUri ?? item.thumbnailUri ?? item.imageUri;
+    case 'thumbnail':
+      return item.thumbnailUri ?? item.imageUri;
+    default:
+      return item.imageUri;
+  }
+};
@@ -0,0 +1,411 @@
+import {
+  ClosetItem,
+  DressCode,
+  ItemCategory,
+  OccasionId,
+  OutfitItemSlot,
+  WeatherContext,
+} from '../models';
+import { getDressCode } from '../constants/dressCodes';
+import { RandomFn, createSeededRandom, hashString, shuffle } from './random';
+import { localDateKey } from './date';
+import { analyzePalette, harmonyLabels } from './colorHarmony';
+import { WeatherRules, resolveWeatherRules, scoreWeatherFit } from './weatherRules';
+import { CooldownOverrides, ItemWearLog, getRotationPenalty } from './wearRotation';
+import {
+  PreferenceWeights,
+  explainPreference,
+  outfitFeatures,
+  preferenceScore,
+} from './preferenceModel';
+
+export type SlotName = OutfitItemSlot['slot'];
+
+export interface GenerationContext {
+  occasion: OccasionId;
+  weather: WeatherContext;
+  dressCode?: DressCode; // resolved from occasion when omitted
+  wearLog?: ItemWearLog;
+  cooldownDays?: CooldownOverrides;
+  preferences?: PreferenceWeights; // learned from Today deck swipes
+  today?: Date;
+}
+
+export interface GenerationOptions {
+  count?: number;
+  seed?: number;
+  cooldownDays?: CooldownOverrides;
+  lockedItemIds?: string[]; // kept in every result; only the other slots are filled
+  preferences?: PreferenceWeights;
+}
+
+export interface OutfitCandidate {
+  items: OutfitItemSlot[];
+  score: number;
+  reasons: string[];
+}
+
+export interface SlotAlternative {
+  item: ClosetItem;
+  score: number;
+  reasons: string[]; // why this item suits the rest of the outfit
+}
+
+export const DEFAULT_OUTFIT_COUNT = 3;
+
+// Caps keep enumeration bounded for large closets (pro plan allows 1000 items)
+const MAX_ITEMS_PER_CATEGORY = 8;
+const MAX_CANDIDATES = 2000;
+
+// How strongly a candidate is pushed down for reusing items already picked
+const OVERLAP_PENALTY = 0.6;
+const TIE_BREAK_JITTER = 0.05;
+
+const COLOR_HARMONY_WEIGHT = 0.5;
+const COLOR_REASON_THRESHOLD = 0.75;
+
+const WEATHER_FIT_WEIGHT = 0.5;
+const ROTATION_WEIGHT = 1;
+const PREFERRED_LAYER_BONUS = 0.2;
+const PREFERENCE_WEIGHT = 0.5;
+
+const CORE_SLOTS: SlotName[] = ['top', 'bottom', 'dress', 'shoes'];
+export const SLOT_ORDER: SlotName[] = ['outerwear', 'top', 'bottom', 'dress', 'shoes', 'accessory'];
+
+// Closet categories that can fill each slot; bags are carried like accessories
+export const SLOT_CATEGORIES: Record<SlotName, ItemCategory[]> = {
+  top: ['top'],
+  bottom: ['bottom'],
+  dress: ['dress'],
+  outerwear: ['outerwear'],
+  shoes: ['shoes'],
+  accessory: ['accessory', 'bag'],
+};
+
+const slotFor = (item: ClosetItem): SlotName =>
+  SLOT_ORDER.find((slot) => SLOT_CATEGORIES[slot].includes(item.category)) ?? 'accessory';
+
+const bySlot = (items: ClosetItem[], slot: SlotName, random: RandomFn) =>
+  shuffle(
+    items.filter((item) => SLOT_CATEGORIES[slot].includes(item.category)),
+    random
+  ).slice(0, MAX_ITEMS_PER_CATEGORY);
+
+const toSlots = (items: ClosetItem[]): OutfitItemSlot[] =>
+  items
+    .map((item) => ({ slot: slotFor(item), itemId: item.id, item }))
+    .sort((a, b) => SLOT_ORDER.indexOf(a.slot) - SLOT_ORDER.indexOf(b.slot));
+
+/**
+ * Enumerates valid slot combinations: top + bottom + shoes or dress + shoes, each
+ * optionally layered with one outerwear piece and one accessory or bag. Outerwear is
+ * forced or dropped when the weather rules require or forbid it.
+ *
+ * Every base outfit is kept; when the candidate cap is hit, each base gets an equal
+ * share of randomly drawn layerings instead, so no shoe, top or dress is crowded out.
+ *
+ * Locked items take their slot over: they are the only candidates for it and
+ * every combination includes them, whatever the weather rules say.
+ */
+export const enumerateCombinations = (
+  closetItems: ClosetItem[],
+  random: RandomFn,
+  rules?: WeatherRules,
+  locked: ClosetItem[] = []
+): ClosetItem[][] => {
+  const pick = (slot: SlotName) => {
+    const lockedInSlot = locked.filter((item) => slotFor(item) === slot);
+    return lockedInSlot.length > 0 ? lockedInSlot : bySlot(closetItems, slot, random);
+  };
+  const isLocked = (slot: SlotName) => locked.some((item) => slotFor(item) === slot);
+
+  const tops = pick('top');
+  const bottoms = pick('bottom');
+  const dresses = pick('dress');
+  const shoes = pick('shoes');
+  const outerwear = pick('outerwear');
+  const accessories = pick('accessory');
+
+  // Only bases that can hold every locked piece: a locked dress rules out tops and
+  // bottoms, and a locked top or bottom rules out dresses
+  const lockedDress = isLocked('dress');
+  const lockedSeparates = isLocked('top') || isLocked('bottom');
+
+  const bases: ClosetItem[][] = [];
+  for (const top of lockedDress ? [] : tops) {
+    for (const bottom of bottoms) {
+      for (const shoe of shoes) {
+        bases.push([top, bottom, shoe]);
+      }
+    }
+  }
+  for (const dress of lockedSeparates ? [] : dresses) {
+    for (const shoe of shoes) {
+      bases.push([dress, shoe]);
+    }
+  }
+
+  let outerOptions: (ClosetItem | null)[] = [null, ...outerwear];
+  if (isLocked('outerwear')) {
+    outerOptions = outerwear;
+  } else if (rules?.outerwear === 'forbidden') {
+    outerOptions = [null];
+  } else if (rules?.outerwear === 'required' && outerwear.length > 0) {
+    outerOptions = outerwear;
+  }
+  const accessoryOptions: (ClosetItem | null)[] = isLocked('accessory')
+    ? accessories
+    : [null, ...accessories];
+
+  const layerings = outerOptions.flatMap((outer) =>
+    accessoryOptions.map((accessory) =>
+      [outer, accessory].filter((item): item is ClosetItem => item !== null)
+    )
+  );
+  const perBase = Math.max(1, Math.floor(MAX_CANDIDATES / Math.max(bases.length, 1)));
+
+  return bases.flatMap((base) =>
+    (layerings.length > perBase ? shuffle(layerings, random).slice(0, perBase) : layerings).map(
+      (layering) => [...base, ...layering]
+    )
+  );
+};
+
+export const meetsDressCode = (items: ClosetItem[], dressCode: DressCode): boolean => {
+  const tags = new Set(items.flatMap((item) => item.tags ?? []));
+  const categories = new Set(items.map((item) => item.category));
+
+  return (
+    dressCode.forbiddenTags.every((tag) => !tags.has(tag)) &&
+    dressCode.forbiddenCategories.every((category) => !categories.has(category)) &&
+    dressCode.requiredTags.every((tag) => tags.has(tag)) &&
+    dressCode.requiredCategories.every((category) => categories.has(category))
+  );
+};
+
+/**
+ * Problems that stop hand-picked slots from forming an outfit, by the same shape rules
+ * enumerateCombinations follows. An empty list means the outfit is valid.
+ */
+export const validateOutfitSlots = (slots: OutfitItemSlot[]): string[] => {
+  const problems: string[] = [];
+  const filled = new Set<SlotName>();
+
+  slots.forEach((slot) => {
+    if (filled.has(slot.slot)) {
+      problems.push(`Only one ${slot.slot} per outfit`);
+    }
+    filled.add(slot.slot);
+    if (slot.item && !SLOT_CATEGORIES[slot.slot].includes(slot.item.category)) {
+      problems.push(`A ${slot.item.category} item can't be worn as ${slot.slot}`);
+    }
+  });
+
+  if (filled.has('dress') && (filled.has('top') || filled.has('bottom'))) {
+    problems.push('A dress replaces the top and bottom, so pick one or the other');
+  } else if (!filled.has('dress') && !(filled.has('top') && filled.has('bottom'))) {
+    problems.push('Pick a top and a bottom, or a dress');
+  }
+  if (!filled.has('shoes')) {
+    problems.push('Pick shoes to finish the look');
+  }
+
+  return problems;
+};
+
+export const scoreCombination = (
+  items: ClosetItem[],
+  context: GenerationContext,
+  rules: WeatherRules = resolveWeatherRules(context.weather),
+  dressCode: DressCode = context.dressCode ?? getDressCode(context.occasion)
+): { score: number; reasons: string[] } => {
+  const reasons: string[] = [...rules.reasons];
+  let score = 0;
+
+  const occasionMatches = items.filter((item) =>
+    item.tags?.some((tag) => dressCode.preferredTags.includes(tag))
+  ).length;
+  if (occasionMatches > 0) {
+    score += occasionMatches / items.length;
+    reasons.push(
+      `${occasionMatches} of ${items.length} pieces suit ${dressCode.label.toLowerCase()}`
+    );
+  }
+
+  const palette = analyzePalette(items.flatMap((item) => item.colors ?? []));
+  score += COLOR_HARMONY_WEIGHT * palette.score;
+  if (palette.score >= COLOR_REASON_THRESHOLD) {
+    reasons.push(`${harmonyLabels[palette.harmony]} palette`);
+  }
+
+  const weatherFit = scoreWeatherFit(items, rules);
+  score += WEATHER_FIT_WEIGHT * weatherFit;
+
+  const hasOuterwear = items.some((item) => item.category === 'outerwear');
+  if (rules.outerwear === 'preferred' && hasOuterwear) {
+    score += PREFERRED_LAYER_BONUS;
+  } else if (rules.outerwear === 'required' && !hasOuterwear) {
+    reasons.push('No outerwear in your closet for this weather');
+  }
+
+  const { wearLog } = context;
+  if (wearLog) {
+    const penalties = items.map((item) =>
+      getRotationPenalty(item, wearLog, context.cooldownDays, context.today)
+    );
+    const recentlyWorn = penalties.filter((penalty) => penalty > 0).length;
+    score -=
+      (ROTATION_WEIGHT * penalties.reduce((sum, penalty) => sum + penalty, 0)) / items.length;
+    if (recentlyWorn > 0) {
+      reasons.push(
+        `Repeats ${recentlyWorn} recently worn ${recentlyWorn === 1 ? 'piece' : 'pieces'}`
+      );
+    }
+  }
+
+  if (items.some((item) => item.category === 'dress')) {
+    reasons.push('A one-piece look anchored by your dress');
+  }
+
+  if (items.some((item) => slotFor(item) === 'accessory')) {
+    score += 0.1;
+  }
+
+  const { preferences } = context;
+  if (preferences) {
+    const features = outfitFeatures(items, context.occasion);
+    score += PREFERENCE_WEIGHT * preferenceScore(features, preferences);
+    reasons.push(...explainPreference(features, preferences));
+  }
+
+  return { score, reasons };
+};
+
+/**
+ * Scores every closet item that could fill `slot` by how the whole outfit would score
+ * with it swapped in, best first. The item currently in the slot is left out.
+ */
+export const rankSlotAlternatives = (
+  outfitItems: OutfitItemSlot[],
+  slot: SlotName,
+  closetItems: ClosetItem[],
+  context: GenerationContext
+): SlotAlternative[] => {
+  const rules = resolveWeatherRules(context.weather);
+  const dressCode = context.dressCode ?? getDressCode(context.occasion);
+  const current = outfitItems.find((entry) => entry.slot === slot)?.itemId;
+  const rest = outfitItems
+    .filter((entry) => entry.slot !== slot)
+    .flatMap((entry) => (entry.item ? [entry.item] : []));
+  const restPalette = analyzePalette(rest.flatMap((item) => item.colors ?? []));
+
+  return closetItems
+    .filter((item) => item.id !== current && SLOT_CATEGORIES[slot].includes(item.category))
+    .map((item) => {
+      const { score } = scoreCombination([...rest, item], context, rules, dressCode);
+      const reasons: string[] = [];
+
+      const palette = analyzePalette([...rest, item].flatMap((entry) => entry.colors ?? []));
+      if (palette.score >= COLOR_REASON_THRESHOLD && palette.score >= restPalette.score) {
+        reasons.push(`${harmonyLabels[palette.harmony]} palette`);
+      }
+      if (item.tags?.some((tag) => dressCode.preferredTags.includes(tag))) {
+        reasons.push(`Suits ${dressCode.label.toLowerCase()}`);
+      }
+      if (scoreWeatherFit([item], rules) > 0) {
+        reasons.push('Right for the weather');
+      }
+      if (
+        context.wearLog &&
+        getRotationPenalty(item, context.wearLog, context.cooldownDays, context.today) > 0
+      ) {
+        reasons.push('Worn recently');
+      }
+
+      return { item, score, reasons };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+const coreKey = (candidate: OutfitCandidate) =>
+  candidate.items
+    .filter((slot) => CORE_SLOTS.includes(slot.slot))
+    .map((slot) => slot.itemId)
+    .sort()
+    .join('|');
+
+const sharedFraction = (a: OutfitCandidate, b: OutfitCandidate) => {
+  const ids = new Set(b.items.map((slot) => slot.itemId));
+  const shared = a.items.filter((slot) => ids.has(slot.itemId)).length;
+  return shared / a.items.length;
+};
+
+/**
+ * Greedily picks the best-scoring candidates while penalising item reuse, so no two
+ * results share the same core pieces.
+ */
+export const selectDistinct = (candidates: OutfitCandidate[], count: number): OutfitCandidate[] => {
+  const selected: OutfitCandidate[] = [];
+  const usedCores = new Set<string>();
+  let remaining = [...candidates];
+
+  while (selected.length < count && remaining.length > 0) {
+    let best: OutfitCandidate | null = null;
+    let bestValue = -Infinity;
+
+    for (const candidate of remaining) {
+      const overlap = selected.reduce(
+        (max, picked) => Math.max(max, sharedFraction(candidate, picked)),
+        0
+      );
+      const value = candidate.score - OVERLAP_PENALTY * overlap;
+      if (value > bestValue) {
+        best = candidate;
+        bestValue = value;
+      }
+    }
+
+    if (!best) break;
+    selected.push(best);
+    usedCores.add(coreKey(best));
+    remaining = remaining.filter((candidate) => !usedCores.has(coreKey(candidate)));
+  }
+
+  return selected;
+};
+
+export const defaultSeed = (userId: string, context: GenerationContext, date: Date = new Date()) =>
+  hashString(`${userId}:${context.occasion}:${localDateKey(date)}`);
+
+export const generateOutfitCandidates = (
+  closetItems: ClosetItem[],
+  context: GenerationContext,
+  options: GenerationOptions & { seed: number }
+): OutfitCandidate[] => {
+  const random = createSeededRandom(options.seed);
+  const rules = resolveWeatherRules(context.weather);
+  const dressCode = context.dressCode ?? getDressCode(context.occasion);
+
+  const locked = closetItems.filter((item) => options.lockedItemIds?.includes(item.id));
+  // Locks that can't be worn together (a dress with a top) leave no combination at all
+  const combinations = enumerateCombinations(closetItems, random, rules, locked).filter((items) =>
+    locked.every((item) => items.includes(item))
+  );
+  const allowed = combinations.filter((items) => meetsDressCode(items, dressCode));
+  // Rather than return nothing, fall back to the closest looks when no combination complies
+  const pool = allowed.length > 0 ? allowed : combinations;
+
+  const candidates = pool.map((items) => {
+    const { score, reasons } = scoreCombination(items, context, rules, dressCode);
+    if (allowed.length === 0) {
+      reasons.push(`Nothing in your closet fully meets the ${dressCode.label} dress code`);
+    }
+    return {
+      items: toSlots(items),
+      score: score + random() * TIE_BREAK_JITTER,
+      reasons,
+    };
+  });
+
+  return selectDistinct(candidates, options.count ?? DEFAULT_OUTFIT_COUNT);
+};
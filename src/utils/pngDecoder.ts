@@ -0,0 +1,306 @@
+import { PixelBuffer } from './dominantColors';
+import { base64ToBytes } from './pngEncoder';
+
+// Reads back 8-bit RGB and RGBA PNGs, which covers the cutouts and thumbnails written by
+// pngEncoder. Interlaced, paletted, grayscale and 16-bit files are not supported.
+
+// Canonical Huffman table in the counts/symbols form used by zlib's puff decoder
+interface HuffmanTable {
+  counts: Uint16Array; // number of codes of each length
+  symbols: Uint16Array; // symbols ordered by code
+}
+
+const MAX_BITS = 15;
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31,
+  35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+]; // prettier-ignore
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2,
+  3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+]; // prettier-ignore
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+  257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+]; // prettier-ignore
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6,
+  7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+]; // prettier-ignore
+// Order in which code length code lengths are stored in a dynamic block header
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+class BitReader {
+  private position: number;
+  private buffer = 0;
+  private count = 0;
+
+  constructor(
+    private bytes: Uint8Array,
+    start: number
+  ) {
+    this.position = start;
+  }
+
+  readBits(length: number): number {
+    while (this.count < length) {
+      if (this.position >= this.bytes.length) throw new Error('Unexpected end of data');
+      this.buffer |= this.bytes[this.position++] << this.count;
+      this.count += 8;
+    }
+    const value = this.buffer & ((1 << length) - 1);
+    this.buffer >>>= length;
+    this.count -= length;
+    return value;
+  }
+
+  // Stored blocks start on a byte boundary
+  alignToByte(): void {
+    this.buffer = 0;
+    this.count = 0;
+  }
+
+  readByte(): number {
+    if (this.position >= this.bytes.length) throw new Error('Unexpected end of data');
+    return this.bytes[this.position++];
+  }
+}
+
+const buildHuffman = (lengths: ArrayLike<number>): HuffmanTable => {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]] += 1;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_BITS + 2);
+  for (let length = 1; length <= MAX_BITS; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) symbols[offsets[lengths[symbol]]++] = symbol;
+  }
+  return { counts, symbols };
+};
+
+const decodeSymbol = (reader: BitReader, table: HuffmanTable): number => {
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let length = 1; length <= MAX_BITS; length++) {
+    code |= reader.readBits(1);
+    const count = table.counts[length];
+    if (code - first < count) return table.symbols[index + code - first];
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new Error('Invalid Huffman code');
+};
+
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8))
+);
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+const readDynamicTables = (reader: BitReader): [HuffmanTable, HuffmanTable] => {
+  const literalCount = reader.readBits(5) + 257;
+  const distanceCount = reader.readBits(5) + 1;
+  const codeLengthCount = reader.readBits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+  const codeLengthTable = buildHuffman(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let i = 0;
+  while (i < lengths.length) {
+    const symbol = decodeSymbol(reader, codeLengthTable);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) throw new Error('Invalid code lengths');
+      value = lengths[i - 1];
+      repeat = 3 + reader.readBits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.readBits(3);
+    } else {
+      repeat = 11 + reader.readBits(7);
+    }
+    if (i + repeat > lengths.length) throw new Error('Invalid code lengths');
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+
+  return [
+    buildHuffman(lengths.subarray(0, literalCount)),
+    buildHuffman(lengths.subarray(literalCount)),
+  ];
+};
+
+/**
+ * Inflates a zlib stream. The output grows as needed, so `sizeHint` only saves copies.
+ */
+export const zlibDecompress = (bytes: Uint8Array, sizeHint = bytes.length * 4): Uint8Array => {
+  if (bytes.length < 2 || (bytes[0] & 0x0f) !== 8) throw new Error('Not a zlib stream');
+
+  const reader = new BitReader(bytes, 2);
+  let output = new Uint8Array(Math.max(1024, sizeHint));
+  let length = 0;
+  const ensure = (extra: number) => {
+    if (length + extra <= output.length) return;
+    const grown = new Uint8Array(Math.max(output.length * 2, length + extra));
+    grown.set(output.subarray(0, length));
+    output = grown;
+  };
+
+  let isFinal = false;
+  while (!isFinal) {
+    isFinal = reader.readBits(1) === 1;
+    const type = reader.readBits(2);
+
+    if (type === 0) {
+      reader.alignToByte();
+      const size = reader.readByte() | (reader.readByte() << 8);
+      reader.readByte();
+      reader.readByte(); // one's complement of the size
+      ensure(size);
+      for (let i = 0; i < size; i++) output[length++] = reader.readByte();
+      continue;
+    }
+    if (type === 3) throw new Error('Invalid block type');
+
+    const [literals, distances] =
+      type === 1 ? [FIXED_LITERALS, FIXED_DISTANCES] : readDynamicTables(reader);
+
+    for (;;) {
+      const symbol = decodeSymbol(reader, literals);
+      if (symbol < 256) {
+        ensure(1);
+        output[length++] = symbol;
+        continue;
+      }
+      if (symbol === 256) break;
+
+      const lengthCode = symbol - 257;
+      if (lengthCode >= LENGTH_BASE.length) throw new Error('Invalid length code');
+      const matchLength = LENGTH_BASE[lengthCode] + reader.readBits(LENGTH_EXTRA[lengthCode]);
+      const distanceCode = decodeSymbol(reader, distances);
+      if (distanceCode >= DISTANCE_BASE.length) throw new Error('Invalid distance code');
+      const distance = DISTANCE_BASE[distanceCode] + reader.readBits(DISTANCE_EXTRA[distanceCode]);
+      if (distance > length) throw new Error('Distance too far back');
+
+      // Byte by byte, because a match may overlap the bytes it is producing
+      ensure(matchLength);
+      for (let i = 0; i < matchLength; i++) {
+        output[length] = output[length - distance];
+        length += 1;
+      }
+    }
+  }
+
+  return output.subarray(0, length);
+};
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] * 0x1000000 +
+  ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]);
+
+const paeth = (left: number, up: number, upLeft: number) => {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+};
+
+export const decodePng = (bytes: Uint8Array): PixelBuffer | null => {
+  const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  if (bytes.length < 8 || signature.some((value, i) => bytes[i] !== value)) return null;
+
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Uint8Array[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const size = readUint32(bytes, offset);
+    const type = String.fromCharCode(...Array.from(bytes.subarray(offset + 4, offset + 8)));
+    const data = bytes.subarray(offset + 8, offset + 8 + size);
+    offset += 12 + size;
+
+    if (type === 'IHDR') {
+      width = readUint32(data, 0);
+      height = readUint32(data, 4);
+      const [bitDepth, colorType, , , interlace] = Array.from(data.subarray(8, 13));
+      if (bitDepth !== 8 || interlace !== 0) return null;
+      if (colorType === 6) channels = 4;
+      else if (colorType === 2) channels = 3;
+      else return null;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+  if (width === 0 || height === 0 || idat.length === 0) return null;
+
+  const compressed = new Uint8Array(idat.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  idat.forEach((part) => {
+    compressed.set(part, position);
+    position += part.length;
+  });
+
+  const stride = width * channels;
+  let raw: Uint8Array;
+  try {
+    raw = zlibDecompress(compressed, (stride + 1) * height);
+  } catch {
+    return null;
+  }
+  if (raw.length < (stride + 1) * height) return null;
+
+  // Undo the per-scanline filters in place, then expand to RGBA
+  const rows = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? rows[row + x - channels] : 0;
+      const up = y > 0 ? rows[row - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? rows[row - stride + x - channels] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >> 1;
+      else if (filter === 4) predictor = paeth(left, up, upLeft);
+      rows[row + x] = (raw[source + x] + predictor) & 0xff;
+    }
+  }
+
+  if (channels === 4) return { width, height, data: rows };
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0, j = 0; i < rows.length; i += 3, j += 4) {
+    data[j] = rows[i];
+    data[j + 1] = rows[i + 1];
+    data[j + 2] = rows[i + 2];
+    data[j + 3] = 255;
+  }
+  return { width, height, data };
+};
+
+// Only data URIs carry their bytes with them; file and remote URIs return null
+export const decodePngDataUri = (uri?: string | null): PixelBuffer | null => {
+  if (!uri || !uri.startsWith('data:image/png')) return null;
+  return decodePng(base64ToBytes(uri));
+};
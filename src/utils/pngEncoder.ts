@@ -0,0 +1,218 @@
+import { PixelBuffer } from './dominantColors';
+
+// Minimal RGBA PNG writer. Compression uses fixed-Huffman deflate with run-length
+// matches only, which is crude but shrinks the large transparent areas of a cutout
+// to almost nothing.
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Deflate length codes 257-285: [base length, extra bits]
+const LENGTH_CODES: [number, number][] = [
+  [3, 0], [4, 0], [5, 0], [6, 0], [7, 0], [8, 0], [9, 0], [10, 0],
+  [11, 1], [13, 1], [15, 1], [17, 1], [19, 2], [23, 2], [27, 2], [31, 2],
+  [35, 3], [43, 3], [51, 3], [59, 3], [67, 4], [83, 4], [99, 4], [115, 4],
+  [131, 5], [163, 5], [195, 5], [227, 5], [258, 0],
+]; // prettier-ignore
+
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const PIXEL_DISTANCE = 4; // one RGBA pixel back
+
+const crc32 = (bytes: Uint8Array, start: number, end: number): number => {
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+class BitWriter {
+  private bytes: number[] = [];
+  private current = 0;
+  private count = 0;
+
+  writeBits(value: number, length: number): void {
+    for (let i = 0; i < length; i++) {
+      this.current |= ((value >> i) & 1) << this.count;
+      this.count += 1;
+      if (this.count === 8) {
+        this.bytes.push(this.current);
+        this.current = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  // Huffman codes go out most significant bit first
+  writeCode(code: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.writeBits((code >> i) & 1, 1);
+    }
+  }
+
+  finish(): Uint8Array {
+    if (this.count > 0) this.bytes.push(this.current);
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+const writeLiteralOrLength = (writer: BitWriter, symbol: number) => {
+  if (symbol < 144) writer.writeCode(0x30 + symbol, 8);
+  else if (symbol < 256) writer.writeCode(0x190 + symbol - 144, 9);
+  else if (symbol < 280) writer.writeCode(symbol - 256, 7);
+  else writer.writeCode(0xc0 + symbol - 280, 8);
+};
+
+const writeMatch = (writer: BitWriter, length: number) => {
+  let code = LENGTH_CODES.length - 1;
+  while (LENGTH_CODES[code][0] > length) code -= 1;
+  const [base, extraBits] = LENGTH_CODES[code];
+  writeLiteralOrLength(writer, 257 + code);
+  writer.writeBits(length - base, extraBits);
+  writer.writeCode(3, 5); // distance code 3 is exactly 4 bytes back
+};
+
+const zlibCompress = (data: Uint8Array): Uint8Array => {
+  const writer = new BitWriter();
+  writer.writeBits(1, 1); // final block
+  writer.writeBits(1, 2); // fixed Huffman
+
+  let i = 0;
+  while (i < data.length) {
+    let length = 0;
+    if (i >= PIXEL_DISTANCE) {
+      while (
+        length < MAX_MATCH &&
+        i + length < data.length &&
+        data[i + length] === data[i + length - PIXEL_DISTANCE]
+      ) {
+        length += 1;
+      }
+    }
+    if (length >= MIN_MATCH) {
+      writeMatch(writer, length);
+      i += length;
+    } else {
+      writeLiteralOrLength(writer, data[i]);
+      i += 1;
+    }
+  }
+  writeLiteralOrLength(writer, 256); // end of block
+
+  const deflated = writer.finish();
+  const output = new Uint8Array(deflated.length + 6);
+  output[0] = 0x78;
+  output[1] = 0x01;
+  output.set(deflated, 2);
+  const checksum = adler32(data);
+  output[output.length - 4] = checksum >>> 24;
+  output[output.length - 3] = (checksum >>> 16) & 0xff;
+  output[output.length - 2] = (checksum >>> 8) & 0xff;
+  output[output.length - 1] = checksum & 0xff;
+  return output;
+};
+
+const writeUint32 = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = value >>> 24;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+};
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(12 + data.length);
+  writeUint32(bytes, 0, data.length);
+  for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(data, 8);
+  writeUint32(bytes, 8 + data.length, crc32(bytes, 4, 8 + data.length));
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    output += BASE64_ALPHABET[(n >> 18) & 63] + BASE64_ALPHABET[(n >> 12) & 63];
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[(n >> 6) & 63] : '=';
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[n & 63] : '=';
+  }
+  return output;
+};
+
+const BASE64_LOOKUP = new Uint8Array(128);
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET.charCodeAt(i)] = i;
+}
+
+// Accepts a bare base64 string or a data URI
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const clean = base64.replace(/^data:[^,]*,/, '').replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+
+  for (let i = 0; i < clean.length; i++) {
+    buffer = ((buffer << 6) | BASE64_LOOKUP[clean.charCodeAt(i)]) & 0xffffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.subarray(0, index);
+};
+
+export const encodePng = (pixels: PixelBuffer): Uint8Array => {
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, pixels.width);
+  writeUint32(header, 4, pixels.height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+
+  // Each scanline starts with filter type 0 (none)
+  const stride = pixels.width * 4;
+  const raw = new Uint8Array((stride + 1) * pixels.height);
+  for (let y = 0; y < pixels.height; y++) {
+    raw.set(pixels.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const parts = [
+    Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', zlibCompress(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    png.set(part, offset);
+    offset += part.length;
+  });
+  return png;
+};
+
+export const encodePngDataUri = (pixels: PixelBuffer): string =>
+  `data:image/png;base64,${bytesToBase64(encodePng(pixels))}`;
@@ -0,0 +1,169 @@
+import { ClosetItem, OccasionId } from '../models';
+import { BUILT_IN_OCCASIONS } from '../constants/dressCodes';
+import { colorNames } from './colors';
+
+// Features are namespaced strings: `style:cozy`, `color:navy`, `occasion:work`. Item tags
+// and words from suggestion titles and reasons share the style namespace, so swiping
+// the Today deck also shapes how generated outfits are ranked.
+
+/**
+ * How often each feature showed up on accepted and rejected suggestions.
+ */
+export interface PreferenceModel {
+  liked: Record<string, number>;
+  disliked: Record<string, number>;
+  swipes: number;
+  updatedAt: string;
+}
+
+// Feature -> weight in (-1, 1); positive means the user tends to accept it
+export type PreferenceWeights = Record<string, number>;
+
+export interface SwipeableSuggestion {
+  title: string;
+  reason: string;
+}
+
+// Pseudo-count that keeps a single swipe from producing an extreme weight
+const PRIOR_SWIPES = 2;
+const MIN_WORD_LENGTH = 3;
+// Weights weaker than this are too uncertain to mention in explanations
+const EXPLAIN_THRESHOLD = 0.25;
+const MAX_EXPLAINED = 2;
+
+const STOP_WORDS = new Set(['and', 'any', 'day', 'for', 'less', 'more', 'the', 'with']);
+
+const FEATURE_LABELS: Record<string, string> = {
+  style: 'looks',
+  color: 'pieces',
+  occasion: 'outfits',
+};
+
+export const createPreferenceModel = (): PreferenceModel => ({
+  liked: {},
+  disliked: {},
+  swipes: 0,
+  updatedAt: new Date().toISOString(),
+});
+
+const keywordFeatures = (word: string): string[] => {
+  if (word.length < MIN_WORD_LENGTH || STOP_WORDS.has(word)) return [];
+  const features = [`style:${word}`];
+  if ((colorNames as readonly string[]).includes(word)) features.push(`color:${word}`);
+  if ((BUILT_IN_OCCASIONS as string[]).includes(word)) features.push(`occasion:${word}`);
+  return features;
+};
+
+const unique = (features: string[]) => Array.from(new Set(features));
+
+/**
+ * Features of a Today deck card, taken from the words of its title and its
+ * `Hot day + Casual + Light fabric` style reason.
+ */
+export const suggestionFeatures = (suggestion: SwipeableSuggestion): string[] =>
+  unique(
+    `${suggestion.title} ${suggestion.reason}`
+      .toLowerCase()
+      .split(/[^a-z]+/)
+      .flatMap(keywordFeatures)
+  );
+
+export const outfitFeatures = (items: ClosetItem[], occasion: OccasionId): string[] =>
+  unique([
+    `occasion:${occasion}`,
+    ...items.flatMap((item) => [
+      ...item.tags.map((tag) => `style:${tag.toLowerCase()}`),
+      ...item.colors.map((color) => `color:${color.toLowerCase()}`),
+    ]),
+  ]);
+
+/**
+ * Counts a swipe towards the model. Passing `undo` takes a previously recorded swipe
+ * back out, so undoing on the deck leaves no trace.
+ */
+export const recordSwipe = (
+  model: PreferenceModel,
+  features: string[],
+  liked: boolean,
+  undo = false
+): PreferenceModel => {
+  const step = undo ? -1 : 1;
+  const counts = { ...(liked ? model.liked : model.disliked) };
+  features.forEach((feature) => {
+    const next = (counts[feature] ?? 0) + step;
+    if (next > 0) counts[feature] = next;
+    else delete counts[feature];
+  });
+
+  return {
+    liked: liked ? counts : model.liked,
+    disliked: liked ? model.disliked : counts,
+    swipes: Math.max(0, model.swipes + step),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+export const preferenceWeights = (model?: PreferenceModel): PreferenceWeights => {
+  if (!model) return {};
+  const weights: PreferenceWeights = {};
+  unique([...Object.keys(model.liked), ...Object.keys(model.disliked)]).forEach((feature) => {
+    const liked = model.liked[feature] ?? 0;
+    const disliked = model.disliked[feature] ?? 0;
+    weights[feature] = (liked - disliked) / (liked + disliked + PRIOR_SWIPES);
+  });
+  return weights;
+};
+
+/**
+ * Average weight of the features the model has an opinion on, in (-1, 1). Averaging
+ * keeps outfits with many tagged items from outranking sparser ones by volume alone.
+ */
+export const preferenceScore = (features: string[], weights: PreferenceWeights): number => {
+  const known = features.filter((feature) => weights[feature] !== undefined);
+  if (known.length === 0) return 0;
+  return known.reduce((sum, feature) => sum + weights[feature], 0) / known.length;
+};
+
+const describeFeature = (feature: string) => {
+  const [kind, value] = feature.split(':');
+  return `${value} ${FEATURE_LABELS[kind] ?? 'looks'}`;
+};
+
+/**
+ * Human readable reasons behind a preference score, strongest first. Empty when the
+ * model has not learned anything about these features yet.
+ */
+export const explainPreference = (features: string[], weights: PreferenceWeights): string[] => {
+  const described = new Set<string>();
+  const ranked = features
+    .filter((feature) => Math.abs(weights[feature] ?? 0) >= EXPLAIN_THRESHOLD)
+    .sort((a, b) => Math.abs(weights[b]) - Math.abs(weights[a]))
+    // `casual` is both a style and an occasion; only mention it once
+    .filter((feature) => {
+      const value = feature.split(':')[1];
+      if (described.has(value)) return false;
+      described.add(value);
+      return true;
+    })
+    .slice(0, MAX_EXPLAINED);
+
+  return ranked.map((feature) =>
+    weights[feature] > 0
+      ? `You tend to like ${describeFeature(feature)}`
+      : `You often pass on ${describeFeature(feature)}`
+  );
+};
+
+/**
+ * Stable sort by preference score, so items the model knows nothing about keep their
+ * original relative order.
+ */
+export const rankByPreference = <T>(
+  items: T[],
+  featuresOf: (item: T) => string[],
+  weights: PreferenceWeights
+): T[] =>
+  items
+    .map((item, index) => ({ item, index, score: preferenceScore(featuresOf(item), weights) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ item }) => item);
@@ -0,0 +1,63 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { ClosetItem, ItemCategory, WearEvent } from '../models';
+import { WEAR_COOLDOWN_DAYS } from '../constants/rotation';
+
+// Wear dates (yyyy-MM-dd) per closet item id, newest first
+export type ItemWearLog = Record<string, string[]>;
+
+export type CooldownOverrides = Partial<Record<ItemCategory, number>>;
+
+// Expects events with their outfit populated, as returned by outfitService.getWearEvents
+export const buildItemWearLog = (events: WearEvent[]): ItemWearLog => {
+  const log: ItemWearLog = {};
+
+  events.forEach((event) => {
+    event.outfit?.items.forEach((slot) => {
+      if (!log[slot.itemId]) {
+        log[slot.itemId] = [];
+      }
+      log[slot.itemId].push(event.date);
+    });
+  });
+
+  Object.values(log).forEach((dates) => dates.sort((a, b) => b.localeCompare(a)));
+  return log;
+};
+
+export const getWearCount = (log: ItemWearLog, itemId: string): number => log[itemId]?.length ?? 0;
+
+export const getDaysSinceWorn = (
+  log: ItemWearLog,
+  itemId: string,
+  today: Date = new Date()
+): number | null => {
+  const lastWorn = log[itemId]?.[0];
+  return lastWorn ? differenceInCalendarDays(today, parseISO(lastWorn)) : null;
+};
+
+export const getCooldownDays = (category: ItemCategory, overrides: CooldownOverrides = {}) =>
+  overrides[category] ?? WEAR_COOLDOWN_DAYS[category];
+
+/**
+ * 0 when the item is rested, rising to 1 when it was worn today. Decays linearly over
+ * the category's cooldown.
+ */
+export const getRotationPenalty = (
+  item: ClosetItem,
+  log: ItemWearLog,
+  overrides: CooldownOverrides = {},
+  today: Date = new Date()
+): number => {
+  const daysSince = getDaysSinceWorn(log, item.id, today);
+  const cooldown = getCooldownDays(item.category, overrides);
+  if (daysSince === null || cooldown <= 0 || daysSince >= cooldown) return 0;
+  return 1 - Math.max(0, daysSince) / cooldown;
+};
+
+export const sortByLeastWorn = (items: ClosetItem[], log: ItemWearLog): ClosetItem[] =>
+  [...items].sort((a, b) => {
+    const countDiff = getWearCount(log, a.id) - getWearCount(log, b.id);
+    if (countDiff !== 0) return countDiff;
+    // Tie-break on whichever has been resting longer
+    return (log[a.id]?.[0] ?? '').localeCompare(log[b.id]?.[0] ?? '');
+  });
@@ -0,0 +1,151 @@
+import { ClosetItem, WeatherContext } from '../models';
+
+export type LayeringRequirement = 'required' | 'preferred' | 'optional' | 'forbidden';
+
+export interface TemperatureBand {
+  name: 'freezing' | 'cold' | 'cool' | 'mild' | 'warm' | 'hot';
+  maxTemperature: number; // exclusive upper bound, Celsius
+  outerwear: LayeringRequirement;
+  preferredTags: string[];
+  avoidTags: string[];
+}
+
+export interface WeatherRules {
+  band: TemperatureBand;
+  outerwear: LayeringRequirement;
+  preferredTags: string[];
+  avoidTags: string[];
+  reasons: string[];
+}
+
+export const temperatureBands: TemperatureBand[] = [
+  {
+    name: 'freezing',
+    maxTemperature: 5,
+    outerwear: 'required',
+    preferredTags: ['wool', 'warm', 'winter', 'knit'],
+    avoidTags: ['summer', 'linen', 'shorts'],
+  },
+  {
+    name: 'cold',
+    maxTemperature: 12,
+    outerwear: 'required',
+    preferredTags: ['wool', 'warm', 'knit'],
+    avoidTags: ['summer', 'linen'],
+  },
+  {
+    name: 'cool',
+    maxTemperature: 18,
+    outerwear: 'preferred',
+    preferredTags: ['cotton', 'knit'],
+    avoidTags: ['linen'],
+  },
+  {
+    name: 'mild',
+    maxTemperature: 24,
+    outerwear: 'optional',
+    preferredTags: ['cotton'],
+    avoidTags: [],
+  },
+  {
+    name: 'warm',
+    maxTemperature: 28,
+    outerwear: 'forbidden',
+    preferredTags: ['summer', 'cotton', 'breathable'],
+    avoidTags: ['wool', 'winter'],
+  },
+  {
+    name: 'hot',
+    maxTemperature: Infinity,
+    outerwear: 'forbidden',
+    preferredTags: ['summer', 'linen', 'breathable'],
+    avoidTags: ['wool', 'winter', 'warm'],
+  },
+];
+
+const WINDY_SPEED = 30; // km/h
+const HUMID_PERCENT = 80;
+const HIGH_UV_INDEX = 6;
+
+export const getTemperatureBand = (temperature: number): TemperatureBand =>
+  temperatureBands.find((band) => temperature < band.maxTemperature) ??
+  temperatureBands[temperatureBands.length - 1];
+
+// Rough wind chill: every 10 km/h of wind takes about a degree off how it feels
+export const getFeelsLike = (weather: WeatherContext): number =>
+  weather.windSpeed ? weather.temperature - weather.windSpeed / 10 : weather.temperature;
+
+const strongerOf = (a: LayeringRequirement, b: LayeringRequirement): LayeringRequirement => {
+  const order: LayeringRequirement[] = ['forbidden', 'optional', 'preferred', 'required'];
+  return order[Math.max(order.indexOf(a), order.indexOf(b))];
+};
+
+/**
+ * Resolves which layering and fabric rules apply to the given weather. The band comes
+ * from the feels-like temperature; rain, wind, humidity, UV and the day's low adjust it.
+ */
+export const resolveWeatherRules = (weather: WeatherContext): WeatherRules => {
+  const feelsLike = getFeelsLike(weather);
+  const band = getTemperatureBand(feelsLike);
+  const preferredTags = [...band.preferredTags];
+  const avoidTags = [...band.avoidTags];
+  let outerwear = band.outerwear;
+  const reasons = [`${Math.round(feelsLike)}°C is ${band.name}`];
+
+  if (outerwear === 'required') {
+    reasons[0] += ', so a warm layer is a must';
+  } else if (outerwear === 'forbidden') {
+    reasons[0] += ', so skip the jacket';
+  }
+
+  if (weather.minTemperature !== undefined && band.outerwear !== 'required') {
+    const lowBand = getTemperatureBand(weather.minTemperature);
+    if (lowBand.outerwear === 'required' || lowBand.outerwear === 'preferred') {
+      outerwear = strongerOf(outerwear, 'preferred');
+      reasons.push(`Bring a layer for the ${Math.round(weather.minTemperature)}°C low`);
+    }
+  }
+
+  if (weather.isRaining) {
+    preferredTags.push('waterproof');
+    if (band.name !== 'hot') {
+      outerwear = strongerOf(outerwear, 'required');
+    }
+    reasons.push('Rain expected, so waterproof pieces rank higher');
+  }
+
+  if (weather.windSpeed !== undefined && weather.windSpeed >= WINDY_SPEED) {
+    preferredTags.push('windproof');
+    reasons.push(`Wind at ${Math.round(weather.windSpeed)} km/h favours windproof layers`);
+  }
+
+  if (weather.humidity !== undefined && weather.humidity >= HUMID_PERCENT) {
+    preferredTags.push('breathable', 'linen');
+    reasons.push('High humidity calls for breathable fabrics');
+  }
+
+  if (weather.uvIndex !== undefined && weather.uvIndex >= HIGH_UV_INDEX) {
+    preferredTags.push('hat', 'sunglasses');
+    reasons.push(`UV index ${weather.uvIndex}: cover up with a hat or sunglasses`);
+  }
+
+  return {
+    band,
+    outerwear,
+    preferredTags: Array.from(new Set(preferredTags)),
+    avoidTags: avoidTags.filter((tag) => !preferredTags.includes(tag)),
+    reasons,
+  };
+};
+
+/**
+ * Returns a 0-1 fit for how well the items' tags match the weather, minus avoided tags.
+ */
+export const scoreWeatherFit = (items: ClosetItem[], rules: WeatherRules): number => {
+  const tags = items.flatMap((item) => item.tags ?? []);
+  if (tags.length === 0) return 0;
+
+  const preferred = tags.filter((tag) => rules.preferredTags.includes(tag)).length;
+  const avoided = tags.filter((tag) => rules.avoidTags.includes(tag)).length;
+  return Math.max(0, Math.min(1, (preferred - avoided) / items.length));
+};